@@ -81,8 +81,10 @@ function logResult(name, status, message = '', duration = 0) {
 
 /**
  * Runs a test with timing
+ * Errors matching skipIf (missing data or settings, not a bug) are
+ * reported as skipped.
  */
-async function runTest(name, testFn) {
+async function runTest(name, testFn, skipIf) {
   const start = Date.now();
   try {
     const result = await testFn();
@@ -91,11 +93,542 @@ async function runTest(name, testFn) {
     return true;
   } catch (error) {
     const duration = Date.now() - start;
+    if (skipIf && skipIf.test(error.message)) {
+      logResult(name, 'skip', error.message);
+      return true;
+    }
     logResult(name, 'fail', error.message, duration);
     return false;
   }
 }
 
+/**
+ * Throws unless actual is within tolerance of expected
+ */
+function expectClose(label, actual, expected, tolerance = 0.001) {
+  if (typeof actual !== 'number' || Math.abs(actual - expected) > tolerance) {
+    throw new Error(`${label}: expected ${expected}, got ${actual}`);
+  }
+}
+
+/**
+ * Throws unless actual strictly equals expected
+ */
+function expectEqual(label, actual, expected) {
+  if (actual !== expected) {
+    throw new Error(`${label}: expected ${expected}, got ${actual}`);
+  }
+}
+
+/**
+ * Checks the clinical math against hand-computed values
+ * Runs offline: no credentials or API calls needed.
+ */
+async function runMathTests(analysis) {
+  const MIN = 60 * 1000;
+  const HOUR = 60 * MIN;
+  const t0 = Date.UTC(2025, 0, 15, 0, 0, 0);
+  const reading = (minutes, glucose) => ({ time: t0 + minutes * MIN, glucose, isSensor: true });
+
+  // Bolus arithmetic
+  const bolusDefaults = { carbs: 0, icRatio: 10, target: 110, isf: 45, iob: 0, increment: 0.5, maxBolus: 10 };
+
+  await runTest('bolus: carbs + correction - IOB', async () => {
+    // 60g / 10 = 6u, (200 - 110) / 45 = 2u, IOB 1u -> 7u
+    const dose = analysis.calculateBolusDose({ ...bolusDefaults, carbs: 60, glucose: 200, iob: 1 });
+    expectClose('carb bolus', dose.carbBolus, 6);
+    expectClose('correction', dose.correctionBolus, 2);
+    expectClose('IOB applied', dose.iobApplied, 1);
+    expectEqual('suggested', dose.suggestedBolus, 7);
+    return '6u + 2u - 1u = 7u';
+  });
+
+  await runTest('bolus: IOB offsets the correction only', async () => {
+    // IOB 3u against a 2u correction: only 2u subtracted, carb bolus kept
+    const dose = analysis.calculateBolusDose({ ...bolusDefaults, carbs: 60, glucose: 200, iob: 3 });
+    expectClose('IOB applied', dose.iobApplied, 2);
+    expectEqual('suggested', dose.suggestedBolus, 6);
+    return '6u + 2u - 2u (of 3u IOB) = 6u';
+  });
+
+  await runTest('bolus: full IOB against a negative correction', async () => {
+    // 30g / 10 = 3u, (80 - 110) / 30 = -1u, IOB 0.5u -> 1.5u
+    const dose = analysis.calculateBolusDose({ ...bolusDefaults, carbs: 30, glucose: 80, isf: 30, iob: 0.5 });
+    expectClose('correction', dose.correctionBolus, -1);
+    expectClose('IOB applied', dose.iobApplied, 0.5);
+    expectEqual('suggested', dose.suggestedBolus, 1.5);
+    return '3u - 1u - 0.5u = 1.5u';
+  });
+
+  await runTest('bolus: negative total floored at 0', async () => {
+    // 10g / 10 = 1u, (90 - 110) / 40 = -0.5u, IOB 1u -> -0.5u -> 0u
+    const dose = analysis.calculateBolusDose({ ...bolusDefaults, carbs: 10, glucose: 90, isf: 40, iob: 1 });
+    expectClose('total', dose.total, -0.5);
+    expectEqual('suggested', dose.suggestedBolus, 0);
+    return '1u - 0.5u - 1u = -0.5u -> 0u';
+  });
+
+  await runTest('bolus: rounding down to the increment', async () => {
+    // 45g / 10 = 4.5u, IOB 1.3u -> 3.2u
+    const inputs = { ...bolusDefaults, carbs: 45, iob: 1.3 };
+    expectEqual('0.5u pen', analysis.calculateBolusDose(inputs).suggestedBolus, 3);
+    expectEqual('0.1u pump', analysis.calculateBolusDose({ ...inputs, increment: 0.1 }).suggestedBolus, 3.2);
+    expectEqual('1u pen', analysis.calculateBolusDose({ ...inputs, increment: 1 }).suggestedBolus, 3);
+    expectEqual('0.3 / 0.1', analysis.roundDownToIncrement(0.3, 0.1), 0.3);
+    expectEqual('0.07 / 0.05', analysis.roundDownToIncrement(0.07, 0.05), 0.05);
+    expectEqual('2.99 / 0.5', analysis.roundDownToIncrement(2.99, 0.5), 2.5);
+    return '3.2u -> 3u (0.5), 3.2u (0.1), 3u (1)';
+  });
+
+  await runTest('bolus: capped at the maximum', async () => {
+    const dose = analysis.calculateBolusDose({ ...bolusDefaults, carbs: 200, maxBolus: 8.2 });
+    expectEqual('capped', dose.capped, true);
+    expectEqual('suggested', dose.suggestedBolus, 8);
+    return '20u -> 8u (max 8.2u, 0.5u steps)';
+  });
+
+  // Insulin on board curves
+  await runTest('IOB: Walsh curve (DIA 4h)', async () => {
+    const curve = { model: 'walsh', dia: 4 };
+    const expected = [[0, 1], [60, 0.875], [120, 0.5], [180, 0.125], [240, 0], [300, 0]];
+    for (const [minutes, fraction] of expected) {
+      expectClose(`${minutes} min`, analysis.insulinRemaining(curve, minutes), fraction);
+    }
+    return '1, 0.875, 0.5, 0.125, 0 at 0-4h';
+  });
+
+  await runTest('IOB: bilinear and flat curves', async () => {
+    expectClose('bilinear 60 min', analysis.insulinRemaining({ model: 'bilinear', dia: 4 }, 60), 0.75);
+    expectClose('flat 6h of 24h', analysis.insulinRemaining({ model: 'flat', dia: 24 }, 360), 0.75);
+    expectClose('flat rate', analysis.insulinActivityRate({ model: 'flat', dia: 24 }, 360), 1 / 1440, 1e-9);
+    return 'linear decay over the DIA';
+  });
+
+  await runTest('IOB: exponential curve (peak 75 min, DIA 5h)', async () => {
+    const curve = { model: 'exponential', dia: 5, peakMinutes: 75 };
+    expectClose('start', analysis.insulinRemaining(curve, 0), 1);
+    expectClose('end', analysis.insulinRemaining(curve, 300), 0);
+    let previous = 1;
+    for (let minutes = 5; minutes <= 300; minutes += 5) {
+      const remaining = analysis.insulinRemaining(curve, minutes);
+      if (remaining > previous) throw new Error(`IOB rises at ${minutes} min`);
+      previous = remaining;
+    }
+    const peak = analysis.insulinActivityRate(curve, 75);
+    if (!(peak > analysis.insulinActivityRate(curve, 60) && peak > analysis.insulinActivityRate(curve, 90))) {
+      throw new Error('Activity does not peak at 75 min');
+    }
+    return 'falls from 1 to 0, activity peaks at 75 min';
+  });
+
+  await runTest('IOB: activity integrates to the whole dose', async () => {
+    for (const curve of [{ model: 'walsh', dia: 4 }, { model: 'exponential', dia: 5, peakMinutes: 55 }]) {
+      let acted = 0;
+      for (let minutes = 0; minutes < curve.dia * 60; minutes += 0.5) {
+        acted += analysis.insulinActivityRate(curve, minutes + 0.25) * 0.5;
+      }
+      expectClose(`${curve.model} total`, acted, 1, 0.005);
+    }
+    return 'walsh and exponential sum to 1';
+  });
+
+  await runTest('IOB: doses on board', async () => {
+    const now = t0 + 60 * MIN;
+    const entries = [
+      { timestamp: new Date(t0).toISOString(), insulinBolus: 2, insulinCorrection: 1 },
+      { timestamp: new Date(now + 5 * MIN).toISOString(), insulinBolus: 4 }
+    ];
+    // 3u one hour ago at 87.5%; the later dose is not counted
+    expectClose('IOB', analysis.bolusInsulinOnBoard(entries, now, { model: 'walsh', dia: 4 }), 2.625);
+    return '3u x 0.875 = 2.625u';
+  });
+
+  // Carbs on board curve
+  await runTest('COB: absorption curve (3h)', async () => {
+    const expected = [[-10, 1], [0, 1], [45, 0.875], [90, 0.5], [135, 0.125], [180, 0]];
+    for (const [minutes, fraction] of expected) {
+      expectClose(`${minutes} min`, analysis.calculateCarbsRemaining(minutes, 3), fraction);
+    }
+    return '1, 0.875, 0.5, 0.125, 0 at 0-3h';
+  });
+
+  // Consensus metrics
+  await runTest('consensus metrics', async () => {
+    const values = [50, 65, 100, 100, 100, 100, 100, 100, 200, 300];
+    const readings = values.map((glucose, i) => reading(i * 5, glucose));
+    const metrics = analysis.computeConsensusMetrics(readings, t0, t0 + 50 * MIN);
+    expectClose('TIR', metrics.timeInRange.value, 60);
+    expectClose('TBR level 2', metrics.timeBelowRangeLevel2.value, 10);
+    expectClose('TAR level 2', metrics.timeAboveRangeLevel2.value, 10);
+    // Mean 121.5 mg/dL: GMI 3.31 + 0.02392 x 121.5
+    expectClose('GMI', metrics.gmi.value, 6.2);
+    // 3.0 x 10 + 2.4 x 10 + 1.6 x 10 + 0.8 x 10
+    expectClose('GRI', metrics.gri.value, 78);
+    expectEqual('GRI zone', metrics.gri.zone, 'D');
+    expectClose('CGM active', metrics.cgmActiveTime.value, 100);
+    return 'TIR 60%, GMI 6.2%, GRI 78 (D), CGM 100%';
+  });
+
+  // Variability indices
+  await runTest('variability: MAGE, LBGI and HBGI', async () => {
+    const values = [100, 150, 200, 150, 100, 150, 200, 150, 100];
+    const result = analysis.computeVariability(values.map((glucose, i) => reading(i * 15, glucose)));
+    expectClose('MAGE', result.mage.value, 100);
+
+    const risk = glucose => 10 * (1.509 * (Math.log(glucose) ** 1.084 - 5.381)) ** 2;
+    const mixed = analysis.computeVariability([reading(0, 50), reading(5, 300)]);
+    expectClose('LBGI', mixed.lbgi, Math.round(risk(50) / 2 * 10) / 10);
+    expectClose('HBGI', mixed.hbgi, Math.round(risk(300) / 2 * 10) / 10);
+    return `MAGE 100 mg/dL, LBGI ${mixed.lbgi}, HBGI ${mixed.hbgi}`;
+  });
+
+  // Basal test drift
+  await runTest('basal test: drift slope', async () => {
+    // +10 mg/dL per hour for 6 hours, nothing logged
+    const readings = [0, 1, 2, 3, 4, 5, 6].map(h => reading(h * 60, 100 + h * 10));
+    const window = analysis.evaluateBasalTest([], readings, t0, t0 + 6 * HOUR, { dia: 4 });
+    expectClose('drift per hour', window.driftPerHour, 10);
+    expectClose('total drift', window.totalDrift, 60);
+    expectEqual('verdict', window.verdict, 'too_low');
+    return '+10 mg/dL/h, +60 mg/dL over 6h: too_low';
+  });
+}
+
+/**
+ * Replaces methods of an object while fn runs, restoring them afterwards
+ */
+async function withStubs(target, stubs, fn) {
+  const originals = Object.keys(stubs).map(name => [name, Object.prototype.hasOwnProperty.call(target, name), target[name]]);
+  Object.assign(target, stubs);
+  try {
+    return await fn();
+  } finally {
+    for (const [name, own, original] of originals) {
+      if (own) target[name] = original;
+      else delete target[name];
+    }
+  }
+}
+
+/**
+ * Throws unless fn rejects with a message containing expected
+ */
+async function expectRejects(label, fn, expected) {
+  try {
+    await fn();
+  } catch (error) {
+    if (!error.message.includes(expected)) {
+      throw new Error(`${label}: expected "${expected}", got "${error.message}"`);
+    }
+    return;
+  }
+  throw new Error(`${label}: expected an error`);
+}
+
+/**
+ * Checks tool flows against a stubbed API client
+ * Runs offline: no credentials or API calls needed.
+ */
+async function runOfflineTests({ tools, client, cache, audit, utils }) {
+  const MIN = 60 * 1000;
+  const profile = {
+    getGlucoseUnit: async () => 'mg/dL',
+    resolveTimeZone: async (override) => override ?? 'Europe/Rome'
+  };
+
+  // create_logbook_entry preview tokens
+  const createStubs = (writes) => ({
+    ...profile,
+    createLogbookEntry: async (draft) => {
+      writes.push(draft);
+      return { success: true, data: { id: `new-${writes.length}`, ...draft } };
+    }
+  });
+
+  await runTest('create_logbook_entry: confirm writes the preview once', async () => {
+    const writes = [];
+    await withStubs(client, createStubs(writes), async () => {
+      const preview = await tools.executeCreateLogbookEntry({ carbs: 45, insulinBolus: 4.5, timestamp: '2025-01-15T12:30' });
+      expectEqual('status', preview.status, 'preview');
+      expectEqual('writes after preview', writes.length, 0);
+      const created = await tools.executeCreateLogbookEntry({ confirm: true, previewToken: preview.previewToken });
+      expectEqual('status', created.status, 'created');
+      expectEqual('writes', writes.length, 1);
+      expectEqual('carbs', writes[0].carbs, 45);
+      expectEqual('time', writes[0].timestamp, '2025-01-15T11:30:00.000Z');
+      await expectRejects('reuse', () => tools.executeCreateLogbookEntry({ confirm: true, previewToken: preview.previewToken }),
+        'Unknown or expired preview token');
+    });
+    expectEqual('writes after reuse', writes.length, 1);
+    return 'written once, token rejected on reuse';
+  });
+
+  await runTest('create_logbook_entry: changed values need a new preview', async () => {
+    const writes = [];
+    await withStubs(client, createStubs(writes), async () => {
+      const preview = await tools.executeCreateLogbookEntry({ carbs: 10, timestamp: '2025-01-15T08:00' });
+      await expectRejects('mismatch', () => tools.executeCreateLogbookEntry({ carbs: 100, confirm: true, previewToken: preview.previewToken }),
+        'differs from the previewed one');
+      await expectRejects('no token', () => tools.executeCreateLogbookEntry({ carbs: 10, confirm: true }),
+        'requires the previewToken');
+      // Same values as the preview are accepted
+      await tools.executeCreateLogbookEntry({ carbs: 10, timestamp: '2025-01-15T08:00', confirm: true, previewToken: preview.previewToken });
+    });
+    expectEqual('writes', writes.length, 1);
+    return 'mismatch and missing token rejected';
+  });
+
+  await runTest('create_logbook_entry: previews expire after 15 minutes', async () => {
+    const writes = [];
+    const start = Date.now();
+    await withStubs(client, createStubs(writes), async () => {
+      const preview = await tools.executeCreateLogbookEntry({ notes: 'expiry check' });
+      await withStubs(Date, { now: () => start + 16 * MIN }, () =>
+        expectRejects('expired', () => tools.executeCreateLogbookEntry({ confirm: true, previewToken: preview.previewToken }),
+          'Unknown or expired preview token'));
+    });
+    expectEqual('writes', writes.length, 0);
+    return 'expired token rejected';
+  });
+
+  // update_logbook_entry / delete_logbook_entry diffs and preview tokens
+  const storedEntry = (id, overrides = {}) => ({
+    id,
+    timestamp: '2025-01-15T11:30:00.000Z',
+    glucose: 180,
+    glucoseUnit: 'mg/dL',
+    insulinBolus: 80,
+    carbs: 60,
+    category: 'lunch',
+    isSensor: false,
+    foods: [{ name: 'Pasta', grams: 80 }],
+    weight: 72,
+    ...overrides
+  });
+  const editStubs = (writes, overrides) => ({
+    ...profile,
+    getLogbookEntry: async (id) => ({ success: true, data: storedEntry(id, overrides()) }),
+    updateLogbookEntry: async (id, changes) => {
+      writes.push({ id, changes });
+      return { success: true, data: storedEntry(id, { ...overrides(), insulinBolus: changes.insulinBolus, glucose: changes.glucose }) };
+    },
+    deleteLogbookEntry: async (id) => {
+      writes.push({ id });
+      return { success: true, data: { id } };
+    }
+  });
+
+  await runTest('update_logbook_entry: diff first, then one confirmed write', async () => {
+    const writes = [];
+    const args = { id: '1001', insulinBolus: 8, glucose: 8, unit: 'mmol/L' };
+    await withStubs(client, editStubs(writes, () => ({})), async () => {
+      const preview = await tools.executeUpdateLogbookEntry(args);
+      expectEqual('status', preview.status, 'preview');
+      expectEqual('writes after preview', writes.length, 0);
+      const diff = preview.changes.map(c => `${c.field}:${c.before}->${c.after}`).join(',');
+      expectEqual('diff', diff, 'glucose:10->8,insulinBolus:80->8');
+      await expectRejects('no token', () => tools.executeUpdateLogbookEntry({ ...args, confirm: true }),
+        'requires the previewToken');
+      await expectRejects('other values', () => tools.executeUpdateLogbookEntry({ ...args, insulinBolus: 9, confirm: true, previewToken: preview.previewToken }),
+        'differ from the previewed ones');
+      const updated = await tools.executeUpdateLogbookEntry({ ...args, confirm: true, previewToken: preview.previewToken });
+      expectEqual('status', updated.status, 'updated');
+      await expectRejects('reuse', () => tools.executeUpdateLogbookEntry({ ...args, confirm: true, previewToken: preview.previewToken }),
+        'Unknown or expired preview token');
+    });
+    expectEqual('writes', writes.length, 1);
+    expectEqual('bolus written', writes[0].changes.insulinBolus, 8);
+    expectEqual('glucose written (mg/dL)', writes[0].changes.glucose, 144);
+    return 'glucose 10 -> 8 mmol/L, bolus 80u -> 8u, written once';
+  });
+
+  await runTest('update_logbook_entry: entry edited after the preview', async () => {
+    const writes = [];
+    let current = {};
+    await withStubs(client, editStubs(writes, () => current), async () => {
+      const preview = await tools.executeUpdateLogbookEntry({ id: '1001', insulinBolus: 8 });
+      current = { insulinBolus: 9 };
+      await expectRejects('stale diff', () => tools.executeUpdateLogbookEntry({ id: '1001', insulinBolus: 8, confirm: true, previewToken: preview.previewToken }),
+        'changed after the preview');
+    });
+    expectEqual('writes', writes.length, 0);
+    return 'stale preview rejected';
+  });
+
+  await runTest('delete_logbook_entry: fields lost on recreate, token bound to the id', async () => {
+    const writes = [];
+    await withStubs(client, editStubs(writes, () => ({})), async () => {
+      const preview = await tools.executeDeleteLogbookEntry({ id: '1001' });
+      expectEqual('status', preview.status, 'preview');
+      expectEqual('not recreated', Object.keys(preview.notRecreated).join(','), 'foods,weight');
+      expectEqual('recreate carbs', preview.recreateArguments.carbs, 60);
+      expectEqual('recreate category', preview.recreateArguments.category, 'lunch');
+      await expectRejects('other entry', () => tools.executeDeleteLogbookEntry({ id: '1002', confirm: true, previewToken: preview.previewToken }),
+        'issued for another entry');
+      expectEqual('writes before confirm', writes.length, 0);
+      await tools.executeDeleteLogbookEntry({ id: '1001', confirm: true, previewToken: preview.previewToken });
+      await expectRejects('reuse', () => tools.executeDeleteLogbookEntry({ id: '1001', confirm: true, previewToken: preview.previewToken }),
+        'Unknown or expired preview token');
+    });
+    expectEqual('deletes', writes.length, 1);
+    return 'foods and weight reported, deleted once';
+  });
+
+  // Logbook paging via nextPageEntryTime
+  const t0 = Date.UTC(2025, 0, 15, 12, 0, 0);
+  const rawEntry = (n) => ({ entry_id: n, entry_time: t0 - n * 10 * MIN, glucose: 5.5 });
+  const pages = [
+    { logEntryList: [1, 2, 3].map(rawEntry), total_rows: 7, nextPageEntryTime: t0 - 30 * MIN },
+    // The cursor entry is repeated on the next page
+    { logEntryList: [3, 4, 5].map(rawEntry), total_rows: 7, nextPageEntryTime: t0 - 50 * MIN },
+    { logEntryList: [6, 7].map(rawEntry), total_rows: 7, nextPageEntryTime: t0 - 70 * MIN }
+  ];
+  const pagingStubs = (bodies) => ({
+    ...profile,
+    post: async (endpoint, body) => {
+      const page = pages[body.nextPageEntryTime === undefined ? 0 : pages.findIndex(p => p.nextPageEntryTime === body.nextPageEntryTime) + 1];
+      bodies.push(body);
+      return { success: true, data: page, timestamp: new Date().toISOString() };
+    }
+  });
+  const offlineStorage = async (fn) =>
+    withStubs(cache, { get: async () => null, set: async () => {} }, () =>
+      withStubs(audit, { logOperation: () => {} }, fn));
+
+  await runTest('getLogbookEntries: follows nextPageEntryTime', async () => {
+    const bodies = [];
+    const response = await offlineStorage(() => withStubs(client, pagingStubs(bodies), () =>
+      client.getLogbookEntries(undefined, undefined, undefined, '2025-01-14', '2025-01-15', { timeZone: 'Europe/Rome' })));
+    expectEqual('entries', response.data.length, 7);
+    expectEqual('unique ids', new Set(response.data.map(e => e.id)).size, 7);
+    expectEqual('pages', response.pagination.pages, 3);
+    expectEqual('complete', response.pagination.complete, true);
+    expectEqual('page 2 cursor', bodies[1].nextPageEntryTime, pages[0].nextPageEntryTime);
+    expectEqual('page 2 toDate', bodies[1].toDate, pages[0].nextPageEntryTime);
+    return '3 pages, 7 entries, overlap removed';
+  });
+
+  await runTest('getLogbookEntries: page cap flags incomplete data', async () => {
+    const bodies = [];
+    const response = await offlineStorage(() => withStubs(client, pagingStubs(bodies), () =>
+      client.getLogbookEntries(undefined, undefined, undefined, '2025-01-14', '2025-01-15', { timeZone: 'Europe/Rome', maxPages: 2 })));
+    expectEqual('requests', bodies.length, 2);
+    expectEqual('entries', response.pagination.fetchedRows, 5);
+    expectEqual('total rows', response.pagination.totalRows, 7);
+    expectEqual('complete', response.pagination.complete, false);
+    return '5 of 7 rows, complete: false';
+  });
+
+  // Glucose unit conversion
+  await runTest('units: mg/dL <-> mmol/L', async () => {
+    expectEqual('5.5 mmol/L', utils.mmolToMgdl(5.5), 99);
+    expectEqual('10 mmol/L', utils.mmolToMgdl(10), 180);
+    expectEqual('180 mg/dL', utils.mgdlToMmol(180), 10);
+    expectEqual('70 mg/dL', utils.mgdlToMmol(70), 3.9);
+    expectEqual('126 mg/dL shown in mmol/L', utils.fromMgdl(126, 'mmol/L'), 7);
+    expectEqual('126.4 mg/dL shown in mg/dL', utils.fromMgdl(126.4, 'mg/dL'), 126);
+    expectEqual('format mmol/L', utils.formatGlucose(180, 'mmol/L'), '10.0 mmol/L');
+    expectEqual('format mg/dL', utils.formatGlucose(99, 'mg/dL'), '99 mg/dL');
+    expectEqual('round trip 7.8 mmol/L', utils.fromMgdl(utils.glucoseInputToMgdl(7.8, 'mmol/L'), 'mmol/L'), 7.8);
+    return '5.5 mmol/L = 99 mg/dL, 180 mg/dL = 10.0 mmol/L';
+  });
+
+  await runTest('units: glucose input and profile unit', async () => {
+    expectEqual('6.1 mmol/L input', utils.glucoseInputToMgdl(6.1, 'mmol/L'), 110);
+    expectEqual('110 mg/dL input', utils.glucoseInputToMgdl(110, 'mg/dL'), 110);
+    expectEqual('no input', utils.glucoseInputToMgdl(undefined, 'mg/dL'), undefined);
+    await expectRejects('700 mg/dL', async () => utils.glucoseInputToMgdl(700, 'mg/dL'), 'outside the plausible range');
+    await expectRejects('110 read as mmol/L', async () => utils.glucoseInputToMgdl(110, 'mmol/L'), 'outside the plausible range');
+    expectEqual('mmol_l', utils.parseProfileGlucoseUnit('mmol_l'), 'mmol/L');
+    expectEqual('MMOL_L', utils.parseProfileGlucoseUnit('MMOL_L'), 'mmol/L');
+    expectEqual('mg_dl', utils.parseProfileGlucoseUnit('mg_dl'), 'mg/dL');
+    expectEqual('missing', utils.parseProfileGlucoseUnit(undefined), 'mg/dL');
+    return 'inputs converted, implausible values rejected';
+  });
+
+  // Day boundaries in the account timezone
+  const HOUR = 60 * MIN;
+  await runTest('timezone: day bounds and DST', async () => {
+    const rome = utils.dayBounds('2025-01-15', 'Europe/Rome');
+    expectEqual('Rome start', rome.start, Date.UTC(2025, 0, 14, 23));
+    expectEqual('Rome end', rome.end, Date.UTC(2025, 0, 15, 23) - 1);
+    const length = (day, zone) => {
+      const bounds = utils.dayBounds(day, zone);
+      return (bounds.end + 1 - bounds.start) / HOUR;
+    };
+    expectEqual('Rome spring forward', length('2025-03-30', 'Europe/Rome'), 23);
+    expectEqual('Rome fall back', length('2025-10-26', 'Europe/Rome'), 25);
+    expectEqual('New York spring forward', length('2025-03-09', 'America/New_York'), 23);
+    expectEqual('New York start', utils.dayBounds('2025-03-09', 'America/New_York').start, Date.UTC(2025, 2, 9, 5));
+    return 'UTC+1 midnight, 23h and 25h DST days';
+  });
+
+  await runTest('timezone: date keys and wall-clock input', async () => {
+    const lateEvening = new Date(Date.UTC(2025, 0, 14, 23, 30));
+    expectEqual('Rome day', utils.formatDateKey(lateEvening, 'Europe/Rome'), '2025-01-15');
+    expectEqual('Los Angeles day', utils.formatDateKey(lateEvening, 'America/Los_Angeles'), '2025-01-14');
+    expectEqual('Rome time', utils.formatTime(lateEvening, 'Europe/Rome'), '00:30');
+    expectEqual('wall clock', utils.parseDateTimeInput('2025-01-15T12:30', 'Europe/Rome'), Date.UTC(2025, 0, 15, 11, 30));
+    expectEqual('with offset', utils.parseDateTimeInput('2025-01-15T12:30:00Z', 'Europe/Rome'), Date.UTC(2025, 0, 15, 12, 30));
+    expectEqual('month end', utils.addDays('2025-02-28', 1), '2025-03-01');
+    expectEqual('leap day', utils.addDays('2024-02-28', 1), '2024-02-29');
+    expectEqual('back over a year', utils.addDays('2025-01-01', -1), '2024-12-31');
+    await expectRejects('2025-02-30', () => tools.executeGetLogbookEntries({ date: '2025-02-30' }), 'Invalid date');
+    return 'days split at local midnight';
+  });
+
+  await runTest('getLogbookEntries: requests local day bounds', async () => {
+    const bodies = [];
+    await offlineStorage(() => withStubs(client, pagingStubs(bodies), () =>
+      client.getLogbookEntries(undefined, undefined, undefined, '2025-03-30', '2025-03-30', { timeZone: 'Europe/Rome', maxPages: 1 })));
+    expectEqual('fromDate', bodies[0].fromDate, Date.UTC(2025, 2, 29, 23));
+    expectEqual('toDate', bodies[0].toDate, Date.UTC(2025, 2, 30, 22) - 1);
+    return 'Rome day of 2025-03-30 = 23:00Z to 21:59:59.999Z';
+  });
+
+  // Diary calendar fallback
+  await runTest('getDiaryCalendar: empty calendar falls back to the logbook', async () => {
+    for (const calendar of [[], { days: [] }]) {
+      const stubs = pagingStubs([]);
+      const logbookPost = stubs.post;
+      stubs.post = async (endpoint, body) => endpoint.endsWith('/calendar')
+        ? { success: true, data: calendar, timestamp: new Date().toISOString() }
+        : logbookPost(endpoint, body);
+      const response = await offlineStorage(() => withStubs(client, stubs, () =>
+        client.getDiaryCalendar('2025-01-14', '2025-01-15', 'Europe/Rome')));
+      expectEqual('source', response.data.source, 'logbook');
+      expectEqual('days with data', response.data.days.map(day => `${day.date}:${day.entries}`).join(','), '2025-01-15:7');
+    }
+    return 'logbook counted instead of reporting no data';
+  });
+
+  // Latest diary measurements
+  await runTest('personal metrics: measurements found on later pages', async () => {
+    const measurementPages = [
+      { logEntryList: [{ entry_id: 1, entry_time: t0, pulse: 64 }], total_rows: 10, nextPageEntryTime: t0 - HOUR },
+      { logEntryList: [{ entry_id: 2, entry_time: t0 - 2 * HOUR, pressure_sys: 125, pressure_dia: 80, pulse: 70 }], total_rows: 10, nextPageEntryTime: t0 - 3 * HOUR },
+      { logEntryList: [{ entry_id: 3, entry_time: t0 - 30 * 24 * HOUR, hba1c: 6.8 }], total_rows: 10, nextPageEntryTime: t0 - 31 * 24 * HOUR },
+      { logEntryList: [{ entry_id: 4, entry_time: t0 - 60 * 24 * HOUR, hba1c: 7.4 }], total_rows: 10, nextPageEntryTime: t0 - 61 * 24 * HOUR }
+    ];
+    const bodies = [];
+    const latest = await withStubs(client, {
+      ...profile,
+      post: async (endpoint, body) => {
+        bodies.push(body);
+        const index = body.nextPageEntryTime === undefined ? 0 : measurementPages.findIndex(p => p.nextPageEntryTime === body.nextPageEntryTime) + 1;
+        return { success: true, data: measurementPages[index], timestamp: new Date().toISOString() };
+      }
+    }, () => client.getLatestDiaryMeasurements());
+    expectEqual('pulse (newest)', latest.pulse, 64);
+    expectEqual('systolic', latest.bloodPressureSystolic, 125);
+    expectEqual('diastolic', latest.bloodPressureDiastolic, 80);
+    expectEqual('HbA1c (newest)', latest.hba1c, 6.8);
+    expectEqual('HbA1c date', latest.hba1cDate, '2024-12-16');
+    expectEqual('pages requested', bodies.length, 3);
+    return 'pressure on page 2, HbA1c on page 3, stopped there';
+  });
+}
+
 /**
  * Main test function
  */
@@ -106,7 +639,46 @@ async function main() {
   console.log(`${colors.bright}═══════════════════════════════════════════════════════════${colors.reset}`);
   console.log('');
 
+  // Clinical math on fixed inputs (offline)
+  console.log(`${colors.cyan}▸ Clinical Math (fixed inputs)${colors.reset}`);
+
+  try {
+    await runMathTests(await import('../dist/analysis/index.js'));
+  } catch (error) {
+    logResult('Analysis module loaded', 'fail', `Build required: ${error.message}`);
+    console.log('');
+    console.log(`${colors.yellow}Run "npm run build" first.${colors.reset}`);
+    process.exit(1);
+  }
+
+  // Tool flows against a stubbed API (offline)
+  console.log('');
+  console.log(`${colors.cyan}▸ Offline Checks (stubbed API)${colors.reset}`);
+
+  try {
+    const [tools, api, cache, audit, utils] = await Promise.all([
+      import('../dist/tools/index.js'),
+      import('../dist/api/client.js'),
+      import('../dist/cache/encrypted-cache.js'),
+      import('../dist/security/audit.js'),
+      import('../dist/utils/index.js')
+    ]);
+    await runOfflineTests({
+      tools,
+      client: api.diabetesMClient,
+      cache: cache.encryptedCache,
+      audit: audit.auditLogger,
+      utils
+    });
+  } catch (error) {
+    logResult('Modules loaded', 'fail', `Build required: ${error.message}`);
+    console.log('');
+    console.log(`${colors.yellow}Run "npm run build" first.${colors.reset}`);
+    process.exit(1);
+  }
+
   // Check prerequisites
+  console.log('');
   console.log(`${colors.cyan}▸ Prerequisites${colors.reset}`);
 
   const configDir = getConfigDir();
@@ -232,6 +804,114 @@ async function main() {
     return `Report generated: ${result.summary?.recommendations?.length || 0} recommendations`;
   });
 
+  // Test 14: get_diary_calendar
+  await runTest('get_diary_calendar (this month)', async () => {
+    const result = await tools.executeGetDiaryCalendar({});
+    return `${result.daysWithData} days with data, ${result.gaps.length} gaps`;
+  });
+
+  // Analysis tools
+  console.log('');
+  console.log(`${colors.cyan}▸ Analysis Tools${colors.reset}`);
+
+  await runTest('get_agp (30days)', async () => {
+    const result = await tools.executeGetAgp({ dateRange: '30days' });
+    return `${result.days} days, ${result.readingsUsed} readings, ${result.completeness}`;
+  });
+
+  await runTest('get_glycemic_variability (30days)', async () => {
+    const result = await tools.executeGetGlycemicVariability({ dateRange: '30days' });
+    return result.summary;
+  });
+
+  await runTest('detect_patterns (30days)', async () => {
+    const result = await tools.executeDetectPatterns({ dateRange: '30days' });
+    return `${result.patterns.length} patterns from ${result.readingsUsed} readings`;
+  });
+
+  await runTest('analyze_overnight (7days)', async () => {
+    const result = await tools.executeAnalyzeOvernight({ dateRange: '7days' });
+    return `${result.nightsWithData}/${result.nightsAnalyzed} nights with data`;
+  });
+
+  await runTest('meal_impact (7days)', async () => {
+    const result = await tools.executeMealImpact({ dateRange: '7days' });
+    return `${result.mealsAnalyzed} meals analyzed`;
+  });
+
+  await runTest('audit_ic_ratios (30days)', async () => {
+    const result = await tools.executeAuditIcRatios({ dateRange: '30days' });
+    return `${result.cleanMeals}/${result.mealsConsidered} clean meals`;
+  });
+
+  await runTest('estimate_isf (30days)', async () => {
+    const result = await tools.executeEstimateIsf({ dateRange: '30days' });
+    return `${result.correctionsUsed}/${result.correctionsFound} corrections used`;
+  });
+
+  await runTest('evaluate_basal_test (7days)', async () => {
+    const result = await tools.executeEvaluateBasalTest({ dateRange: '7days' });
+    return `${result.windows.length} windows (${result.mode})`;
+  });
+
+  await runTest('compare_periods (this week vs last week)', async () => {
+    const result = await tools.executeComparePeriods({ comparison: 'this_week_vs_last_week' });
+    return `${result.changes.length} metrics compared`;
+  });
+
+  // Insulin and carbs on board, forecast, bolus (nothing is written)
+  console.log('');
+  console.log(`${colors.cyan}▸ Dosing Tools${colors.reset}`);
+
+  await runTest('get_iob (novorapid preset)', async () => {
+    const result = await tools.executeGetIOB({ insulinType: 'novorapid' });
+    if (result.curve.model !== 'exponential' || result.sources.dia !== 'preset') {
+      throw new Error(`Preset not applied: ${result.curve.model}, DIA from ${result.sources.dia}`);
+    }
+    return `IOB: ${result.iobFormatted}, curve: ${result.curve.model} ${result.dia}h`;
+  });
+
+  await runTest('get_iob (timeline, last 3 hours)', async () => {
+    const to = new Date();
+    const from = new Date(to.getTime() - 3 * 60 * 60 * 1000);
+    const result = await tools.executeGetIOB({ from: from.toISOString(), to: to.toISOString(), stepMinutes: 30 });
+    return `${result.timeline?.points.length ?? 0} timeline points`;
+  });
+
+  await runTest('get_cob', async () => {
+    const result = await tools.executeGetCOB({});
+    return `COB: ${result.cobFormatted}, Active meals: ${result.activeMeals.length}`;
+  });
+
+  await runTest('forecast_glucose', async () => {
+    const result = await tools.executeForecastGlucose({});
+    const last = result.predictions[result.predictions.length - 1];
+    return `${result.predictions.length} predictions, last: ${last?.glucose ?? 'N/A'} at +${last?.minutes ?? 0} min`;
+  }, /No glucose reading in the last|No ISF is configured/);
+
+  await runTest('calculate_bolus (30g, no glucose)', async () => {
+    const result = await tools.executeCalculateBolus({ carbs: 30 });
+    return `Suggested: ${result.suggestedBolus}u (IC ${result.settings.icRatio}g/u, IOB ${result.breakdown.iob}u)`;
+  }, /no IC ratio is configured/);
+
+  await runTest('calculate_bolus (refuses hypoglycemia)', async () => {
+    try {
+      await tools.executeCalculateBolus({ carbs: 30, currentGlucose: 55, unit: 'mg/dL' });
+    } catch (error) {
+      if (error.message.startsWith('Refusing')) return 'Refused as expected';
+      throw error;
+    }
+    throw new Error('A bolus was calculated below 70 mg/dL');
+  });
+
+  await runTest('create_logbook_entry (preview only)', async () => {
+    const result = await tools.executeCreateLogbookEntry({ carbs: 10, notes: 'test preview' });
+    if (result.status !== 'preview' || !result.previewToken) {
+      throw new Error(`Expected a preview with a token, got status ${result.status}`);
+    }
+    return `Preview for ${result.date}, nothing written`;
+  });
+
   // Print summary
   console.log('');
   console.log(`${colors.bright}═══════════════════════════════════════════════════════════${colors.reset}`);
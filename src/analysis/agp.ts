@@ -0,0 +1,138 @@
+/**
+ * Ambulatory Glucose Profile (AGP)
+ *
+ * Pools the readings of a period by time of day and computes the
+ * 5/25/50/75/95th percentile bands per bin, as in the standard AGP report.
+ * Times of day are taken in the given IANA timezone.
+ *
+ * All glucose values are in mg/dL.
+ */
+
+import { getZonedParts } from '../utils/timezone.js';
+import type { GlucoseReading } from './glucose-statistics.js';
+
+/** Bins with fewer readings than this are reported without percentiles */
+export const AGP_MIN_READINGS_PER_BIN = 5;
+
+/**
+ * Percentile bands of one time-of-day bin
+ */
+export interface AgpBin {
+  /** Bin start, "HH:MM" */
+  start: string;
+  /** Bin end (exclusive), "HH:MM" */
+  end: string;
+  readings: number;
+  p5: number | null;
+  p25: number | null;
+  p50: number | null;
+  p75: number | null;
+  p95: number | null;
+  /** Interquartile range p75 - p25 (null when the bin has too few readings) */
+  iqr: number | null;
+}
+
+export interface AgpProfile {
+  binMinutes: number;
+  bins: AgpBin[];
+  /** Number of distinct days that contributed readings */
+  days: number;
+  readingsUsed: number;
+}
+
+/**
+ * Percentile of a sorted array using linear interpolation between ranks
+ *
+ * @param sorted - Values sorted ascending
+ * @param p - Percentile, 0-100
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return NaN;
+  }
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (rank - lower);
+}
+
+/**
+ * Formats minutes since midnight as "HH:MM"
+ */
+export function formatMinuteOfDay(minutes: number): string {
+  const wrapped = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Builds the AGP percentile bands
+ *
+ * @param readings - Glucose readings in mg/dL
+ * @param binMinutes - Bin width in minutes (must divide 1440)
+ * @param timeZone - IANA timezone for time of day
+ */
+export function computeAgp(readings: GlucoseReading[], binMinutes: number, timeZone: string): AgpProfile {
+  const binCount = Math.floor(1440 / binMinutes);
+  const values: number[][] = Array.from({ length: binCount }, () => []);
+  const days = new Set<string>();
+
+  for (const reading of readings) {
+    const parts = getZonedParts(new Date(reading.time), timeZone);
+    const bin = Math.floor((parts.hour * 60 + parts.minute) / binMinutes);
+    values[bin]!.push(reading.glucose);
+    days.add(`${parts.year}-${parts.month}-${parts.day}`);
+  }
+
+  const round = (value: number) => Math.round(value);
+
+  const bins = values.map((binValues, index): AgpBin => {
+    const start = formatMinuteOfDay(index * binMinutes);
+    const end = formatMinuteOfDay((index + 1) * binMinutes);
+
+    if (binValues.length < AGP_MIN_READINGS_PER_BIN) {
+      return { start, end, readings: binValues.length, p5: null, p25: null, p50: null, p75: null, p95: null, iqr: null };
+    }
+
+    const sorted = [...binValues].sort((a, b) => a - b);
+    const p25 = percentile(sorted, 25);
+    const p75 = percentile(sorted, 75);
+
+    return {
+      start,
+      end,
+      readings: binValues.length,
+      p5: round(percentile(sorted, 5)),
+      p25: round(p25),
+      p50: round(percentile(sorted, 50)),
+      p75: round(p75),
+      p95: round(percentile(sorted, 95)),
+      iqr: round(p75 - p25)
+    };
+  });
+
+  return {
+    binMinutes,
+    bins,
+    days: days.size,
+    readingsUsed: readings.length
+  };
+}
+
+/**
+ * Bins with the smallest and largest interquartile range
+ *
+ * @param count - Number of bins to return for each end
+ */
+export function rankAgpVariability(
+  profile: AgpProfile,
+  count: number = 3
+): { flattest: AgpBin[]; mostVariable: AgpBin[] } {
+  const ranked = profile.bins
+    .filter(bin => bin.iqr !== null)
+    .sort((a, b) => a.iqr! - b.iqr!);
+
+  return {
+    flattest: ranked.slice(0, count),
+    mostVariable: ranked.slice(-count).reverse()
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * Basal Test Evaluation
+ *
+ * A basal test skips a meal so that only basal insulin acts: with the
+ * right basal rate or dose, glucose stays flat. Windows are either given
+ * or detected as stretches with no carbs and no bolus or correction from
+ * one DIA after the last of them until the next one.
+ *
+ * Drift is the slope of a least-squares line through the readings, so a
+ * single noisy reading does not decide the verdict:
+ * - falling by more than the tolerance over the window, or any hypo:
+ *   basal may be too high
+ * - rising by more than the tolerance: basal may be too low
+ * - otherwise: basal looks fine for that time of day
+ *
+ * All glucose values are in mg/dL.
+ */
+
+import { GLUCOSE_THRESHOLDS, type GlucoseReading } from './glucose-statistics.js';
+import { splitAtGaps } from './variability.js';
+import type { LogbookEntry } from '../types/api.js';
+
+export type BasalVerdict = 'too_high' | 'too_low' | 'ok' | 'inconclusive';
+
+export interface BasalTestOptions {
+  /** Duration of insulin action in hours: time kept clear after a bolus or carbs */
+  dia: number;
+  /** Allowed change over the window in mg/dL (default: 30) */
+  tolerance?: number;
+  /** Shortest window evaluated, in hours (default: 4) */
+  minHours?: number;
+}
+
+export interface BasalTestWindow {
+  /** First and last reading of the window (Unix ms) */
+  start: number;
+  end: number;
+  hours: number;
+  source: 'auto' | 'requested';
+  readings: number;
+  startGlucose: number | null;
+  endGlucose: number | null;
+  minGlucose: number | null;
+  maxGlucose: number | null;
+  /** Slope of the fitted line, mg/dL per hour */
+  driftPerHour: number | null;
+  /** Fitted change over the whole window */
+  totalDrift: number | null;
+  /** The window was cut short at a reading below 70 mg/dL */
+  endedByHypo: boolean;
+  /** Basal insulin logged in the 24 hours before the end of the window */
+  basalUnits: number;
+  lastBasalTime: number | null;
+  /** Carbs, boluses or missing data that make a requested window unreliable */
+  issues: string[];
+  verdict: BasalVerdict;
+}
+
+/** Allowed change over a window when none is given */
+export const DEFAULT_BASAL_TOLERANCE = 30;
+
+/** Readings further apart than this split a window */
+const MAX_READING_GAP_MS = 2 * 60 * 60 * 1000;
+
+/** Fewest readings for a verdict */
+const MIN_READINGS = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Entries that disturb a basal test: carbs, bolus or correction
+ */
+function isDisturbance(entry: LogbookEntry): boolean {
+  return (entry.carbs ?? 0) > 0 || (entry.insulinBolus ?? 0) > 0 || (entry.insulinCorrection ?? 0) > 0;
+}
+
+/**
+ * Least-squares slope of glucose over time, in mg/dL per hour
+ */
+function slopePerHour(readings: GlucoseReading[]): number {
+  const t0 = readings[0]!.time;
+  const xs = readings.map(r => (r.time - t0) / HOUR_MS);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = readings.reduce((sum, r) => sum + r.glucose, 0) / readings.length;
+  let numerator = 0;
+  let denominator = 0;
+  readings.forEach((reading, i) => {
+    numerator += (xs[i]! - meanX) * (reading.glucose - meanY);
+    denominator += (xs[i]! - meanX) ** 2;
+  });
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Measures one window from its readings
+ */
+function evaluateWindow(
+  windowReadings: GlucoseReading[],
+  bounds: { start: number; end: number },
+  entries: LogbookEntry[],
+  source: BasalTestWindow['source'],
+  tolerance: number,
+  issues: string[]
+): BasalTestWindow {
+  // A hypo ends the test: it would be treated
+  const hypoIndex = windowReadings.findIndex(r => r.glucose < GLUCOSE_THRESHOLDS.LOW);
+  const used = hypoIndex >= 0 ? windowReadings.slice(0, hypoIndex + 1) : windowReadings;
+
+  const first = used[0];
+  const last = used[used.length - 1];
+  const start = first?.time ?? bounds.start;
+  const end = last?.time ?? bounds.end;
+
+  const basalDoses = entries.filter(entry => {
+    const time = new Date(entry.timestamp).getTime();
+    return (entry.insulinBasal ?? 0) > 0 && time <= end && time > end - 24 * HOUR_MS;
+  });
+  const lastBasal = basalDoses.reduce<number | null>(
+    (latest, entry) => Math.max(latest ?? 0, new Date(entry.timestamp).getTime()), null
+  );
+
+  const window: BasalTestWindow = {
+    start,
+    end,
+    hours: Math.round(((end - start) / HOUR_MS) * 10) / 10,
+    source,
+    readings: used.length,
+    startGlucose: first ? first.glucose : null,
+    endGlucose: last ? last.glucose : null,
+    minGlucose: used.length > 0 ? Math.min(...used.map(r => r.glucose)) : null,
+    maxGlucose: used.length > 0 ? Math.max(...used.map(r => r.glucose)) : null,
+    driftPerHour: null,
+    totalDrift: null,
+    endedByHypo: hypoIndex >= 0,
+    basalUnits: Math.round(basalDoses.reduce((sum, entry) => sum + entry.insulinBasal!, 0) * 100) / 100,
+    lastBasalTime: lastBasal,
+    issues,
+    verdict: 'inconclusive'
+  };
+
+  if (used.length < MIN_READINGS) {
+    issues.push(`fewer than ${MIN_READINGS} readings`);
+    return window;
+  }
+
+  const slope = slopePerHour(used);
+  window.driftPerHour = Math.round(slope * 10) / 10;
+  window.totalDrift = Math.round(slope * (end - start) / HOUR_MS);
+
+  if (issues.length > 0) {
+    return window;
+  }
+  if (window.endedByHypo || window.totalDrift <= -tolerance) {
+    window.verdict = 'too_high';
+  } else if (window.totalDrift >= tolerance) {
+    window.verdict = 'too_low';
+  } else {
+    window.verdict = 'ok';
+  }
+  return window;
+}
+
+/**
+ * Finds basal test windows in [start, end]: stretches with no carbs, bolus
+ * or correction from one DIA after the last of them, split where readings
+ * are missing, at least minHours long
+ *
+ * @param entries - Logbook entries from one DIA before start to end
+ * @param readings - Glucose readings in mg/dL, sorted by time
+ */
+export function detectBasalTests(
+  entries: LogbookEntry[],
+  readings: GlucoseReading[],
+  start: number,
+  end: number,
+  options: BasalTestOptions
+): BasalTestWindow[] {
+  const diaMs = options.dia * HOUR_MS;
+  const tolerance = options.tolerance ?? DEFAULT_BASAL_TOLERANCE;
+  const minMs = (options.minHours ?? 4) * HOUR_MS;
+
+  const events = entries
+    .filter(isDisturbance)
+    .map(entry => new Date(entry.timestamp).getTime())
+    .sort((a, b) => a - b);
+
+  // Clear stretches between disturbances
+  const clear: { start: number; end: number }[] = [];
+  let cursor = start;
+  for (const event of events) {
+    if (cursor >= end) break;
+    if (event > cursor) {
+      clear.push({ start: cursor, end: Math.min(event, end) });
+    }
+    cursor = Math.max(cursor, event + diaMs);
+  }
+  if (cursor < end) {
+    clear.push({ start: cursor, end });
+  }
+
+  const windows: BasalTestWindow[] = [];
+  for (const stretch of clear) {
+    if (stretch.end - stretch.start < minMs) continue;
+    const inside = readings.filter(r => r.time >= stretch.start && r.time < stretch.end);
+    for (const segment of splitAtGaps(inside, MAX_READING_GAP_MS)) {
+      const window = evaluateWindow(segment, stretch, entries, 'auto', tolerance, []);
+      // A hypo counts even when it cut the window short
+      if ((window.end - window.start >= minMs || window.endedByHypo) && window.verdict !== 'inconclusive') {
+        windows.push(window);
+      }
+    }
+  }
+  return windows;
+}
+
+/**
+ * Evaluates a requested window, listing anything that invalidates it
+ *
+ * @param entries - Logbook entries from one DIA before start to end
+ * @param readings - Glucose readings in mg/dL, sorted by time
+ */
+export function evaluateBasalTest(
+  entries: LogbookEntry[],
+  readings: GlucoseReading[],
+  start: number,
+  end: number,
+  options: BasalTestOptions
+): BasalTestWindow {
+  const diaMs = options.dia * HOUR_MS;
+  const issues: string[] = [];
+
+  for (const entry of entries.filter(isDisturbance)) {
+    const time = new Date(entry.timestamp).getTime();
+    if (time > end || time < start - diaMs) continue;
+    const what = [
+      (entry.carbs ?? 0) > 0 ? `${entry.carbs}g carbs` : '',
+      (entry.insulinBolus ?? 0) > 0 ? `${entry.insulinBolus}u bolus` : '',
+      (entry.insulinCorrection ?? 0) > 0 ? `${entry.insulinCorrection}u correction` : ''
+    ].filter(Boolean).join(', ');
+    issues.push(time < start ? `${what} within the DIA before the window` : `${what} during the window`);
+  }
+
+  const inside = readings.filter(r => r.time >= start && r.time <= end);
+  if (splitAtGaps(inside, MAX_READING_GAP_MS).length > 1) {
+    issues.push('readings more than 2 hours apart');
+  }
+  return evaluateWindow(inside, { start, end }, entries, 'requested', options.tolerance ?? DEFAULT_BASAL_TOLERANCE, issues);
+}
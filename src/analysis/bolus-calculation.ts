@@ -0,0 +1,91 @@
+/**
+ * Bolus Arithmetic
+ *
+ * Meal and correction bolus from the IC ratio, ISF, target and insulin on
+ * board:
+ * - carb bolus = carbs / IC ratio
+ * - correction = (glucose - target) / ISF
+ * - IOB is subtracted in full, except against a positive correction,
+ *   where it is offset only up to the correction so it never cancels the
+ *   carb bolus of a new meal
+ * - the total is floored at 0, rounded down to the dose increment and
+ *   capped at the maximum dose
+ *
+ * All glucose values are in mg/dL. Unrounded amounts are returned so the
+ * caller can show each step.
+ */
+
+export interface BolusInputs {
+  /** Grams of carbs about to be eaten */
+  carbs: number;
+  /** Grams of carbs per unit (required when carbs > 0) */
+  icRatio: number | null;
+  /** Current glucose; no correction when undefined */
+  glucose?: number;
+  target: number;
+  /** Glucose drop per unit (required when glucose is given) */
+  isf: number | null;
+  /** Insulin on board in units */
+  iob: number;
+  /** Dose step of the pen or pump */
+  increment: number;
+  /** Largest dose suggested */
+  maxBolus: number;
+}
+
+export interface BolusCalculation {
+  carbBolus: number;
+  correctionBolus: number;
+  /** Part of the IOB subtracted */
+  iobApplied: number;
+  /** Carb bolus + correction - IOB applied, possibly negative */
+  total: number;
+  /** Total floored at 0 */
+  beforeRounding: number;
+  /** Dose rounded down to the increment, before the cap */
+  rounded: number;
+  suggestedBolus: number;
+  capped: boolean;
+}
+
+/**
+ * Rounds a dose down to the increment
+ * The small epsilon keeps 0.3 / 0.1 (2.999...) from flooring to 2 steps.
+ */
+export function roundDownToIncrement(dose: number, increment: number): number {
+  return Math.round(Math.floor(dose / increment + 1e-9) * increment * 100) / 100;
+}
+
+/**
+ * Calculates the bolus
+ *
+ * @throws Error when carbs are given without an IC ratio or glucose without an ISF
+ */
+export function calculateBolusDose(inputs: BolusInputs): BolusCalculation {
+  const { carbs, icRatio, glucose, target, isf, iob, increment, maxBolus } = inputs;
+  if (carbs > 0 && icRatio === null) {
+    throw new Error('An IC ratio is required to cover carbs');
+  }
+  if (glucose !== undefined && isf === null) {
+    throw new Error('An ISF is required to correct glucose');
+  }
+
+  const carbBolus = carbs > 0 ? carbs / icRatio! : 0;
+  const correctionBolus = glucose !== undefined ? (glucose - target) / isf! : 0;
+  const iobApplied = correctionBolus > 0 ? Math.min(iob, correctionBolus) : iob;
+  const total = carbBolus + correctionBolus - iobApplied;
+  const beforeRounding = Math.max(0, total);
+  const rounded = roundDownToIncrement(beforeRounding, increment);
+  const capped = rounded > maxBolus;
+
+  return {
+    carbBolus,
+    correctionBolus,
+    iobApplied,
+    total,
+    beforeRounding,
+    rounded,
+    suggestedBolus: capped ? roundDownToIncrement(maxBolus, increment) : rounded,
+    capped
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Carb Absorption
+ *
+ * Counterpart of the insulin activity curves for carbohydrates: the share
+ * of a meal's carbs not yet absorbed after a given time (carbs on board).
+ *
+ * Absorption follows a triangular rate (as in Loop's piecewise-linear
+ * model): it speeds up until half the absorption time, then slows down,
+ * so the remaining fraction traces the same S-curve as the Walsh IOB
+ * curve used for insulin.
+ */
+
+export type AbsorptionClass = 'fast' | 'medium' | 'slow';
+
+/** Default absorption time in hours per class */
+export const DEFAULT_ABSORPTION_HOURS: Record<AbsorptionClass, number> = {
+  fast: 2,
+  medium: 3,
+  slow: 4
+};
+
+/**
+ * Default absorption class per logbook category
+ * Snacks are usually quick carbs; dinner tends to be larger and richer in fat
+ */
+export const CATEGORY_ABSORPTION_CLASS: Record<string, AbsorptionClass> = {
+  breakfast: 'medium',
+  lunch: 'medium',
+  dinner: 'slow',
+  snack: 'fast',
+  after_breakfast: 'fast',
+  after_lunch: 'fast',
+  after_dinner: 'fast'
+};
+
+/**
+ * Absorption settings shared by get_cob and forecast_glucose
+ */
+export interface AbsorptionSettings {
+  /** Absorption time in hours per class, over DEFAULT_ABSORPTION_HOURS */
+  classAbsorption?: Partial<Record<AbsorptionClass, number>>;
+  /** Class or absorption time in hours per meal category */
+  categoryAbsorption?: Partial<Record<string, AbsorptionClass | number>>;
+  /** Class for meals whose category has no setting (default: medium) */
+  defaultClass?: AbsorptionClass;
+}
+
+/**
+ * Absorption time per class with the overrides applied
+ */
+export function absorptionHoursByClass(settings: AbsorptionSettings = {}): Record<AbsorptionClass, number> {
+  return { ...DEFAULT_ABSORPTION_HOURS, ...settings.classAbsorption };
+}
+
+/**
+ * Absorption class and time of a meal: the category setting, else the
+ * default class of the category, else the default class.
+ * Categories set to explicit hours are reported as "custom".
+ */
+export function mealAbsorption(
+  category: string | undefined,
+  settings: AbsorptionSettings = {}
+): { absorption: AbsorptionClass | 'custom'; hours: number } {
+  const setting = category ? settings.categoryAbsorption?.[category] : undefined;
+  if (typeof setting === 'number') {
+    return { absorption: 'custom', hours: setting };
+  }
+  const absorption = setting ?? (category ? CATEGORY_ABSORPTION_CLASS[category] : undefined) ?? settings.defaultClass ?? 'medium';
+  return { absorption, hours: absorptionHoursByClass(settings)[absorption] };
+}
+
+/**
+ * Longest absorption time any meal can get with these settings
+ */
+export function longestAbsorptionHours(settings: AbsorptionSettings = {}): number {
+  return Math.max(
+    ...Object.values(absorptionHoursByClass(settings)),
+    ...Object.values(settings.categoryAbsorption ?? {}).filter((v): v is number => typeof v === 'number')
+  );
+}
+
+/**
+ * Fraction of carbs still to be absorbed
+ *
+ * @param minutesAgo - Minutes since the meal
+ * @param absorptionHours - Time for the meal to be fully absorbed
+ * @returns Fraction of carbs remaining (0-1)
+ */
+export function calculateCarbsRemaining(minutesAgo: number, absorptionHours: number): number {
+  const absorptionMinutes = absorptionHours * 60;
+
+  // Fully absorbed
+  if (minutesAgo >= absorptionMinutes) {
+    return 0;
+  }
+
+  // Not eaten yet
+  if (minutesAgo < 0) {
+    return 1;
+  }
+
+  const t = minutesAgo / absorptionMinutes; // Normalized time (0-1)
+
+  if (t <= 0.5) {
+    // Absorption speeding up
+    return 1 - (2 * t * t);
+  } else {
+    // Absorption slowing down
+    const t2 = 1 - t;
+    return 2 * t2 * t2;
+  }
+}
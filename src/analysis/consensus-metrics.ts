@@ -0,0 +1,146 @@
+/**
+ * International Consensus CGM Metrics
+ *
+ * Implements the 2019 international consensus on time in range
+ * (Battelino et al., Diabetes Care 2019) plus the Glycemia Risk Index
+ * (Klonoff et al., 2022):
+ * - TIR 70-180, TBR level 1 (54-69) / level 2 (<54),
+ *   TAR level 1 (181-250) / level 2 (>250)
+ * - GMI = 3.31 + 0.02392 x mean glucose (mg/dL)
+ * - GRI = 3.0 x VLow + 2.4 x Low + 1.6 x VHigh + 0.8 x High (capped at 100)
+ * - %CGM active time over the analyzed period
+ *
+ * Sensor readings are used when available; fingerstick-only data is
+ * analyzed too but flagged, since the consensus targets assume CGM.
+ */
+
+import { GLUCOSE_THRESHOLDS, preferSensorReadings, type GlucoseReading } from './glucose-statistics.js';
+import type { ConsensusMetric, ConsensusMetrics } from '../types/api.js';
+
+/** Largest gap between sensor readings still counted as active wear */
+const MAX_SENSOR_GAP_MS = 30 * 60 * 1000;
+
+/** Interval credited to each isolated sensor reading (Libre-style 15 min) */
+const DEFAULT_SENSOR_INTERVAL_MS = 15 * 60 * 1000;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Builds a metric flagged against its target
+ */
+function metric(value: number, target: string, meetsTarget: boolean): ConsensusMetric {
+  return { value: round1(value), target, meetsTarget };
+}
+
+/**
+ * Median interval between consecutive readings (typical sensor cadence)
+ */
+function medianInterval(readings: GlucoseReading[]): number {
+  const intervals: number[] = [];
+  for (let i = 1; i < readings.length; i++) {
+    const gap = readings[i]!.time - readings[i - 1]!.time;
+    if (gap > 0 && gap <= MAX_SENSOR_GAP_MS) {
+      intervals.push(gap);
+    }
+  }
+  if (intervals.length === 0) {
+    return DEFAULT_SENSOR_INTERVAL_MS;
+  }
+  intervals.sort((a, b) => a - b);
+  return intervals[Math.floor(intervals.length / 2)]!;
+}
+
+/**
+ * Share of [start, end] covered by sensor data, in percent
+ * Each reading covers the time to the next one, unless the gap exceeds
+ * MAX_SENSOR_GAP_MS (sensor off or signal loss)
+ */
+export function computeCgmActiveTime(sensorReadings: GlucoseReading[], start: number, end: number): number {
+  const duration = end - start;
+  if (duration <= 0 || sensorReadings.length === 0) {
+    return 0;
+  }
+
+  const interval = medianInterval(sensorReadings);
+  let covered = 0;
+
+  for (let i = 0; i < sensorReadings.length; i++) {
+    const current = sensorReadings[i]!;
+    const next = sensorReadings[i + 1];
+    const gap = next ? next.time - current.time : interval;
+    covered += gap <= MAX_SENSOR_GAP_MS ? gap : interval;
+  }
+
+  return Math.min(100, (covered / duration) * 100);
+}
+
+/**
+ * Glycemia Risk Index zone (A = lowest risk, E = highest)
+ */
+function griZone(gri: number): ConsensusMetrics['gri']['zone'] {
+  if (gri <= 20) return 'A';
+  if (gri <= 40) return 'B';
+  if (gri <= 60) return 'C';
+  if (gri <= 80) return 'D';
+  return 'E';
+}
+
+/**
+ * Computes the consensus metrics for a period
+ *
+ * @param readings - Glucose readings in mg/dL, sorted by time
+ * @param start - Period start (ms)
+ * @param end - Period end (ms), capped at the current time by the caller
+ * @returns undefined when there are no readings
+ */
+export function computeConsensusMetrics(
+  readings: GlucoseReading[],
+  start: number,
+  end: number
+): ConsensusMetrics | undefined {
+  const { basis, readings: used } = preferSensorReadings(readings);
+
+  if (used.length === 0) {
+    return undefined;
+  }
+
+  let veryLow = 0;
+  let low = 0;
+  let inRange = 0;
+  let high = 0;
+  let veryHigh = 0;
+  let sum = 0;
+
+  for (const { glucose } of used) {
+    sum += glucose;
+    if (glucose < GLUCOSE_THRESHOLDS.VERY_LOW) veryLow++;
+    else if (glucose < GLUCOSE_THRESHOLDS.LOW) low++;
+    else if (glucose <= GLUCOSE_THRESHOLDS.HIGH) inRange++;
+    else if (glucose <= GLUCOSE_THRESHOLDS.VERY_HIGH) high++;
+    else veryHigh++;
+  }
+
+  const percent = (count: number) => (count / used.length) * 100;
+  const mean = sum / used.length;
+  const sd = Math.sqrt(used.reduce((acc, { glucose }) => acc + (glucose - mean) ** 2, 0) / Math.max(used.length - 1, 1));
+  const cv = mean > 0 ? (sd / mean) * 100 : 0;
+  const gmi = 3.31 + 0.02392 * mean;
+  const gri = Math.min(100,
+    3.0 * percent(veryLow) + 2.4 * percent(low) + 1.6 * percent(veryHigh) + 0.8 * percent(high));
+  const cgmActive = basis === 'sensor' ? computeCgmActiveTime(used, start, end) : 0;
+
+  return {
+    basis,
+    readingsUsed: used.length,
+    timeInRange: metric(percent(inRange), '>70%', percent(inRange) > 70),
+    // Level 1 targets apply to all readings below 70 / above 180 (both levels)
+    timeBelowRangeLevel1: metric(percent(low), '<4% (with level 2)', percent(low + veryLow) < 4),
+    timeBelowRangeLevel2: metric(percent(veryLow), '<1%', percent(veryLow) < 1),
+    timeAboveRangeLevel1: metric(percent(high), '<25% (with level 2)', percent(high + veryHigh) < 25),
+    timeAboveRangeLevel2: metric(percent(veryHigh), '<5%', percent(veryHigh) < 5),
+    coefficientOfVariation: metric(cv, '<=36%', cv <= 36),
+    gmi: metric(gmi, '<7%', gmi < 7),
+    gri: { ...metric(gri, 'zone A-B (<=40)', gri <= 40), zone: griZone(gri) },
+    cgmActiveTime: metric(cgmActive, '>=70%', cgmActive >= 70)
+  };
+}
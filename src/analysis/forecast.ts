@@ -0,0 +1,214 @@
+/**
+ * Short-term Glucose Forecast
+ *
+ * Predicts glucose over the next two hours from three effects, added on
+ * top of the latest reading and carried forward from its time, so the
+ * horizons count from the forecast start (now) even when the reading is
+ * a few minutes old:
+ * - momentum: the recent rate of change (linear fit over the last
+ *   MOMENTUM_FIT_MS), fading out over MOMENTUM_DECAY_MINUTES so it does
+ *   not double count the insulin and carb effects that caused it
+ * - insulin: ISF x insulin absorbed from now to t (same curve as get_iob)
+ * - carbs: ISF / IC x carbs absorbed from now to t (carb absorption curve,
+ *   with the same per-class and per-category times as get_cob)
+ *
+ * The uncertainty band widens linearly with time. It is a heuristic, not
+ * a statistical interval.
+ *
+ * All glucose values are in mg/dL.
+ */
+
+import { DEFAULT_BOLUS_CURVE, insulinRemaining, type InsulinCurve } from './insulin-activity.js';
+import { calculateCarbsRemaining, mealAbsorption, type AbsorptionSettings } from './carb-absorption.js';
+import { icRatioForMeal, isfAt } from './therapy-schedule.js';
+import type { GlucoseReading } from './glucose-statistics.js';
+import type { LogbookEntry, TherapySettings } from '../types/api.js';
+
+export interface ForecastPoint {
+  /** Minutes from the forecast start */
+  minutes: number;
+  time: number;
+  glucose: number;
+  lower: number;
+  upper: number;
+  /** Contributions relative to the latest reading */
+  momentumEffect: number;
+  insulinEffect: number;
+  carbEffect: number;
+}
+
+export interface GlucoseForecast {
+  /** Latest reading the forecast starts from */
+  start: { time: number; glucose: number; isSensor: boolean };
+  /** Time the horizons count from */
+  from: number;
+  /** Rate of change in mg/dL per minute (0 without recent readings to fit) */
+  ratePerMinute: number;
+  /** Insulin on board at the forecast start (bolus and correction) */
+  iob: number;
+  /** Carbs on board at the forecast start */
+  cob: number;
+  isf: number;
+  points: ForecastPoint[];
+}
+
+export interface ForecastOptions {
+  /** Insulin action curve for bolus and correction doses (default: Walsh, DIA 4h) */
+  curve?: InsulinCurve;
+  /** Carb absorption times (default: get_cob defaults) */
+  absorption?: AbsorptionSettings;
+  /** Time the horizons count from, at or after the latest reading (default: the latest reading) */
+  from?: number;
+  /** Forecast horizon in minutes (default: 120) */
+  horizonMinutes?: number;
+  /** Step between points in minutes (default: 5) */
+  stepMinutes?: number;
+}
+
+/** Readings used to fit the rate of change */
+const MOMENTUM_FIT_MS = 20 * 60 * 1000;
+
+/** The momentum fades out linearly over this many minutes */
+const MOMENTUM_DECAY_MINUTES = 30;
+
+/** Uncertainty band: base half-width and growth per minute (mg/dL) */
+const UNCERTAINTY = { base: 8, perMinute: 0.35 };
+
+/** Predictions are clamped to the range a sensor reports */
+const GLUCOSE_LIMITS = { min: 40, max: 400 };
+
+/**
+ * Rate of change (mg/dL per minute) by least squares over the readings
+ * in the last MOMENTUM_FIT_MS before the latest one
+ */
+function rateOfChange(readings: GlucoseReading[]): number {
+  const latest = readings[readings.length - 1];
+  if (!latest) {
+    return 0;
+  }
+  const recent = readings.filter(r => r.time >= latest.time - MOMENTUM_FIT_MS);
+  if (recent.length < 2) {
+    return 0;
+  }
+
+  const meanX = recent.reduce((sum, r) => sum + r.time, 0) / recent.length;
+  const meanY = recent.reduce((sum, r) => sum + r.glucose, 0) / recent.length;
+  let numerator = 0;
+  let denominator = 0;
+  for (const r of recent) {
+    numerator += (r.time - meanX) * (r.glucose - meanY);
+    denominator += (r.time - meanX) ** 2;
+  }
+  return denominator > 0 ? (numerator / denominator) * 60000 : 0;
+}
+
+/**
+ * Glucose change from momentum after t minutes: the rate fades linearly
+ * to zero over MOMENTUM_DECAY_MINUTES
+ */
+function momentumEffect(ratePerMinute: number, minutes: number): number {
+  const t = Math.min(minutes, MOMENTUM_DECAY_MINUTES);
+  return ratePerMinute * (t - (t * t) / (2 * MOMENTUM_DECAY_MINUTES));
+}
+
+/**
+ * Forecasts glucose from the latest reading
+ *
+ * @param readings - Glucose readings in mg/dL, sorted by time (latest last)
+ * @param entries - Logbook entries covering the DIA and the longest absorption time
+ * @returns undefined when there are no readings or no ISF is configured
+ */
+export function forecastGlucose(
+  readings: GlucoseReading[],
+  entries: LogbookEntry[],
+  settings: TherapySettings,
+  timeZone: string,
+  options: ForecastOptions = {}
+): GlucoseForecast | undefined {
+  const curve = options.curve ?? DEFAULT_BOLUS_CURVE;
+  const horizon = options.horizonMinutes ?? 120;
+  const step = options.stepMinutes ?? 5;
+
+  const latest = readings[readings.length - 1];
+  if (!latest) {
+    return undefined;
+  }
+  const isf = isfAt(settings, latest.time, timeZone);
+  if (isf === null) {
+    return undefined;
+  }
+
+  const ratePerMinute = latest.isSensor ? rateOfChange(readings.filter(r => r.isSensor)) : 0;
+  const from = Math.max(options.from ?? latest.time, latest.time);
+  const offsetMinutes = (from - latest.time) / 60000;
+
+  // Doses and meals logged up to the forecast start, including those after
+  // the latest reading (they count as not yet absorbed at the reading)
+  const doses: { time: number; units: number }[] = [];
+  const meals: { time: number; carbs: number; hours: number; ratio: number | null }[] = [];
+  for (const entry of entries) {
+    const time = new Date(entry.timestamp).getTime();
+    if (time > from) {
+      continue;
+    }
+    const units = (entry.insulinBolus ?? 0) + (entry.insulinCorrection ?? 0);
+    if (units > 0) {
+      doses.push({ time, units });
+    }
+    if (entry.carbs && entry.carbs > 0) {
+      meals.push({
+        time,
+        carbs: entry.carbs,
+        hours: mealAbsorption(entry.category, options.absorption).hours,
+        ratio: icRatioForMeal(settings, entry.category, time, timeZone)
+      });
+    }
+  }
+
+  const iobAt = (at: number) => doses.reduce(
+    (sum, dose) => sum + dose.units * insulinRemaining(curve, (at - dose.time) / 60000), 0
+  );
+  const carbRiseAt = (at: number) => meals.reduce((sum, meal) => {
+    // Meals without an IC ratio cannot be converted into a glucose rise
+    if (meal.ratio === null) return sum;
+    return sum + meal.carbs * calculateCarbsRemaining((at - meal.time) / 60000, meal.hours) * (isf / meal.ratio);
+  }, 0);
+
+  const iobNow = iobAt(latest.time);
+  const carbRiseNow = carbRiseAt(latest.time);
+
+  const points: ForecastPoint[] = [];
+  for (let minutes = step; minutes <= horizon; minutes += step) {
+    const at = from + minutes * 60000;
+    // Effects and uncertainty grow from the reading, not from the forecast start
+    const elapsed = offsetMinutes + minutes;
+    const momentum = momentumEffect(ratePerMinute, elapsed);
+    const insulin = -isf * (iobNow - iobAt(at));
+    const carbs = carbRiseNow - carbRiseAt(at);
+    const glucose = Math.min(GLUCOSE_LIMITS.max, Math.max(GLUCOSE_LIMITS.min, latest.glucose + momentum + insulin + carbs));
+    const halfWidth = UNCERTAINTY.base + UNCERTAINTY.perMinute * elapsed;
+
+    points.push({
+      minutes,
+      time: at,
+      glucose: Math.round(glucose),
+      lower: Math.round(Math.max(GLUCOSE_LIMITS.min, glucose - halfWidth)),
+      upper: Math.round(Math.min(GLUCOSE_LIMITS.max, glucose + halfWidth)),
+      momentumEffect: Math.round(momentum),
+      insulinEffect: Math.round(insulin),
+      carbEffect: Math.round(carbs)
+    });
+  }
+
+  return {
+    start: { time: latest.time, glucose: latest.glucose, isSensor: latest.isSensor },
+    from,
+    ratePerMinute: Math.round(ratePerMinute * 100) / 100,
+    iob: Math.round(iobAt(from) * 100) / 100,
+    cob: Math.round(meals.reduce(
+      (sum, meal) => sum + meal.carbs * calculateCarbsRemaining((from - meal.time) / 60000, meal.hours), 0
+    )),
+    isf,
+    points
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Glucose Statistics Engine
+ *
+ * Computes GlucoseStatistics locally from logbook glucose readings, so any
+ * date range can be analyzed (the Diabetes:M statistics endpoint only
+ * covers today and the last 7/14/30/90 days).
+ *
+ * All glucose values are in mg/dL.
+ */
+
+import type { GlucoseStatistics, LogbookEntry } from '../types/api.js';
+
+/**
+ * Distribution thresholds in mg/dL (international consensus ranges)
+ */
+export const GLUCOSE_THRESHOLDS = {
+  /** Below this: hypo (level 2 hypoglycemia) */
+  VERY_LOW: 54,
+  /** Below this: low (level 1 hypoglycemia) */
+  LOW: 70,
+  /** Above this: high (level 1 hyperglycemia) */
+  HIGH: 180,
+  /** Above this: hyper (level 2 hyperglycemia) */
+  VERY_HIGH: 250
+} as const;
+
+/**
+ * A single glucose reading
+ */
+export interface GlucoseReading {
+  /** Unix timestamp in milliseconds */
+  time: number;
+  /** Glucose in mg/dL */
+  glucose: number;
+  /** Whether the reading came from a CGM sensor */
+  isSensor: boolean;
+}
+
+/**
+ * Extracts glucose readings from logbook entries, sorted by time
+ * Duplicate readings (same time and value) are counted once
+ */
+export function extractGlucoseReadings(entries: LogbookEntry[]): GlucoseReading[] {
+  const seen = new Set<string>();
+  const readings: GlucoseReading[] = [];
+
+  for (const entry of entries) {
+    if (entry.glucose === undefined || entry.glucose <= 0) {
+      continue;
+    }
+
+    const time = new Date(entry.timestamp).getTime();
+    const key = `${time}:${entry.glucose}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    readings.push({ time, glucose: entry.glucose, isSensor: entry.isSensor === true });
+  }
+
+  return readings.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Picks the readings to analyze: CGM readings when there are any,
+ * otherwise every reading (fingerstick-only data)
+ */
+export function preferSensorReadings(
+  readings: GlucoseReading[]
+): { basis: 'sensor' | 'all readings'; readings: GlucoseReading[] } {
+  const sensorReadings = readings.filter(reading => reading.isSensor);
+  return sensorReadings.length > 0
+    ? { basis: 'sensor', readings: sensorReadings }
+    : { basis: 'all readings', readings };
+}
+
+/**
+ * Estimates HbA1c (%) from average glucose using the ADAG formula:
+ * eA1c = (average mg/dL + 46.7) / 28.7
+ */
+export function estimateHbA1c(averageMgdl: number): number {
+  return Math.round(((averageMgdl + 46.7) / 28.7) * 10) / 10;
+}
+
+/**
+ * Computes glucose statistics from readings
+ *
+ * @param readings - Glucose readings in mg/dL
+ * @param period - Label of the analyzed period
+ */
+export function computeGlucoseStatistics(readings: GlucoseReading[], period: string): GlucoseStatistics {
+  const distribution = { hypo: 0, low: 0, normal: 0, high: 0, hyper: 0 };
+
+  if (readings.length === 0) {
+    return {
+      distribution,
+      average: 0,
+      min: 0,
+      max: 0,
+      standardDeviation: 0,
+      coefficientOfVariation: 0,
+      estimatedHbA1c: 0,
+      timeInRange: 0,
+      readingsCount: 0,
+      period
+    };
+  }
+
+  let sum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (const { glucose } of readings) {
+    sum += glucose;
+    min = Math.min(min, glucose);
+    max = Math.max(max, glucose);
+
+    if (glucose < GLUCOSE_THRESHOLDS.VERY_LOW) distribution.hypo++;
+    else if (glucose < GLUCOSE_THRESHOLDS.LOW) distribution.low++;
+    else if (glucose <= GLUCOSE_THRESHOLDS.HIGH) distribution.normal++;
+    else if (glucose <= GLUCOSE_THRESHOLDS.VERY_HIGH) distribution.high++;
+    else distribution.hyper++;
+  }
+
+  const count = readings.length;
+  const average = sum / count;
+
+  // Sample standard deviation (population SD for a single reading)
+  const squaredDiffs = readings.reduce((acc, { glucose }) => acc + (glucose - average) ** 2, 0);
+  const standardDeviation = Math.sqrt(squaredDiffs / Math.max(count - 1, 1));
+
+  return {
+    distribution,
+    average: Math.round(average),
+    min: Math.round(min),
+    max: Math.round(max),
+    standardDeviation: Math.round(standardDeviation),
+    coefficientOfVariation: Math.round((standardDeviation / average) * 1000) / 10,
+    estimatedHbA1c: estimateHbA1c(average),
+    timeInRange: Math.round((distribution.normal / count) * 1000) / 10,
+    readingsCount: count,
+    period
+  };
+}
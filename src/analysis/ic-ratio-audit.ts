@@ -0,0 +1,220 @@
+/**
+ * IC Ratio Audit
+ *
+ * Estimates the carb ratio that actually worked from "clean" meal
+ * boluses:
+ * - a meal bolus was given and no correction within CLEAN_WINDOW_MS
+ * - no other bolus in the CLEAN_WINDOW_MS before the meal (no insulin on board)
+ * - no other meal until the outcome is measured
+ * - pre-meal glucose in range (70-180 mg/dL)
+ *
+ * The outcome is glucose 4 hours after the meal (3 hours when the 4-hour
+ * value is missing). Whatever it differs from the pre-meal value is
+ * converted into the insulin that was missing (or in excess) using the
+ * ISF in effect at the meal:
+ *
+ *   needed insulin = bolus + (outcome - preMeal) / ISF
+ *   effective ratio = carbs / needed insulin
+ *
+ * All glucose values are in mg/dL.
+ */
+
+import { percentile } from './agp.js';
+import { GLUCOSE_THRESHOLDS, type GlucoseReading } from './glucose-statistics.js';
+import { analyzeMeals } from './meal-impact.js';
+import { MEAL_INDICES, isfAt, scheduleValueAt, slotIndexAt } from './therapy-schedule.js';
+import { valueAt } from './variability.js';
+import type { LogbookEntry, TherapySettings } from '../types/api.js';
+
+export type MealSlot = keyof typeof MEAL_INDICES;
+
+export type AuditConfidence = 'low' | 'medium' | 'high';
+
+export interface CleanMealBolus {
+  time: number;
+  date: string;
+  slot: MealSlot;
+  carbs: number;
+  bolus: number;
+  preMeal: number;
+  outcome: number;
+  /** Hours after the meal the outcome was read at */
+  outcomeHours: 3 | 4;
+  isf: number;
+  configuredRatio: number | null;
+  effectiveRatio: number;
+}
+
+export interface IcRatioSlotAudit {
+  slot: MealSlot;
+  samples: number;
+  configuredRatio: number | null;
+  /** Median effective ratio */
+  observedRatio: number | null;
+  /** Interquartile range of the effective ratios */
+  observedRange: [number, number] | null;
+  /** Median outcome - preMeal */
+  medianOutcomeDelta: number | null;
+  /** (observed - configured) / configured, in percent */
+  difference: number | null;
+  confidence: AuditConfidence;
+}
+
+export interface IcRatioAudit {
+  slots: IcRatioSlotAudit[];
+  cleanMeals: CleanMealBolus[];
+  mealsConsidered: number;
+  /** Why meals were left out, with counts */
+  excluded: Record<string, number>;
+}
+
+/** Window around the meal in which other insulin makes it unclean */
+const CLEAN_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+/** Outcome is measured this long after the meal */
+const OUTCOME_HOURS = 4;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Largest gap bridged when reading the outcome */
+const MAX_INTERPOLATION_GAP_MS = 45 * 60 * 1000;
+
+/** Effective ratios outside this range (g/u) are treated as artifacts */
+const PLAUSIBLE_RATIO = { min: 2, max: 60 };
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Meal slot of a meal: its category for breakfast/lunch/dinner entries,
+ * otherwise the meal-type setting in effect at that time of day
+ */
+export function mealSlotOf(category: string | undefined, time: number, timeZone: string): MealSlot {
+  if (category && category in MEAL_INDICES) {
+    return category as MealSlot;
+  }
+  const index = slotIndexAt(time, timeZone);
+  if (index >= MEAL_INDICES.dinner) return 'dinner';
+  if (index >= MEAL_INDICES.lunch) return 'lunch';
+  return 'breakfast';
+}
+
+/**
+ * Confidence from sample size and spread of the effective ratios
+ */
+function auditConfidence(samples: number, ratios: number[]): AuditConfidence {
+  if (samples < 3) return 'low';
+  const sorted = [...ratios].sort((a, b) => a - b);
+  const spread = (percentile(sorted, 75) - percentile(sorted, 25)) / percentile(sorted, 50);
+  if (samples >= 10 && spread <= 0.3) return 'high';
+  if (samples >= 5 && spread <= 0.5) return 'medium';
+  return 'low';
+}
+
+/**
+ * Audits the configured IC ratios against clean meal boluses in [start, end]
+ *
+ * @param entries - Logbook entries from CLEAN_WINDOW_MS before start to OUTCOME_HOURS after end
+ * @param readings - Glucose readings in mg/dL, sorted by time
+ */
+export function auditIcRatios(
+  entries: LogbookEntry[],
+  readings: GlucoseReading[],
+  start: number,
+  end: number,
+  timeZone: string,
+  settings: TherapySettings
+): IcRatioAudit {
+  const excluded: Record<string, number> = {};
+  const exclude = (reason: string) => {
+    excluded[reason] = (excluded[reason] ?? 0) + 1;
+  };
+
+  const timed = entries.map(entry => ({ entry, time: new Date(entry.timestamp).getTime() }));
+  const meals = analyzeMeals(entries, readings, start, end, timeZone, settings);
+  const cleanMeals: CleanMealBolus[] = [];
+
+  for (const meal of meals) {
+    const outcomeEnd = meal.time + OUTCOME_HOURS * HOUR_MS;
+    const others = timed.filter(t => t.time !== meal.time);
+
+    if (meal.bolus <= 0) {
+      exclude('no meal bolus');
+      continue;
+    }
+    if (meal.correction > 0 || others.some(t =>
+      (t.entry.insulinCorrection ?? 0) > 0 && Math.abs(t.time - meal.time) <= CLEAN_WINDOW_MS)) {
+      exclude('correction nearby');
+      continue;
+    }
+    if (others.some(t =>
+      (t.entry.insulinBolus ?? 0) > 0 && t.time < meal.time - 20 * 60 * 1000 && t.time >= meal.time - CLEAN_WINDOW_MS)) {
+      exclude('insulin on board from an earlier bolus');
+      continue;
+    }
+    if (others.some(t => (t.entry.carbs ?? 0) > 0 && t.time > meal.time && t.time <= outcomeEnd)) {
+      exclude('another meal before the outcome');
+      continue;
+    }
+    if (meal.preMeal === null || meal.preMeal < GLUCOSE_THRESHOLDS.LOW || meal.preMeal > GLUCOSE_THRESHOLDS.HIGH) {
+      exclude('pre-meal glucose missing or out of range');
+      continue;
+    }
+
+    const at4h = valueAt(readings, outcomeEnd, MAX_INTERPOLATION_GAP_MS);
+    const at3h = valueAt(readings, meal.time + 3 * HOUR_MS, MAX_INTERPOLATION_GAP_MS);
+    const outcome = at4h ?? at3h;
+    const isf = isfAt(settings, meal.time, timeZone);
+    if (outcome === undefined) {
+      exclude('no reading 3-4h after the meal');
+      continue;
+    }
+    if (isf === null) {
+      exclude('no ISF configured');
+      continue;
+    }
+
+    const neededInsulin = meal.bolus + (outcome - meal.preMeal) / isf;
+    const effectiveRatio = neededInsulin > 0 ? meal.carbs / neededInsulin : Infinity;
+    if (effectiveRatio < PLAUSIBLE_RATIO.min || effectiveRatio > PLAUSIBLE_RATIO.max) {
+      exclude('implausible result (likely unlogged carbs or insulin)');
+      continue;
+    }
+
+    cleanMeals.push({
+      time: meal.time,
+      date: meal.date,
+      slot: mealSlotOf(meal.category, meal.time, timeZone),
+      carbs: meal.carbs,
+      bolus: meal.bolus,
+      preMeal: meal.preMeal,
+      outcome: Math.round(outcome),
+      outcomeHours: at4h !== undefined ? 4 : 3,
+      isf,
+      configuredRatio: meal.configuredRatio,
+      effectiveRatio: round1(effectiveRatio)
+    });
+  }
+
+  const slots = (Object.keys(MEAL_INDICES) as MealSlot[]).map(slot => {
+    const samples = cleanMeals.filter(m => m.slot === slot);
+    const ratios = samples.map(m => m.effectiveRatio).sort((a, b) => a - b);
+    const configured = scheduleValueAt(settings.icRatioPerSlot, MEAL_INDICES[slot], settings.icRatioDefault);
+    const observed = ratios.length > 0 ? round1(percentile(ratios, 50)) : null;
+    const deltas = samples.map(m => m.outcome - m.preMeal).sort((a, b) => a - b);
+
+    return {
+      slot,
+      samples: samples.length,
+      configuredRatio: configured,
+      observedRatio: observed,
+      observedRange: ratios.length > 0
+        ? [round1(percentile(ratios, 25)), round1(percentile(ratios, 75))] as [number, number]
+        : null,
+      medianOutcomeDelta: deltas.length > 0 ? Math.round(percentile(deltas, 50)) : null,
+      difference: configured && observed !== null ? Math.round(((observed - configured) / configured) * 100) : null,
+      confidence: auditConfidence(samples.length, ratios)
+    };
+  });
+
+  return { slots, cleanMeals, mealsConsidered: meals.length, excluded };
+}
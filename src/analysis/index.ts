@@ -0,0 +1,20 @@
+/**
+ * Analysis module exports
+ */
+
+export * from './glucose-statistics.js';
+export * from './consensus-metrics.js';
+export * from './agp.js';
+export * from './variability.js';
+export * from './patterns.js';
+export * from './overnight.js';
+export * from './therapy-schedule.js';
+export * from './meal-impact.js';
+export * from './ic-ratio-audit.js';
+export * from './insulin-activity.js';
+export * from './isf-estimation.js';
+export * from './bolus-calculation.js';
+export * from './carb-absorption.js';
+export * from './forecast.js';
+export * from './basal-test.js';
+export * from './period-comparison.js';
@@ -0,0 +1,307 @@
+/**
+ * Insulin Activity Curves
+ *
+ * Fraction of a dose still active (insulin on board) after a given time.
+ * Models:
+ * - walsh: piecewise quadratic over the DIA (default for bolus insulin)
+ * - bilinear: straight decay over the DIA
+ * - exponential: oref0 model shaped by peak time and DIA
+ * - flat: constant action over the DIA, for long-acting basal insulin
+ *
+ * Presets per insulin product pick a model, DIA and peak; every tool that
+ * works with insulin action resolves its curve with resolveInsulinCurve.
+ */
+
+import type { LogbookEntry } from '../types/api.js';
+
+export type InsulinModel = 'walsh' | 'bilinear' | 'exponential' | 'flat';
+
+export type InsulinType = 'fiasp' | 'lyumjev' | 'novorapid' | 'humalog' | 'glargine' | 'degludec';
+
+export interface InsulinCurve {
+  model: InsulinModel;
+  /** Duration of insulin action in hours */
+  dia: number;
+  /** Time of peak action in minutes (exponential model only) */
+  peakMinutes?: number;
+  /** Product the curve was taken from, if any */
+  insulinType?: InsulinType;
+}
+
+/**
+ * Action profiles per insulin product
+ * Rapid and ultra-rapid peaks follow the oref0 presets (75 and 55 minutes);
+ * Lyumjev uses the shorter 45-minute peak most loop systems adopt.
+ */
+export const INSULIN_PRESETS: Record<InsulinType, { label: string } & Omit<InsulinCurve, 'insulinType'>> = {
+  fiasp: { label: 'Fiasp (ultra-rapid aspart)', model: 'exponential', dia: 5, peakMinutes: 55 },
+  lyumjev: { label: 'Lyumjev (ultra-rapid lispro)', model: 'exponential', dia: 5, peakMinutes: 45 },
+  novorapid: { label: 'Novorapid (aspart)', model: 'exponential', dia: 5, peakMinutes: 75 },
+  humalog: { label: 'Humalog (lispro)', model: 'exponential', dia: 5, peakMinutes: 75 },
+  glargine: { label: 'Glargine (Lantus, Toujeo)', model: 'flat', dia: 24 },
+  degludec: { label: 'Degludec (Tresiba)', model: 'flat', dia: 42 }
+};
+
+/** Bolus curve when nothing is chosen */
+export const DEFAULT_BOLUS_CURVE: InsulinCurve = { model: 'walsh', dia: 4 };
+
+/** Basal curve when nothing is chosen */
+export const DEFAULT_BASAL_CURVE: InsulinCurve = { model: 'flat', dia: 24 };
+
+/** Peak of the exponential model without a preset (rapid-acting analogs) */
+const DEFAULT_PEAK_MINUTES = 75;
+
+/**
+ * Builds the curve to use from the tool options
+ * An explicit model, DIA or peak overrides the insulin type preset.
+ *
+ * @throws Error when the exponential peak is not before half the DIA
+ */
+export function resolveInsulinCurve(
+  options: { model?: InsulinModel; insulinType?: InsulinType; dia?: number; peakMinutes?: number },
+  fallback: InsulinCurve = DEFAULT_BOLUS_CURVE
+): InsulinCurve {
+  const preset = options.insulinType ? INSULIN_PRESETS[options.insulinType] : undefined;
+  const base = preset ?? fallback;
+  const model = options.model ?? base.model;
+  const dia = options.dia ?? base.dia;
+  const curve: InsulinCurve = { model, dia };
+  if (options.insulinType) {
+    curve.insulinType = options.insulinType;
+  }
+
+  if (model === 'exponential') {
+    const peakMinutes = options.peakMinutes ?? base.peakMinutes ?? DEFAULT_PEAK_MINUTES;
+    if (peakMinutes * 2 >= dia * 60) {
+      throw new Error(
+        `Peak time ${peakMinutes} min is too late for a DIA of ${dia}h: the exponential model needs the peak before ${dia * 30} min`
+      );
+    }
+    curve.peakMinutes = peakMinutes;
+  }
+  return curve;
+}
+
+/** Where a setting came from */
+export type InsulinSettingSource = 'argument' | 'preset' | 'default';
+
+/**
+ * Builds the curve from the tool options and reports where the DIA and
+ * insulin type came from
+ *
+ * @throws Error when the exponential peak is not before half the DIA
+ */
+export function resolveInsulinCurveWithSources(
+  options: { model?: InsulinModel; insulinType?: InsulinType; dia?: number; peakMinutes?: number },
+  fallback: InsulinCurve = DEFAULT_BOLUS_CURVE
+): { curve: InsulinCurve; sources: { dia: InsulinSettingSource; insulinType: InsulinSettingSource } } {
+  return {
+    curve: resolveInsulinCurve(options, fallback),
+    sources: {
+      dia: options.dia !== undefined ? 'argument' : options.insulinType ? 'preset' : 'default',
+      insulinType: options.insulinType ? 'argument' : 'default'
+    }
+  };
+}
+
+/**
+ * Short description of a curve, e.g. "exponential (peak 55 min), DIA 5h - Fiasp"
+ */
+export function describeInsulinCurve(curve: InsulinCurve): string {
+  const model = curve.peakMinutes !== undefined ? `${curve.model} (peak ${curve.peakMinutes} min)` : curve.model;
+  const product = curve.insulinType ? ` - ${INSULIN_PRESETS[curve.insulinType].label}` : '';
+  return `${model}, DIA ${curve.dia}h${product}`;
+}
+
+/**
+ * Calculates the insulin activity curve using the Walsh model.
+ * This model is widely used in insulin pump software and closely matches
+ * the pharmacokinetic profile of rapid-acting insulin analogs.
+ *
+ * Reference: Walsh et al. "Guidelines for Optimal Bolus Calculator Settings in Adults"
+ *
+ * @param minutesAgo - Minutes since insulin was administered
+ * @param dia - Duration of Insulin Action in hours
+ * @returns Fraction of insulin still active (0-1)
+ */
+export function calculateInsulinActivity(minutesAgo: number, dia: number): number {
+  const diaMinutes = dia * 60;
+
+  // No insulin remains after DIA
+  if (minutesAgo >= diaMinutes) {
+    return 0;
+  }
+
+  // Insulin hasn't started working yet
+  if (minutesAgo < 0) {
+    return 1;
+  }
+
+  // Walsh model - polynomial approximation of insulin activity
+  // This provides a smoother, more realistic curve than simple exponential
+  const t = minutesAgo / diaMinutes; // Normalized time (0-1)
+
+  // Walsh curve: IOB = 1 - (t^2 * (3 - 2*t)) adjusted for better fit
+  // This creates a sigmoid-like decay that matches clinical data
+  if (t <= 0.5) {
+    // First half: slow initial decay
+    return 1 - (2 * t * t);
+  } else {
+    // Second half: faster decay
+    const t2 = 1 - t;
+    return 2 * t2 * t2;
+  }
+}
+
+/**
+ * Alternative: Bilinear model (simpler, used by some pumps)
+ * More conservative estimate
+ */
+export function calculateInsulinActivityBilinear(minutesAgo: number, dia: number): number {
+  const diaMinutes = dia * 60;
+
+  if (minutesAgo >= diaMinutes || minutesAgo < 0) {
+    return minutesAgo < 0 ? 1 : 0;
+  }
+
+  // Simple linear decay
+  return 1 - (minutesAgo / diaMinutes);
+}
+
+/**
+ * oref0 exponential model: insulin action rises to a peak and decays
+ * exponentially, reaching zero at the DIA.
+ *
+ * Reference: oref0 lib/iob/calculate.js (exponential curve by Dragan Maksimovic)
+ *
+ * @param minutesAgo - Minutes since insulin was administered
+ * @param dia - Duration of Insulin Action in hours
+ * @param peakMinutes - Time of peak action in minutes (must be before dia / 2)
+ * @returns Fraction of insulin still active (0-1)
+ */
+export function calculateInsulinActivityExponential(minutesAgo: number, dia: number, peakMinutes: number): number {
+  const td = dia * 60;
+
+  if (minutesAgo >= td || minutesAgo < 0) {
+    return minutesAgo < 0 ? 1 : 0;
+  }
+
+  const t = minutesAgo;
+  const tau = peakMinutes * (1 - peakMinutes / td) / (1 - 2 * peakMinutes / td);
+  const a = 2 * tau / td;
+  const S = 1 / (1 - a + (1 + a) * Math.exp(-td / tau));
+
+  const remaining = 1 - S * (1 - a) * ((t * t / (tau * td * (1 - a)) - t / tau - 1) * Math.exp(-t / tau) + 1);
+  return Math.min(1, Math.max(0, remaining));
+}
+
+/**
+ * Fraction of a dose still active with the given curve
+ */
+export function insulinRemaining(curve: InsulinCurve, minutesAgo: number): number {
+  switch (curve.model) {
+    case 'exponential':
+      return calculateInsulinActivityExponential(minutesAgo, curve.dia, curve.peakMinutes ?? DEFAULT_PEAK_MINUTES);
+    case 'bilinear':
+    case 'flat':
+      // Constant action means the remaining insulin falls in a straight line
+      return calculateInsulinActivityBilinear(minutesAgo, curve.dia);
+    default:
+      return calculateInsulinActivity(minutesAgo, curve.dia);
+  }
+}
+
+/**
+ * Bolus and correction insulin still on board at a point in time
+ * Doses logged at or after the given time are not counted
+ */
+export function bolusInsulinOnBoard(entries: LogbookEntry[], time: number, curve: InsulinCurve): number {
+  let iob = 0;
+  for (const entry of entries) {
+    const minutesAgo = (time - new Date(entry.timestamp).getTime()) / (1000 * 60);
+    if (minutesAgo <= 0 || minutesAgo >= curve.dia * 60) {
+      continue;
+    }
+    const dose = (entry.insulinBolus ?? 0) + (entry.insulinCorrection ?? 0);
+    iob += dose * insulinRemaining(curve, minutesAgo);
+  }
+  return iob;
+}
+
+/**
+ * Fraction of a dose acting per minute with the given curve, i.e. the
+ * rate at which the remaining fraction falls
+ */
+export function insulinActivityRate(curve: InsulinCurve, minutesAgo: number): number {
+  const td = curve.dia * 60;
+  if (minutesAgo < 0 || minutesAgo >= td) {
+    return 0;
+  }
+
+  switch (curve.model) {
+    case 'exponential': {
+      const tp = curve.peakMinutes ?? DEFAULT_PEAK_MINUTES;
+      const tau = tp * (1 - tp / td) / (1 - 2 * tp / td);
+      const a = 2 * tau / td;
+      const S = 1 / (1 - a + (1 + a) * Math.exp(-td / tau));
+      return (S / (tau * tau)) * minutesAgo * (1 - minutesAgo / td) * Math.exp(-minutesAgo / tau);
+    }
+    case 'bilinear':
+    case 'flat':
+      return 1 / td;
+    default: {
+      const t = minutesAgo / td;
+      return (t <= 0.5 ? 4 * t : 4 * (1 - t)) / td;
+    }
+  }
+}
+
+/**
+ * Insulin on board and insulin activity at a point in time, by dose type
+ */
+export interface InsulinOnBoard {
+  /** Units still on board */
+  bolus: number;
+  correction: number;
+  basal: number;
+  /** Units acting per hour */
+  activity: {
+    bolus: number;
+    correction: number;
+    basal: number;
+  };
+}
+
+/**
+ * Insulin on board and activity at a point in time
+ * Doses logged after the given time are not counted; basal insulin is
+ * counted only when a basal curve is given.
+ */
+export function insulinOnBoardAt(
+  entries: LogbookEntry[],
+  time: number,
+  curve: InsulinCurve,
+  basalCurve: InsulinCurve | null
+): InsulinOnBoard {
+  const result: InsulinOnBoard = { bolus: 0, correction: 0, basal: 0, activity: { bolus: 0, correction: 0, basal: 0 } };
+
+  for (const entry of entries) {
+    const minutesAgo = (time - new Date(entry.timestamp).getTime()) / (1000 * 60);
+    if (minutesAgo < 0) {
+      continue;
+    }
+
+    const remaining = insulinRemaining(curve, minutesAgo);
+    const rate = insulinActivityRate(curve, minutesAgo) * 60;
+    result.bolus += (entry.insulinBolus ?? 0) * remaining;
+    result.activity.bolus += (entry.insulinBolus ?? 0) * rate;
+    result.correction += (entry.insulinCorrection ?? 0) * remaining;
+    result.activity.correction += (entry.insulinCorrection ?? 0) * rate;
+
+    if (basalCurve && entry.insulinBasal) {
+      result.basal += entry.insulinBasal * insulinRemaining(basalCurve, minutesAgo);
+      result.activity.basal += entry.insulinBasal * insulinActivityRate(basalCurve, minutesAgo) * 60;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,204 @@
+/**
+ * ISF Estimation
+ *
+ * Estimates the effective insulin sensitivity factor from isolated
+ * correction doses (insulinCorrection without carbs):
+ * - no carbs from CARB_LOOKBACK_MS before the dose until the end of the DIA
+ * - no other bolus or correction during the DIA
+ *
+ * The glucose drop over the DIA is divided by all the insulin that acts in
+ * that time: the correction itself plus whatever was still on board from
+ * earlier doses (same curve as get_iob), which finishes acting within
+ * the same window.
+ *
+ *   ISF = (glucose at dose - glucose at dose + DIA) / (correction + IOB)
+ *
+ * All glucose values are in mg/dL.
+ */
+
+import { formatDateKey } from '../utils/timezone.js';
+import { percentile } from './agp.js';
+import type { GlucoseReading } from './glucose-statistics.js';
+import { bolusInsulinOnBoard, type InsulinCurve } from './insulin-activity.js';
+import { SLOTS_PER_DAY, formatSlot, isfAt, scheduleValueAt, slotIndexAt } from './therapy-schedule.js';
+import { valueAt } from './variability.js';
+import type { LogbookEntry, TherapySettings } from '../types/api.js';
+
+export type EstimateConfidence = 'low' | 'medium' | 'high';
+
+export interface CorrectionSample {
+  time: number;
+  date: string;
+  /** Half-hour slot of the dose (0-47) */
+  slot: number;
+  correction: number;
+  /** Insulin on board from earlier doses at the time of the correction */
+  iob: number;
+  startGlucose: number;
+  endGlucose: number;
+  drop: number;
+  /** Observed ISF, mg/dL per unit */
+  isf: number;
+  /** Configured ISF at the time of the dose */
+  configuredIsf: number | null;
+}
+
+export interface IsfBlockEstimate {
+  /** Time-of-day block, "08:00-12:00" */
+  block: string;
+  samples: number;
+  /** Configured ISF over the block: min and max of its slots */
+  configured: { min: number; max: number } | null;
+  /** Median observed ISF */
+  observed: number | null;
+  observedRange: [number, number] | null;
+  /** (observed - configured median) / configured median, in percent */
+  difference: number | null;
+  confidence: EstimateConfidence;
+}
+
+export interface IsfEstimation {
+  blocks: IsfBlockEstimate[];
+  samples: CorrectionSample[];
+  candidates: number;
+  /** Why corrections were left out, with counts */
+  excluded: Record<string, number>;
+}
+
+/** Carbs this long before a correction may still be absorbing */
+const CARB_LOOKBACK_MS = 3 * 60 * 60 * 1000;
+
+/** Smallest correction worth measuring (units) */
+const MIN_CORRECTION = 0.5;
+
+/** Largest gap bridged when reading glucose at the start and end */
+const MAX_INTERPOLATION_GAP_MS = 45 * 60 * 1000;
+
+/** Observed ISF outside this range (mg/dL per unit) is treated as an artifact */
+const PLAUSIBLE_ISF = { min: 5, max: 300 };
+
+/** Slots per time-of-day block (8 x 30 min = 4 hours) */
+const SLOTS_PER_BLOCK = 8;
+
+/**
+ * Confidence from sample size and spread of the estimates
+ */
+function estimateConfidence(values: number[]): EstimateConfidence {
+  if (values.length < 3) return 'low';
+  const sorted = [...values].sort((a, b) => a - b);
+  const spread = (percentile(sorted, 75) - percentile(sorted, 25)) / percentile(sorted, 50);
+  if (values.length >= 8 && spread <= 0.3) return 'high';
+  if (values.length >= 4 && spread <= 0.5) return 'medium';
+  return 'low';
+}
+
+/**
+ * Estimates ISF per 4-hour block from isolated corrections in [start, end]
+ *
+ * @param entries - Logbook entries from CARB_LOOKBACK_MS before start to the DIA after end
+ * @param readings - Glucose readings in mg/dL, sorted by time
+ * @param curve - Insulin action curve; its DIA sets the measurement window
+ * @param settings - ISF schedule to compare against (optional)
+ */
+export function estimateIsf(
+  entries: LogbookEntry[],
+  readings: GlucoseReading[],
+  start: number,
+  end: number,
+  curve: InsulinCurve,
+  timeZone: string,
+  settings?: TherapySettings
+): IsfEstimation {
+  const excluded: Record<string, number> = {};
+  const exclude = (reason: string) => {
+    excluded[reason] = (excluded[reason] ?? 0) + 1;
+  };
+
+  const diaMs = curve.dia * 60 * 60 * 1000;
+  const timed = entries
+    .map(entry => ({ entry, time: new Date(entry.timestamp).getTime() }))
+    .sort((a, b) => a.time - b.time);
+  const candidates = timed.filter(({ entry, time }) =>
+    (entry.insulinCorrection ?? 0) > 0 && !entry.carbs && time >= start && time <= end);
+  const samples: CorrectionSample[] = [];
+
+  for (const { entry, time } of candidates) {
+    const correction = entry.insulinCorrection!;
+    const others = timed.filter(t => t.entry !== entry);
+
+    if (correction < MIN_CORRECTION) {
+      exclude(`correction below ${MIN_CORRECTION}u`);
+      continue;
+    }
+    if (others.some(t => (t.entry.carbs ?? 0) > 0 && t.time >= time - CARB_LOOKBACK_MS && t.time <= time + diaMs)) {
+      exclude('carbs nearby');
+      continue;
+    }
+    if (others.some(t =>
+      ((t.entry.insulinBolus ?? 0) > 0 || (t.entry.insulinCorrection ?? 0) > 0) && t.time >= time && t.time <= time + diaMs)) {
+      exclude('another dose within the DIA');
+      continue;
+    }
+
+    const startGlucose = entry.glucose ?? valueAt(readings, time, MAX_INTERPOLATION_GAP_MS);
+    const endGlucose = valueAt(readings, time + diaMs, MAX_INTERPOLATION_GAP_MS);
+    if (startGlucose === undefined || endGlucose === undefined) {
+      exclude('no glucose at the dose or at the end of the DIA');
+      continue;
+    }
+
+    const iob = bolusInsulinOnBoard(entries, time, curve);
+    const drop = startGlucose - endGlucose;
+    const isf = drop / (correction + iob);
+    if (isf < PLAUSIBLE_ISF.min || isf > PLAUSIBLE_ISF.max) {
+      exclude('implausible result (likely unlogged carbs, exercise or a missed dose)');
+      continue;
+    }
+
+    samples.push({
+      time,
+      date: formatDateKey(new Date(time), timeZone),
+      slot: slotIndexAt(time, timeZone),
+      correction,
+      iob: Math.round(iob * 100) / 100,
+      startGlucose: Math.round(startGlucose),
+      endGlucose: Math.round(endGlucose),
+      drop: Math.round(drop),
+      isf: Math.round(isf),
+      configuredIsf: settings ? isfAt(settings, time, timeZone) : null
+    });
+  }
+
+  const blocks: IsfBlockEstimate[] = [];
+  for (let first = 0; first < SLOTS_PER_DAY; first += SLOTS_PER_BLOCK) {
+    const last = first + SLOTS_PER_BLOCK - 1;
+    const inBlock = samples.filter(s => s.slot >= first && s.slot <= last);
+    const values = inBlock.map(s => s.isf).sort((a, b) => a - b);
+
+    const configuredValues = settings
+      ? Array.from({ length: SLOTS_PER_BLOCK }, (_, i) => scheduleValueAt(settings.isfPerSlot, first + i, settings.isfDefault))
+        .filter((v): v is number => v !== null)
+        .sort((a, b) => a - b)
+      : [];
+    const configuredMedian = configuredValues.length > 0 ? percentile(configuredValues, 50) : null;
+    const observed = values.length > 0 ? Math.round(percentile(values, 50)) : null;
+
+    blocks.push({
+      block: `${formatSlot(first).split('-')[0]}-${formatSlot(last).split('-')[1]}`,
+      samples: inBlock.length,
+      configured: configuredValues.length > 0
+        ? { min: configuredValues[0]!, max: configuredValues[configuredValues.length - 1]! }
+        : null,
+      observed,
+      observedRange: values.length > 0
+        ? [Math.round(percentile(values, 25)), Math.round(percentile(values, 75))]
+        : null,
+      difference: configuredMedian && observed !== null
+        ? Math.round(((observed - configuredMedian) / configuredMedian) * 100)
+        : null,
+      confidence: estimateConfidence(values)
+    });
+  }
+
+  return { blocks, samples, candidates: candidates.length, excluded };
+}
@@ -0,0 +1,244 @@
+/**
+ * Meal Impact Analysis
+ *
+ * Joins each meal (an entry with carbs) with the readings that follow it:
+ * pre-meal glucose, values 1h/2h/3h after eating, the peak and when it
+ * occurred, and when glucose came back to its pre-meal level. Each meal
+ * is related to its carbs, the bolus given around it and the configured
+ * IC ratio.
+ *
+ * Meals followed by another meal within the observation window are
+ * flagged as overlapping and left out of the aggregates, since the second
+ * meal distorts the curve.
+ *
+ * All glucose values are in mg/dL.
+ */
+
+import { formatDateKey } from '../utils/timezone.js';
+import { percentile } from './agp.js';
+import { valueAt } from './variability.js';
+import { icRatioForMeal } from './therapy-schedule.js';
+import type { GlucoseReading } from './glucose-statistics.js';
+import type { LogbookEntry, TherapySettings } from '../types/api.js';
+
+export interface MealImpact {
+  /** Meal time (Unix ms) */
+  time: number;
+  date: string;
+  category: string;
+  carbs: number;
+  /** Meal bolus given within BOLUS_WINDOW_MS of the meal */
+  bolus: number;
+  /** Correction insulin given within BOLUS_WINDOW_MS of the meal */
+  correction: number;
+  /** Configured IC ratio (g/u) for this meal */
+  configuredRatio: number | null;
+  /** Bolus the configured ratio calls for */
+  expectedBolus: number | null;
+  /** Carbs actually covered per unit of meal bolus */
+  observedRatio: number | null;
+  preMeal: number | null;
+  after1h: number | null;
+  after2h: number | null;
+  after3h: number | null;
+  peak: number | null;
+  /** Minutes from meal to peak */
+  peakMinutes: number | null;
+  /** peak - preMeal */
+  excursion: number | null;
+  /** Minutes until glucose is back within BASELINE_TOLERANCE of preMeal (null: not within RETURN_WINDOW_MS) */
+  returnMinutes: number | null;
+  /** Another meal followed within the observation window */
+  overlapping: boolean;
+}
+
+export interface MealImpactAggregate {
+  category: string;
+  meals: number;
+  /** Meals without a following meal, used for the medians below */
+  cleanMeals: number;
+  averageCarbs: number;
+  averageBolus: number;
+  /** Total carbs / total meal bolus */
+  observedRatio: number | null;
+  /** Median configured IC ratio */
+  configuredRatio: number | null;
+  medianPreMeal: number | null;
+  median1h: number | null;
+  median2h: number | null;
+  median3h: number | null;
+  medianPeak: number | null;
+  medianPeakMinutes: number | null;
+  medianExcursion: number | null;
+  medianReturnMinutes: number | null;
+  /** Percent of clean meals back to baseline within RETURN_WINDOW_MS */
+  returnedToBaseline: number | null;
+}
+
+/** Boluses logged this close to the meal belong to it */
+const BOLUS_WINDOW_MS = 20 * 60 * 1000;
+
+/** Pre-meal glucose is taken up to this long before the meal */
+const PRE_MEAL_WINDOW_MS = 30 * 60 * 1000;
+
+/** The peak is searched for this long after the meal */
+const PEAK_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+/** Return to baseline is searched for this long after the meal */
+export const RETURN_WINDOW_MS = 5 * 60 * 60 * 1000;
+
+/** Distance (mg/dL) from pre-meal glucose counted as back to baseline */
+export const BASELINE_TOLERANCE = 20;
+
+/** Largest gap bridged when reading glucose at 1h/2h/3h */
+const MAX_INTERPOLATION_GAP_MS = 45 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const medianOf = (values: (number | null)[], round: (value: number) => number = Math.round): number | null => {
+  const present = values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  return present.length > 0 ? round(percentile(present, 50)) : null;
+};
+
+/**
+ * Glucose at a point in time: interpolated, else the nearest reading
+ * within 15 minutes
+ */
+function glucoseAt(readings: GlucoseReading[], time: number): number | null {
+  const interpolated = valueAt(readings, time, MAX_INTERPOLATION_GAP_MS);
+  if (interpolated !== undefined) {
+    return Math.round(interpolated);
+  }
+  const nearby = readings.filter(r => Math.abs(r.time - time) <= 15 * 60 * 1000);
+  if (nearby.length === 0) {
+    return null;
+  }
+  return nearby.reduce((best, r) => (Math.abs(r.time - time) < Math.abs(best.time - time) ? r : best)).glucose;
+}
+
+/**
+ * Analyzes every meal whose time falls in [start, end]
+ *
+ * @param entries - Logbook entries, including a few hours after end
+ * @param readings - Glucose readings in mg/dL, sorted by time
+ * @param settings - IC ratio schedule (optional; ratios are null without it)
+ */
+export function analyzeMeals(
+  entries: LogbookEntry[],
+  readings: GlucoseReading[],
+  start: number,
+  end: number,
+  timeZone: string,
+  settings?: TherapySettings
+): MealImpact[] {
+  const timed = entries
+    .map(entry => ({ entry, time: new Date(entry.timestamp).getTime() }))
+    .sort((a, b) => a.time - b.time);
+  const mealTimes = timed.filter(t => (t.entry.carbs ?? 0) > 0).map(t => t.time);
+
+  const meals: MealImpact[] = [];
+  for (const { entry, time } of timed) {
+    if (!entry.carbs || entry.carbs <= 0 || time < start || time > end) {
+      continue;
+    }
+
+    // Insulin logged with or close to the meal
+    const nearby = timed.filter(t => Math.abs(t.time - time) <= BOLUS_WINDOW_MS);
+    const bolus = round1(nearby.reduce((sum, t) => sum + (t.entry.insulinBolus ?? 0), 0));
+    const correction = round1(nearby.reduce((sum, t) => sum + (t.entry.insulinCorrection ?? 0), 0));
+
+    // Pre-meal glucose: the entry's own reading, else the latest one before the meal
+    let preMeal = entry.glucose ?? null;
+    if (preMeal === null) {
+      const before = readings.filter(r => r.time <= time && r.time >= time - PRE_MEAL_WINDOW_MS);
+      preMeal = before[before.length - 1]?.glucose ?? null;
+    }
+
+    const peakReadings = readings.filter(r => r.time > time && r.time <= time + PEAK_WINDOW_MS);
+    const peakReading = peakReadings.length > 0
+      ? peakReadings.reduce((max, r) => (r.glucose > max.glucose ? r : max))
+      : undefined;
+
+    // Back to baseline: first reading after the peak within tolerance of pre-meal
+    let returnMinutes: number | null = null;
+    if (preMeal !== null && peakReading) {
+      const back = readings.find(r =>
+        r.time > peakReading.time && r.time <= time + RETURN_WINDOW_MS &&
+        r.glucose <= preMeal! + BASELINE_TOLERANCE);
+      if (back) {
+        returnMinutes = Math.round((back.time - time) / 60000);
+      }
+    }
+
+    const configuredRatio = settings ? icRatioForMeal(settings, entry.category, time, timeZone) : null;
+
+    meals.push({
+      time,
+      date: formatDateKey(new Date(time), timeZone),
+      category: entry.category || 'uncategorized',
+      carbs: entry.carbs,
+      bolus,
+      correction,
+      configuredRatio,
+      expectedBolus: configuredRatio ? round1(entry.carbs / configuredRatio) : null,
+      observedRatio: bolus > 0 ? round1(entry.carbs / bolus) : null,
+      preMeal,
+      after1h: glucoseAt(readings, time + HOUR_MS),
+      after2h: glucoseAt(readings, time + 2 * HOUR_MS),
+      after3h: glucoseAt(readings, time + 3 * HOUR_MS),
+      peak: peakReading?.glucose ?? null,
+      peakMinutes: peakReading ? Math.round((peakReading.time - time) / 60000) : null,
+      excursion: peakReading && preMeal !== null ? peakReading.glucose - preMeal : null,
+      returnMinutes,
+      overlapping: mealTimes.some(t => t > time + BOLUS_WINDOW_MS && t <= time + PEAK_WINDOW_MS)
+    });
+  }
+
+  return meals;
+}
+
+/**
+ * Aggregates meals per category (in order of first appearance), plus an
+ * "all meals" row when there is more than one category
+ */
+export function aggregateMeals(meals: MealImpact[]): MealImpactAggregate[] {
+  const groups = new Map<string, MealImpact[]>();
+  for (const meal of meals) {
+    const group = groups.get(meal.category) ?? [];
+    group.push(meal);
+    groups.set(meal.category, group);
+  }
+  if (groups.size > 1) {
+    groups.set('all meals', meals);
+  }
+
+  return [...groups.entries()].map(([category, group]) => {
+    const clean = group.filter(m => !m.overlapping);
+    const totalCarbs = group.reduce((sum, m) => sum + m.carbs, 0);
+    const totalBolus = group.reduce((sum, m) => sum + m.bolus, 0);
+    const withPeak = clean.filter(m => m.peak !== null && m.preMeal !== null);
+
+    return {
+      category,
+      meals: group.length,
+      cleanMeals: clean.length,
+      averageCarbs: Math.round(totalCarbs / group.length),
+      averageBolus: round1(totalBolus / group.length),
+      observedRatio: totalBolus > 0 ? round1(totalCarbs / totalBolus) : null,
+      configuredRatio: medianOf(group.map(m => m.configuredRatio), round1),
+      medianPreMeal: medianOf(clean.map(m => m.preMeal)),
+      median1h: medianOf(clean.map(m => m.after1h)),
+      median2h: medianOf(clean.map(m => m.after2h)),
+      median3h: medianOf(clean.map(m => m.after3h)),
+      medianPeak: medianOf(clean.map(m => m.peak)),
+      medianPeakMinutes: medianOf(clean.map(m => m.peakMinutes)),
+      medianExcursion: medianOf(clean.map(m => m.excursion)),
+      medianReturnMinutes: medianOf(clean.map(m => m.returnMinutes)),
+      returnedToBaseline: withPeak.length > 0
+        ? Math.round((withPeak.filter(m => m.returnMinutes !== null).length / withPeak.length) * 100)
+        : null
+    };
+  });
+}
@@ -0,0 +1,259 @@
+/**
+ * Overnight Analysis
+ *
+ * Looks at a fixed sleep window each night:
+ * - bedtime-to-wake delta
+ * - overnight nadir and when it occurred
+ * - rise from the early-morning nadir during the dawn window (03:00-08:00),
+ *   stopping at the first carbs so breakfast is not mistaken for dawn
+ * - corrections and carbs given during the night
+ * - nocturnal hypoglycemia
+ *
+ * Nights are keyed by their wake-up date. A dawn rise is only attributed
+ * to the dawn phenomenon when no carbs and no corrections were logged
+ * overnight and there was no hypo (a rebound is not dawn phenomenon);
+ * other nights are reported but left out of the verdict.
+ *
+ * All glucose values are in mg/dL.
+ */
+
+import { addDays, zonedTimeToUtc } from '../utils/timezone.js';
+import { GLUCOSE_THRESHOLDS, type GlucoseReading } from './glucose-statistics.js';
+import { percentile } from './agp.js';
+import { valueAt } from './variability.js';
+import type { LogbookEntry } from '../types/api.js';
+
+export interface OvernightOptions {
+  /** Bedtime, "HH:MM" (default: 23:00) */
+  sleepStart?: string;
+  /** Wake-up time, "HH:MM" (default: 07:00) */
+  sleepEnd?: string;
+  /** Start of the dawn window, "HH:MM" (default: 03:00) */
+  dawnStart?: string;
+  /** End of the dawn window, "HH:MM" (default: 08:00) */
+  dawnEnd?: string;
+}
+
+export interface NightAnalysis {
+  /** Wake-up date (YYYY-MM-DD) */
+  date: string;
+  /** Window start and end (Unix ms) */
+  start: number;
+  end: number;
+  readings: number;
+  bedtimeGlucose: number | null;
+  wakeGlucose: number | null;
+  /** wakeGlucose - bedtimeGlucose */
+  delta: number | null;
+  nadir: { glucose: number; time: number } | null;
+  /** Rise from the dawn-window nadir to the highest later reading */
+  dawnRise: number | null;
+  /** Whether the dawn rise reached DAWN_RISE_THRESHOLD */
+  dawnRiseDetected: boolean;
+  corrections: { time: number; units: number }[];
+  /** Carbs logged during the night (e.g. hypo treatment) */
+  carbs: number;
+  hypo: boolean;
+  /** Any reading below 54 mg/dL */
+  severeHypo: boolean;
+}
+
+export type DawnPhenomenonVerdict = 'likely' | 'possible' | 'unlikely' | 'insufficient data';
+
+export interface OvernightSummary {
+  nights: NightAnalysis[];
+  nightsWithData: number;
+  dawn: {
+    verdict: DawnPhenomenonVerdict;
+    /** Nights without carbs, corrections or hypo, with data in the dawn window */
+    eligibleNights: number;
+    nightsWithRise: number;
+    medianRise: number | null;
+  };
+  hypo: {
+    nights: number;
+    severeNights: number;
+    /** Percent of nights with data */
+    frequency: number;
+  };
+  /** Median absolute bedtime-to-wake delta */
+  medianAbsoluteDelta: number | null;
+  /** Nights with |delta| within STABLE_NIGHT_DELTA and no hypo */
+  stableNights: number;
+}
+
+/** Rise (mg/dL) from the dawn nadir counted as a dawn rise */
+export const DAWN_RISE_THRESHOLD = 20;
+
+/** Bedtime-to-wake delta (mg/dL) still considered a stable night */
+export const STABLE_NIGHT_DELTA = 30;
+
+/** Largest gap bridged when reading glucose at bedtime or wake-up */
+const MAX_INTERPOLATION_GAP_MS = 60 * 60 * 1000;
+
+/** Minimum eligible nights for a dawn phenomenon verdict */
+const MIN_DAWN_NIGHTS = 3;
+
+const minutesOf = (time: string) => {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Glucose closest to a point in time: interpolated, else the nearest
+ * reading within the interpolation gap
+ */
+function glucoseNear(readings: GlucoseReading[], time: number): number | null {
+  const interpolated = valueAt(readings, time, MAX_INTERPOLATION_GAP_MS);
+  if (interpolated !== undefined) {
+    return Math.round(interpolated);
+  }
+  let nearest: GlucoseReading | undefined;
+  for (const reading of readings) {
+    if (Math.abs(reading.time - time) <= MAX_INTERPOLATION_GAP_MS / 2 &&
+        (!nearest || Math.abs(reading.time - time) < Math.abs(nearest.time - time))) {
+      nearest = reading;
+    }
+  }
+  return nearest ? nearest.glucose : null;
+}
+
+/**
+ * Analyzes a single night
+ */
+function analyzeNight(
+  wakeDate: string,
+  entries: LogbookEntry[],
+  readings: GlucoseReading[],
+  timeZone: string,
+  options: Required<OvernightOptions>
+): NightAnalysis {
+  const sleepStartsBeforeMidnight = minutesOf(options.sleepStart) > minutesOf(options.sleepEnd);
+  const start = zonedTimeToUtc(sleepStartsBeforeMidnight ? addDays(wakeDate, -1) : wakeDate, timeZone, options.sleepStart);
+  const end = zonedTimeToUtc(wakeDate, timeZone, options.sleepEnd);
+
+  const nightReadings = readings.filter(r => r.time >= start && r.time <= end);
+  const nightEntries = entries.filter(e => {
+    const time = new Date(e.timestamp).getTime();
+    return time >= start && time <= end;
+  });
+
+  const bedtimeGlucose = glucoseNear(readings, start);
+  const wakeGlucose = glucoseNear(readings, end);
+
+  const nadirReading = nightReadings.reduce<GlucoseReading | undefined>(
+    (min, r) => (!min || r.glucose < min.glucose ? r : min), undefined
+  );
+
+  // Dawn window, cut short at the first carbs
+  const dawnStart = zonedTimeToUtc(wakeDate, timeZone, options.dawnStart);
+  let dawnEnd = zonedTimeToUtc(wakeDate, timeZone, options.dawnEnd);
+  for (const entry of entries) {
+    const time = new Date(entry.timestamp).getTime();
+    if (entry.carbs && entry.carbs > 0 && time > dawnStart && time < dawnEnd) {
+      dawnEnd = time;
+    }
+  }
+  const dawnReadings = readings.filter(r => r.time >= dawnStart && r.time <= dawnEnd);
+
+  let dawnRise: number | null = null;
+  if (dawnReadings.length >= 2) {
+    // Largest rise from a reading to any later one
+    let lowest = dawnReadings[0]!.glucose;
+    dawnRise = 0;
+    for (const reading of dawnReadings) {
+      lowest = Math.min(lowest, reading.glucose);
+      dawnRise = Math.max(dawnRise, reading.glucose - lowest);
+    }
+    dawnRise = Math.round(dawnRise);
+  }
+
+  const corrections = nightEntries
+    .filter(e => (e.insulinCorrection ?? 0) > 0 || ((e.insulinBolus ?? 0) > 0 && !e.carbs))
+    .map(e => ({
+      time: new Date(e.timestamp).getTime(),
+      units: (e.insulinCorrection ?? 0) + (e.carbs ? 0 : e.insulinBolus ?? 0)
+    }));
+
+  return {
+    date: wakeDate,
+    start,
+    end,
+    readings: nightReadings.length,
+    bedtimeGlucose,
+    wakeGlucose,
+    delta: bedtimeGlucose !== null && wakeGlucose !== null ? wakeGlucose - bedtimeGlucose : null,
+    nadir: nadirReading ? { glucose: nadirReading.glucose, time: nadirReading.time } : null,
+    dawnRise,
+    dawnRiseDetected: dawnRise !== null && dawnRise >= DAWN_RISE_THRESHOLD,
+    corrections,
+    carbs: nightEntries.reduce((sum, e) => sum + (e.carbs ?? 0), 0),
+    hypo: nightReadings.some(r => r.glucose < GLUCOSE_THRESHOLDS.LOW),
+    severeHypo: nightReadings.some(r => r.glucose < GLUCOSE_THRESHOLDS.VERY_LOW)
+  };
+}
+
+/**
+ * Analyzes every night whose wake-up date falls in [fromDate, toDate]
+ *
+ * @param entries - Logbook entries covering the nights (from the evening before fromDate)
+ * @param readings - Glucose readings in mg/dL, sorted by time
+ */
+export function analyzeOvernight(
+  entries: LogbookEntry[],
+  readings: GlucoseReading[],
+  fromDate: string,
+  toDate: string,
+  timeZone: string,
+  options: OvernightOptions = {}
+): OvernightSummary {
+  const resolved: Required<OvernightOptions> = {
+    sleepStart: options.sleepStart ?? '23:00',
+    sleepEnd: options.sleepEnd ?? '07:00',
+    dawnStart: options.dawnStart ?? '03:00',
+    dawnEnd: options.dawnEnd ?? '08:00'
+  };
+
+  const nights: NightAnalysis[] = [];
+  for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+    nights.push(analyzeNight(date, entries, readings, timeZone, resolved));
+  }
+
+  const withData = nights.filter(n => n.readings > 0);
+
+  // Dawn phenomenon: only nights without food, corrections or hypo rebound
+  const eligible = withData.filter(n =>
+    n.dawnRise !== null && n.carbs === 0 && n.corrections.length === 0 && !n.hypo);
+  const rising = eligible.filter(n => n.dawnRiseDetected);
+  const riseShare = eligible.length > 0 ? rising.length / eligible.length : 0;
+  let verdict: DawnPhenomenonVerdict;
+  if (eligible.length < MIN_DAWN_NIGHTS) verdict = 'insufficient data';
+  else if (riseShare >= 0.5) verdict = 'likely';
+  else if (riseShare >= 0.25) verdict = 'possible';
+  else verdict = 'unlikely';
+
+  const sortedRises = eligible.map(n => n.dawnRise!).sort((a, b) => a - b);
+  const absoluteDeltas = withData
+    .filter(n => n.delta !== null)
+    .map(n => Math.abs(n.delta!))
+    .sort((a, b) => a - b);
+  const hypoNights = withData.filter(n => n.hypo).length;
+
+  return {
+    nights,
+    nightsWithData: withData.length,
+    dawn: {
+      verdict,
+      eligibleNights: eligible.length,
+      nightsWithRise: rising.length,
+      medianRise: sortedRises.length > 0 ? Math.round(percentile(sortedRises, 50)) : null
+    },
+    hypo: {
+      nights: hypoNights,
+      severeNights: withData.filter(n => n.severeHypo).length,
+      frequency: withData.length > 0 ? Math.round((hypoNights / withData.length) * 100) : 0
+    },
+    medianAbsoluteDelta: absoluteDeltas.length > 0 ? Math.round(percentile(absoluteDeltas, 50)) : null,
+    stableNights: withData.filter(n => n.delta !== null && Math.abs(n.delta) <= STABLE_NIGHT_DELTA && !n.hypo).length
+  };
+}
@@ -0,0 +1,374 @@
+/**
+ * Recurring Pattern Detection
+ *
+ * Scans the readings and meals of a period for habits that repeat across
+ * days:
+ * - recurring lows / highs in the same time-of-day window
+ * - post-meal spikes per meal category
+ * - day-of-week effects on average glucose
+ *
+ * Each pattern reports how often it occurred out of how many chances
+ * (days with data in the window, meals with readings, or weekdays), a
+ * confidence level from that rate and sample size, and example dates.
+ * Days and times of day are taken in the given IANA timezone.
+ *
+ * All glucose values are in mg/dL.
+ */
+
+import { formatDateKey, getZonedParts } from '../utils/timezone.js';
+import { formatMinuteOfDay, percentile } from './agp.js';
+import { GLUCOSE_THRESHOLDS, type GlucoseReading } from './glucose-statistics.js';
+import type { LogbookEntry } from '../types/api.js';
+
+export type PatternType = 'recurring_low' | 'recurring_high' | 'post_meal_spike' | 'day_of_week';
+
+export type PatternConfidence = 'low' | 'medium' | 'high';
+
+export interface DetectedPattern {
+  type: PatternType;
+  /** Time-of-day window, "02:00-04:00" (lows, highs, meal times) */
+  timeWindow?: string;
+  /** Median time of day of the events, "03:10" */
+  typicalTime?: string;
+  /** Meal category (post-meal spikes) */
+  category?: string;
+  /** Day of the week (day-of-week effects) */
+  weekday?: string;
+  occurrences: number;
+  /** Days or meals that could have shown the pattern */
+  opportunities: number;
+  /** occurrences / opportunities, in percent */
+  rate: number;
+  confidence: PatternConfidence;
+  /**
+   * Typical glucose (mg/dL): median nadir (lows), median peak (highs and
+   * spikes) or average glucose on that weekday
+   */
+  typicalValue: number;
+  /** Median rise from pre-meal glucose to peak (spikes, mg/dL) */
+  typicalRise?: number;
+  /** Median minutes from meal to peak (spikes) */
+  peakDelayMinutes?: number;
+  /** Spike rate on weekdays and weekends, in percent (spikes) */
+  weekdayRate?: number;
+  weekendRate?: number;
+  /** Weekday average minus overall average (day-of-week, mg/dL) */
+  differenceFromAverage?: number;
+  /** Most recent dates with the pattern (YYYY-MM-DD) */
+  exampleDates: string[];
+}
+
+export interface PatternOptions {
+  /** Readings below this count as lows (default: 70 mg/dL) */
+  lowThreshold?: number;
+  /** Readings above this count as highs (default: 180 mg/dL) */
+  highThreshold?: number;
+  /** Minimum occurrences for a pattern (default: 3) */
+  minOccurrences?: number;
+  /** Width of the time-of-day windows for lows and highs (default: 2 hours) */
+  windowHours?: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Minimum share of opportunities for a pattern to be reported */
+const MIN_RATE = 0.25;
+
+/** Post-meal window searched for the peak */
+const POST_MEAL_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+/** Pre-meal glucose is taken up to this long before the meal */
+const PRE_MEAL_WINDOW_MS = 30 * 60 * 1000;
+
+/** A post-meal rise at least this large (with a peak above the high threshold) is a spike */
+const MIN_SPIKE_RISE = 50;
+
+/** Weekday average must differ from the overall average by at least this much */
+const MIN_WEEKDAY_DIFFERENCE = 15;
+
+const MAX_EXAMPLE_DATES = 5;
+
+interface ZonedReading extends GlucoseReading {
+  date: string;
+  minuteOfDay: number;
+  weekday: number;
+}
+
+const median = (values: number[]) => percentile([...values].sort((a, b) => a - b), 50);
+
+/**
+ * Confidence from the rate and the number of occurrences
+ */
+function rateConfidence(occurrences: number, opportunities: number): PatternConfidence {
+  const rate = opportunities > 0 ? occurrences / opportunities : 0;
+  if (rate >= 0.5 && occurrences >= 5) return 'high';
+  if (rate >= 0.33 && occurrences >= 3) return 'medium';
+  return 'low';
+}
+
+/**
+ * Most recent dates first, capped at MAX_EXAMPLE_DATES
+ */
+function exampleDates(dates: Iterable<string>): string[] {
+  return [...new Set(dates)].sort().reverse().slice(0, MAX_EXAMPLE_DATES);
+}
+
+/**
+ * Finds time-of-day windows where lows (or highs) recur on many days
+ * Adjacent flagged windows are merged into one pattern
+ */
+function detectRecurringExcursions(
+  readings: ZonedReading[],
+  type: 'recurring_low' | 'recurring_high',
+  threshold: number,
+  windowMinutes: number,
+  minOccurrences: number
+): DetectedPattern[] {
+  const windowCount = Math.floor(1440 / windowMinutes);
+  const isEvent = (glucose: number) => (type === 'recurring_low' ? glucose < threshold : glucose > threshold);
+
+  // Per window: days with data, and the most extreme event reading per day
+  const daysWithData = Array.from({ length: windowCount }, () => new Set<string>());
+  const events = Array.from({ length: windowCount }, () => new Map<string, ZonedReading>());
+
+  for (const reading of readings) {
+    const window = Math.min(Math.floor(reading.minuteOfDay / windowMinutes), windowCount - 1);
+    daysWithData[window]!.add(reading.date);
+    if (!isEvent(reading.glucose)) {
+      continue;
+    }
+    const current = events[window]!.get(reading.date);
+    const moreExtreme = !current ||
+      (type === 'recurring_low' ? reading.glucose < current.glucose : reading.glucose > current.glucose);
+    if (moreExtreme) {
+      events[window]!.set(reading.date, reading);
+    }
+  }
+
+  const flagged = events.map((windowEvents, i) =>
+    windowEvents.size >= minOccurrences && windowEvents.size / daysWithData[i]!.size >= MIN_RATE);
+
+  // Merge runs of adjacent flagged windows
+  const patterns: DetectedPattern[] = [];
+  for (let start = 0; start < windowCount; start++) {
+    if (!flagged[start] || (start > 0 && flagged[start - 1])) {
+      continue;
+    }
+    let end = start;
+    while (end + 1 < windowCount && flagged[end + 1]) {
+      end++;
+    }
+
+    const dayEvents = new Map<string, ZonedReading>();
+    const dayData = new Set<string>();
+    for (let w = start; w <= end; w++) {
+      daysWithData[w]!.forEach(date => dayData.add(date));
+      for (const [date, reading] of events[w]!) {
+        const current = dayEvents.get(date);
+        if (!current || (type === 'recurring_low' ? reading.glucose < current.glucose : reading.glucose > current.glucose)) {
+          dayEvents.set(date, reading);
+        }
+      }
+    }
+
+    const eventReadings = [...dayEvents.values()];
+    patterns.push({
+      type,
+      timeWindow: `${formatMinuteOfDay(start * windowMinutes)}-${formatMinuteOfDay((end + 1) * windowMinutes)}`,
+      typicalTime: formatMinuteOfDay(Math.round(median(eventReadings.map(r => r.minuteOfDay)))),
+      occurrences: dayEvents.size,
+      opportunities: dayData.size,
+      rate: Math.round((dayEvents.size / dayData.size) * 100),
+      confidence: rateConfidence(dayEvents.size, dayData.size),
+      typicalValue: Math.round(median(eventReadings.map(r => r.glucose))),
+      exampleDates: exampleDates(dayEvents.keys())
+    });
+  }
+
+  return patterns;
+}
+
+/**
+ * Finds meal categories that are regularly followed by a spike
+ */
+function detectPostMealSpikes(
+  entries: LogbookEntry[],
+  readings: ZonedReading[],
+  highThreshold: number,
+  minOccurrences: number,
+  timeZone: string
+): DetectedPattern[] {
+  interface MealOutcome {
+    date: string;
+    minuteOfDay: number;
+    weekend: boolean;
+    spike: boolean;
+    peak: number;
+    rise: number;
+    delayMinutes: number;
+  }
+
+  const byCategory = new Map<string, MealOutcome[]>();
+
+  for (const entry of entries) {
+    if (!entry.carbs || entry.carbs <= 0) {
+      continue;
+    }
+    const mealTime = new Date(entry.timestamp).getTime();
+
+    // Pre-meal glucose: the entry's own reading, else the latest one before the meal
+    let pre = entry.glucose;
+    if (pre === undefined) {
+      const before = readings.filter(r => r.time <= mealTime && r.time >= mealTime - PRE_MEAL_WINDOW_MS);
+      pre = before[before.length - 1]?.glucose;
+    }
+    const after = readings.filter(r => r.time > mealTime && r.time <= mealTime + POST_MEAL_WINDOW_MS);
+    if (pre === undefined || after.length === 0) {
+      continue;
+    }
+
+    const peak = after.reduce((max, r) => (r.glucose > max.glucose ? r : max));
+    const parts = getZonedParts(new Date(mealTime), timeZone);
+    const outcome: MealOutcome = {
+      date: formatDateKey(new Date(mealTime), timeZone),
+      minuteOfDay: parts.hour * 60 + parts.minute,
+      weekend: parts.weekday === 0 || parts.weekday === 6,
+      spike: peak.glucose > highThreshold && peak.glucose - pre >= MIN_SPIKE_RISE,
+      peak: peak.glucose,
+      rise: peak.glucose - pre,
+      delayMinutes: Math.round((peak.time - mealTime) / 60000)
+    };
+
+    const category = entry.category || 'uncategorized';
+    const outcomes = byCategory.get(category) ?? [];
+    outcomes.push(outcome);
+    byCategory.set(category, outcomes);
+  }
+
+  const patterns: DetectedPattern[] = [];
+  for (const [category, outcomes] of byCategory) {
+    const spikes = outcomes.filter(o => o.spike);
+    if (spikes.length < minOccurrences || spikes.length / outcomes.length < MIN_RATE) {
+      continue;
+    }
+
+    const rateOf = (subset: MealOutcome[]) => subset.length > 0
+      ? Math.round((subset.filter(o => o.spike).length / subset.length) * 100)
+      : undefined;
+    const mealTimes = spikes.map(o => o.minuteOfDay).sort((a, b) => a - b);
+    const windowStart = formatMinuteOfDay(Math.round(percentile(mealTimes, 25)));
+    const windowEnd = formatMinuteOfDay(Math.round(percentile(mealTimes, 75)));
+
+    patterns.push({
+      type: 'post_meal_spike',
+      category,
+      timeWindow: windowStart === windowEnd ? windowStart : `${windowStart}-${windowEnd}`,
+      typicalTime: formatMinuteOfDay(Math.round(percentile(mealTimes, 50))),
+      occurrences: spikes.length,
+      opportunities: outcomes.length,
+      rate: Math.round((spikes.length / outcomes.length) * 100),
+      confidence: rateConfidence(spikes.length, outcomes.length),
+      typicalValue: Math.round(median(spikes.map(o => o.peak))),
+      typicalRise: Math.round(median(spikes.map(o => o.rise))),
+      peakDelayMinutes: Math.round(median(spikes.map(o => o.delayMinutes))),
+      weekdayRate: rateOf(outcomes.filter(o => !o.weekend)),
+      weekendRate: rateOf(outcomes.filter(o => o.weekend)),
+      exampleDates: exampleDates(spikes.map(o => o.date))
+    });
+  }
+
+  return patterns;
+}
+
+/**
+ * Finds weekdays whose average glucose differs from the overall average
+ * Occurrences are the days of that weekday on the same side of the average
+ */
+function detectDayOfWeekEffects(readings: ZonedReading[], minOccurrences: number): DetectedPattern[] {
+  if (readings.length === 0) {
+    return [];
+  }
+
+  const overall = readings.reduce((acc, r) => acc + r.glucose, 0) / readings.length;
+
+  // Daily averages grouped by weekday
+  const days = new Map<string, { weekday: number; sum: number; count: number }>();
+  for (const reading of readings) {
+    const day = days.get(reading.date) ?? { weekday: reading.weekday, sum: 0, count: 0 };
+    day.sum += reading.glucose;
+    day.count++;
+    days.set(reading.date, day);
+  }
+
+  const patterns: DetectedPattern[] = [];
+  for (let weekday = 0; weekday < 7; weekday++) {
+    const weekdayDays = [...days.entries()].filter(([, day]) => day.weekday === weekday);
+    const weekdayReadings = readings.filter(r => r.weekday === weekday);
+    if (weekdayDays.length < minOccurrences || weekdayReadings.length === 0) {
+      continue;
+    }
+
+    const average = weekdayReadings.reduce((acc, r) => acc + r.glucose, 0) / weekdayReadings.length;
+    const difference = average - overall;
+    if (Math.abs(difference) < MIN_WEEKDAY_DIFFERENCE) {
+      continue;
+    }
+
+    const sameSide = weekdayDays.filter(([, day]) => (day.sum / day.count - overall) * difference > 0);
+    if (sameSide.length < minOccurrences) {
+      continue;
+    }
+
+    patterns.push({
+      type: 'day_of_week',
+      weekday: WEEKDAYS[weekday],
+      occurrences: sameSide.length,
+      opportunities: weekdayDays.length,
+      rate: Math.round((sameSide.length / weekdayDays.length) * 100),
+      confidence: rateConfidence(sameSide.length, weekdayDays.length),
+      typicalValue: Math.round(average),
+      differenceFromAverage: Math.round(difference),
+      exampleDates: exampleDates(sameSide.map(([date]) => date))
+    });
+  }
+
+  return patterns;
+}
+
+/**
+ * Detects recurring patterns in a period
+ *
+ * @param entries - Logbook entries (for meals and their categories)
+ * @param readings - Glucose readings in mg/dL, sorted by time
+ * @param timeZone - IANA timezone for days and times of day
+ */
+export function detectPatterns(
+  entries: LogbookEntry[],
+  readings: GlucoseReading[],
+  timeZone: string,
+  options: PatternOptions = {}
+): DetectedPattern[] {
+  const lowThreshold = options.lowThreshold ?? GLUCOSE_THRESHOLDS.LOW;
+  const highThreshold = options.highThreshold ?? GLUCOSE_THRESHOLDS.HIGH;
+  const minOccurrences = options.minOccurrences ?? 3;
+  const windowMinutes = (options.windowHours ?? 2) * 60;
+
+  const zoned: ZonedReading[] = readings.map(reading => {
+    const parts = getZonedParts(new Date(reading.time), timeZone);
+    return {
+      ...reading,
+      date: `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`,
+      minuteOfDay: parts.hour * 60 + parts.minute,
+      weekday: parts.weekday
+    };
+  });
+
+  const confidenceRank: Record<PatternConfidence, number> = { high: 0, medium: 1, low: 2 };
+
+  return [
+    ...detectRecurringExcursions(zoned, 'recurring_low', lowThreshold, windowMinutes, minOccurrences),
+    ...detectRecurringExcursions(zoned, 'recurring_high', highThreshold, windowMinutes, minOccurrences),
+    ...detectPostMealSpikes(entries, zoned, highThreshold, minOccurrences, timeZone),
+    ...detectDayOfWeekEffects(zoned, minOccurrences)
+  ].sort((a, b) => confidenceRank[a.confidence] - confidenceRank[b.confidence] || b.rate - a.rate);
+}
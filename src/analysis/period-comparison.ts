@@ -0,0 +1,188 @@
+/**
+ * Period-over-period Comparison
+ *
+ * Computes the same metric set for two periods and labels each change:
+ * - TIR, TBR (below 70, both levels), mean glucose and CV from the
+ *   readings (sensor readings when available, as in the consensus metrics)
+ * - TDD and carbs per day, averaged over the days with insulin or carbs
+ *   logged so unlogged days do not drag the averages down
+ * - hypo episodes: runs of readings below 70 mg/dL, normalized per week
+ *   so periods of different length compare fairly
+ *
+ * A change within the metric's stable band is "stable"; beyond it the
+ * label follows the better direction of the metric. TDD and carbs have
+ * no better direction and are labeled "changed".
+ *
+ * All glucose values are in mg/dL.
+ */
+
+import { GLUCOSE_THRESHOLDS, preferSensorReadings, type GlucoseReading } from './glucose-statistics.js';
+import { computeConsensusMetrics } from './consensus-metrics.js';
+import type { LogbookEntry } from '../types/api.js';
+
+export type ComparedMetric = 'tir' | 'tbr' | 'mean' | 'cv' | 'tdd' | 'carbs' | 'hypos';
+
+export type TrendLabel = 'improving' | 'stable' | 'worsening' | 'changed' | 'insufficient data';
+
+export interface PeriodMetrics {
+  /** Calendar days in the period (up to now, a started day counts) */
+  days: number;
+  readings: number;
+  basis: 'sensor' | 'all readings' | null;
+  /** Percent of readings in 70-180 mg/dL */
+  tir: number | null;
+  /** Percent of readings below 70 mg/dL */
+  tbr: number | null;
+  mean: number | null;
+  /** Coefficient of variation, percent */
+  cv: number | null;
+  /** Total daily insulin dose, units per day with insulin logged */
+  tdd: number | null;
+  /** Grams per day with carbs logged */
+  carbs: number | null;
+  hypoEpisodes: number;
+  /** Hypo episodes per 7 days */
+  hypos: number;
+}
+
+export interface MetricComparison {
+  metric: ComparedMetric;
+  previous: number | null;
+  current: number | null;
+  /** current - previous */
+  delta: number | null;
+  /** Delta as a percent of the previous value */
+  relativeDelta: number | null;
+  label: TrendLabel;
+}
+
+/**
+ * Which direction is better and how large a change stays "stable"
+ * (absolute in the metric's own unit, or percent of the previous value)
+ */
+export const COMPARISON_THRESHOLDS: Record<ComparedMetric, {
+  better: 'higher' | 'lower' | null;
+  stableWithin: number;
+  relative: boolean;
+}> = {
+  // 5 points of TIR is the change the consensus considers clinically meaningful
+  tir: { better: 'higher', stableWithin: 5, relative: false },
+  tbr: { better: 'lower', stableWithin: 1, relative: false },
+  mean: { better: 'lower', stableWithin: 10, relative: false },
+  cv: { better: 'lower', stableWithin: 2, relative: false },
+  tdd: { better: null, stableWithin: 10, relative: true },
+  carbs: { better: null, stableWithin: 15, relative: true },
+  hypos: { better: 'lower', stableWithin: 1, relative: false }
+};
+
+/** A low reading this long after the previous one starts a new episode */
+const EPISODE_GAP_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Counts hypo episodes: runs of readings below 70 mg/dL, ended by a
+ * reading at or above 70 or by a gap of more than an hour
+ */
+export function countHypoEpisodes(readings: GlucoseReading[]): number {
+  let episodes = 0;
+  let lastLow: number | null = null;
+  for (const reading of readings) {
+    if (reading.glucose < GLUCOSE_THRESHOLDS.LOW) {
+      if (lastLow === null || reading.time - lastLow > EPISODE_GAP_MS) {
+        episodes++;
+      }
+      lastLow = reading.time;
+    } else {
+      lastLow = null;
+    }
+  }
+  return episodes;
+}
+
+/**
+ * Computes the compared metrics for [start, end]
+ *
+ * @param entries - Logbook entries of the period
+ * @param readings - Glucose readings in mg/dL of the period, sorted by time
+ * @param dayKey - Calendar day of a timestamp, to average per logged day
+ */
+export function computePeriodMetrics(
+  entries: LogbookEntry[],
+  readings: GlucoseReading[],
+  start: number,
+  end: number,
+  dayKey: (time: number) => string
+): PeriodMetrics {
+  const elapsedDays = Math.max(1, (end - start) / DAY_MS);
+  const consensus = computeConsensusMetrics(readings, start, end);
+  const { readings: used } = preferSensorReadings(readings);
+
+  const insulinDays = new Set<string>();
+  const carbDays = new Set<string>();
+  let insulin = 0;
+  let carbs = 0;
+  for (const entry of entries) {
+    const time = new Date(entry.timestamp).getTime();
+    const dose = (entry.insulinBolus ?? 0) + (entry.insulinCorrection ?? 0) + (entry.insulinBasal ?? 0);
+    if (dose > 0) {
+      insulin += dose;
+      insulinDays.add(dayKey(time));
+    }
+    if ((entry.carbs ?? 0) > 0) {
+      carbs += entry.carbs!;
+      carbDays.add(dayKey(time));
+    }
+  }
+
+  const hypoEpisodes = countHypoEpisodes(used);
+
+  return {
+    days: Math.ceil(elapsedDays),
+    readings: used.length,
+    basis: consensus?.basis ?? null,
+    tir: consensus ? consensus.timeInRange.value : null,
+    tbr: consensus ? round1(consensus.timeBelowRangeLevel1.value + consensus.timeBelowRangeLevel2.value) : null,
+    mean: used.length > 0 ? Math.round(used.reduce((sum, r) => sum + r.glucose, 0) / used.length) : null,
+    cv: consensus ? consensus.coefficientOfVariation.value : null,
+    tdd: insulinDays.size > 0 ? round1(insulin / insulinDays.size) : null,
+    carbs: carbDays.size > 0 ? Math.round(carbs / carbDays.size) : null,
+    hypoEpisodes,
+    hypos: round1((hypoEpisodes / elapsedDays) * 7)
+  };
+}
+
+/**
+ * Labels one change against the metric's threshold
+ */
+function labelChange(metric: ComparedMetric, delta: number, relativeDelta: number | null): TrendLabel {
+  const { better, stableWithin, relative } = COMPARISON_THRESHOLDS[metric];
+  const size = relative ? relativeDelta : delta;
+  if (size === null || Math.abs(size) < stableWithin) {
+    return 'stable';
+  }
+  if (better === null) {
+    return 'changed';
+  }
+  return (delta > 0) === (better === 'higher') ? 'improving' : 'worsening';
+}
+
+/**
+ * Compares every metric of the current period with the previous one
+ */
+export function comparePeriodMetrics(previous: PeriodMetrics, current: PeriodMetrics): MetricComparison[] {
+  const metrics: ComparedMetric[] = ['tir', 'tbr', 'mean', 'cv', 'tdd', 'carbs', 'hypos'];
+
+  return metrics.map(metric => {
+    const before = previous[metric];
+    const after = current[metric];
+    if (before === null || after === null) {
+      return { metric, previous: before, current: after, delta: null, relativeDelta: null, label: 'insufficient data' };
+    }
+    const delta = round1(after - before);
+    const relativeDelta = before !== 0 ? Math.round(((after - before) / before) * 100) : null;
+    return { metric, previous: before, current: after, delta, relativeDelta, label: labelChange(metric, delta, relativeDelta) };
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Therapy Schedule Lookup
+ *
+ * Diabetes:M stores IC ratios and ISF as 48 half-hour slots. Profiles
+ * usually fill only the slots where a value starts (breakfast at index 0,
+ * lunch at 22, dinner at 36) and leave the rest at 0, so a slot without a
+ * value inherits the last value set before it, wrapping around midnight.
+ */
+
+import { getZonedParts } from '../utils/timezone.js';
+import type { TherapySettings } from '../types/api.js';
+
+export const SLOTS_PER_DAY = 48;
+
+/**
+ * Meal-specific indices in the 48-element arrays
+ *
+ * Diabetes:M stores the meal-type settings at these indices; they match
+ * typical meal times when read as 30-minute intervals.
+ */
+export const MEAL_INDICES = {
+  breakfast: 0,   // 00:00
+  lunch: 22,      // 11:00
+  dinner: 36      // 18:00
+} as const;
+
+/**
+ * Half-hour slot (0-47) of an instant in the given timezone
+ */
+export function slotIndexAt(time: number, timeZone: string): number {
+  const parts = getZonedParts(new Date(time), timeZone);
+  return parts.hour * 2 + (parts.minute >= 30 ? 1 : 0);
+}
+
+/**
+ * Formats a slot as "HH:MM-HH:MM"
+ */
+export function formatSlot(index: number): string {
+  const clock = (slot: number) =>
+    `${String(Math.floor(slot / 2) % 24).padStart(2, '0')}:${slot % 2 === 0 ? '00' : '30'}`;
+  return `${clock(index)}-${clock(index + 1)}`;
+}
+
+/**
+ * Value in effect at a slot: the slot itself, else the last value set
+ * before it (wrapping around midnight), else the default
+ */
+export function scheduleValueAt(values: number[], index: number, defaultValue?: number): number | null {
+  if (values.length === SLOTS_PER_DAY) {
+    for (let step = 0; step < SLOTS_PER_DAY; step++) {
+      const value = values[(index - step + SLOTS_PER_DAY) % SLOTS_PER_DAY]!;
+      if (value > 0) {
+        return value;
+      }
+    }
+  }
+  return defaultValue !== undefined && defaultValue > 0 ? defaultValue : null;
+}
+
+/**
+ * IC ratio (g/u) configured for a meal: the meal-type setting for
+ * breakfast, lunch and dinner entries, otherwise the slot at the meal time
+ */
+export function icRatioForMeal(
+  settings: TherapySettings,
+  category: string | undefined,
+  time: number,
+  timeZone: string
+): number | null {
+  const mealIndex = category && category in MEAL_INDICES
+    ? MEAL_INDICES[category as keyof typeof MEAL_INDICES]
+    : undefined;
+  const index = mealIndex ?? slotIndexAt(time, timeZone);
+  return scheduleValueAt(settings.icRatioPerSlot, index, settings.icRatioDefault);
+}
+
+/**
+ * ISF (mg/dL per unit) in effect at a point in time
+ */
+export function isfAt(settings: TherapySettings, time: number, timeZone: string): number | null {
+  return scheduleValueAt(settings.isfPerSlot, slotIndexAt(time, timeZone), settings.isfDefault);
+}
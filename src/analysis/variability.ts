@@ -0,0 +1,327 @@
+/**
+ * Glycemic Variability Indices
+ *
+ * Computes variability indices from timestamped readings:
+ * - MAGE: mean amplitude of glycemic excursions larger than 1 SD
+ *   (Service et al., 1970; turning points eliminated as in Baghurst, 2011)
+ * - CONGA-n: SD of the differences between each reading and the value
+ *   n hours earlier (McDonnell et al., 2005)
+ * - MODD: mean absolute difference between readings 24 hours apart
+ *   (Molnar et al., 1972)
+ * - J-index: 0.001 x (mean + SD)^2 in mg/dL (Wojcicki, 1995)
+ * - LBGI/HBGI: Kovatchev low/high blood glucose risk indices
+ *
+ * Sampling may be irregular: values at "n hours earlier" are linearly
+ * interpolated between the surrounding readings, and nothing is
+ * interpolated or traced across gaps longer than maxGapMinutes (sensor
+ * off, signal loss, fingerstick-only periods).
+ *
+ * All glucose values are in mg/dL.
+ */
+
+import type { GlucoseReading } from './glucose-statistics.js';
+
+/** Default largest gap between readings treated as continuous data */
+export const DEFAULT_MAX_GAP_MINUTES = 30;
+
+export interface MageResult {
+  /** Mean of all counted excursions (mg/dL) */
+  value: number;
+  /** Mean of rising excursions (mg/dL), null if none */
+  magePlus: number | null;
+  /** Mean of falling excursions (mg/dL), null if none */
+  mageMinus: number | null;
+  excursions: number;
+}
+
+export interface VariabilityIndices {
+  readingsUsed: number;
+  /** Stretches of continuous data (split at gaps longer than maxGapMinutes) */
+  segments: number;
+  maxGapMinutes: number;
+  mean: number;
+  standardDeviation: number;
+  /** null when no excursion can be traced (e.g. sparse fingerstick data) */
+  mage: MageResult | null;
+  conga: { hours: number; value: number; pairs: number } | null;
+  modd: { value: number; pairs: number } | null;
+  jIndex: number;
+  lbgi: number;
+  hbgi: number;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Standard deviation of a list of values (sample SD)
+ */
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * Splits time-sorted readings into runs without gaps longer than maxGapMs
+ */
+export function splitAtGaps(readings: GlucoseReading[], maxGapMs: number): GlucoseReading[][] {
+  const segments: GlucoseReading[][] = [];
+  let current: GlucoseReading[] = [];
+
+  for (const reading of readings) {
+    const previous = current[current.length - 1];
+    if (previous && reading.time - previous.time > maxGapMs) {
+      segments.push(current);
+      current = [];
+    }
+    current.push(reading);
+  }
+  if (current.length > 0) {
+    segments.push(current);
+  }
+
+  return segments;
+}
+
+/**
+ * Glucose at a point in time, interpolated between the surrounding readings
+ * Returns undefined when the surrounding readings are further apart than maxGapMs
+ */
+export function valueAt(readings: GlucoseReading[], time: number, maxGapMs: number): number | undefined {
+  // Binary search for the first reading at or after time
+  let low = 0;
+  let high = readings.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (readings[mid]!.time < time) low = mid + 1;
+    else high = mid;
+  }
+
+  const after = readings[low];
+  if (after && after.time === time) {
+    return after.glucose;
+  }
+  const before = readings[low - 1];
+  if (!before || !after || after.time - before.time > maxGapMs) {
+    return undefined;
+  }
+
+  const fraction = (time - before.time) / (after.time - before.time);
+  return before.glucose + (after.glucose - before.glucose) * fraction;
+}
+
+/**
+ * Reduces a series to its alternating peaks and nadirs
+ */
+function toTurningPoints(values: number[]): number[] {
+  const points: number[] = [];
+
+  for (const value of values) {
+    const last = points[points.length - 1];
+    if (last === undefined) {
+      points.push(value);
+      continue;
+    }
+    if (value === last) {
+      continue;
+    }
+    const beforeLast = points[points.length - 2];
+    // Same direction as the previous step: extend it instead of adding a point
+    if (beforeLast !== undefined && (last - beforeLast) * (value - last) > 0) {
+      points[points.length - 1] = value;
+    } else {
+      points.push(value);
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Removes swings smaller than the threshold, smallest first, keeping the
+ * remaining points alternating
+ */
+function eliminateSmallSwings(points: number[], threshold: number): number[] {
+  let current = points;
+
+  for (;;) {
+    let smallest = -1;
+    let smallestSwing = Infinity;
+    for (let i = 0; i < current.length - 1; i++) {
+      const swing = Math.abs(current[i + 1]! - current[i]!);
+      if (swing < threshold && swing < smallestSwing) {
+        smallest = i;
+        smallestSwing = swing;
+      }
+    }
+    if (smallest < 0) {
+      return current;
+    }
+
+    // A swing at either end loses only its outer point; an interior swing
+    // loses both of its points
+    const next = [...current];
+    if (smallest === 0) {
+      next.splice(0, 1);
+    } else if (smallest + 1 === current.length - 1) {
+      next.splice(smallest + 1, 1);
+    } else {
+      next.splice(smallest, 2);
+    }
+    current = toTurningPoints(next);
+  }
+}
+
+/**
+ * Mean amplitude of glycemic excursions larger than 1 SD, traced within
+ * each continuous segment
+ */
+function computeMage(segments: GlucoseReading[][], sd: number): MageResult | null {
+  const rises: number[] = [];
+  const falls: number[] = [];
+
+  if (sd <= 0) {
+    return null;
+  }
+
+  for (const segment of segments) {
+    const points = eliminateSmallSwings(toTurningPoints(segment.map(r => r.glucose)), sd);
+    for (let i = 1; i < points.length; i++) {
+      const swing = points[i]! - points[i - 1]!;
+      if (swing > 0) rises.push(swing);
+      else falls.push(-swing);
+    }
+  }
+
+  const all = [...rises, ...falls];
+  if (all.length === 0) {
+    return null;
+  }
+
+  const mean = (values: number[]) => values.length > 0
+    ? round1(values.reduce((a, b) => a + b, 0) / values.length)
+    : null;
+
+  return {
+    value: mean(all)!,
+    magePlus: mean(rises),
+    mageMinus: mean(falls),
+    excursions: all.length
+  };
+}
+
+/**
+ * Pairs each reading with the interpolated value lagMs earlier
+ * Returns the differences (current - earlier)
+ */
+function laggedDifferences(readings: GlucoseReading[], lagMs: number, maxGapMs: number): number[] {
+  const differences: number[] = [];
+
+  for (const reading of readings) {
+    const earlier = valueAt(readings, reading.time - lagMs, maxGapMs);
+    if (earlier !== undefined) {
+      differences.push(reading.glucose - earlier);
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Kovatchev symmetrized risk of a reading: f = 1.509 x (ln(BG)^1.084 - 5.381),
+ * risk = 10 x f^2, attributed to the low side when f < 0
+ */
+function kovatchevRisk(glucose: number): { low: number; high: number } {
+  const f = 1.509 * (Math.pow(Math.log(Math.max(glucose, 1)), 1.084) - 5.381);
+  const risk = 10 * f * f;
+  return f < 0 ? { low: risk, high: 0 } : { low: 0, high: risk };
+}
+
+/**
+ * Computes the variability indices
+ *
+ * @param readings - Glucose readings in mg/dL, sorted by time
+ * @param options.congaHours - Lag of CONGA-n in hours (default: 1)
+ * @param options.maxGapMinutes - Largest gap treated as continuous data (default: 30)
+ * @returns undefined when there are no readings
+ */
+export function computeVariability(
+  readings: GlucoseReading[],
+  options: { congaHours?: number; maxGapMinutes?: number } = {}
+): VariabilityIndices | undefined {
+  if (readings.length === 0) {
+    return undefined;
+  }
+
+  const congaHours = options.congaHours ?? 1;
+  const maxGapMinutes = options.maxGapMinutes ?? DEFAULT_MAX_GAP_MINUTES;
+  const maxGapMs = maxGapMinutes * 60 * 1000;
+
+  const values = readings.map(r => r.glucose);
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const sd = standardDeviation(values);
+  const segments = splitAtGaps(readings, maxGapMs);
+
+  const congaDiffs = laggedDifferences(readings, congaHours * 60 * 60 * 1000, maxGapMs);
+  const moddDiffs = laggedDifferences(readings, 24 * 60 * 60 * 1000, maxGapMs);
+
+  let lowRisk = 0;
+  let highRisk = 0;
+  for (const glucose of values) {
+    const risk = kovatchevRisk(glucose);
+    lowRisk += risk.low;
+    highRisk += risk.high;
+  }
+
+  return {
+    readingsUsed: readings.length,
+    segments: segments.length,
+    maxGapMinutes,
+    mean: round1(mean),
+    standardDeviation: round1(sd),
+    mage: computeMage(segments, sd),
+    conga: congaDiffs.length >= 2
+      ? { hours: congaHours, value: round1(standardDeviation(congaDiffs)), pairs: congaDiffs.length }
+      : null,
+    modd: moddDiffs.length > 0
+      ? {
+        value: round1(moddDiffs.reduce((acc, d) => acc + Math.abs(d), 0) / moddDiffs.length),
+        pairs: moddDiffs.length
+      }
+      : null,
+    jIndex: round1(0.001 * (mean + sd) ** 2),
+    lbgi: round1(lowRisk / values.length),
+    hbgi: round1(highRisk / values.length)
+  };
+}
+
+/**
+ * Risk category of the Kovatchev low blood glucose index
+ */
+export function classifyLbgi(lbgi: number): string {
+  if (lbgi <= 1.1) return 'minimal';
+  if (lbgi <= 2.5) return 'low';
+  if (lbgi <= 5) return 'moderate';
+  return 'high';
+}
+
+/**
+ * Risk category of the Kovatchev high blood glucose index
+ */
+export function classifyHbgi(hbgi: number): string {
+  if (hbgi <= 4.5) return 'low';
+  if (hbgi <= 9) return 'moderate';
+  return 'high';
+}
+
+/**
+ * Glycemic control category of the J-index
+ */
+export function classifyJIndex(jIndex: number): string {
+  if (jIndex <= 20) return 'ideal';
+  if (jIndex <= 30) return 'good';
+  if (jIndex <= 40) return 'poor';
+  return 'lack of control';
+}
@@ -15,22 +15,325 @@ import {
   RATE_LIMIT,
   RETRY_CONFIG,
   ERROR_CODES,
+  PAGINATION,
   dateRangeToParams
 } from './endpoints.js';
 import { authManager } from './auth.js';
 import { auditLogger } from '../security/audit.js';
 import { encryptedCache } from '../cache/encrypted-cache.js';
+import { mmolToMgdl, toMgdl, parseProfileGlucoseUnit, MGDL_PER_MMOL } from '../utils/units.js';
+import { dayBounds, formatDateKey, getSystemTimeZone, isValidTimeZone, todayKey } from '../utils/timezone.js';
 import type {
+  GlucoseUnit,
   LogbookEntry,
+  LogbookEntryDraft,
+  LoggedFood,
   GlucoseStatistics,
   InsulinAnalysis,
   PersonalMetrics,
   FoodItem,
   HealthReport,
   ApiResponse,
-  ApiError
+  ApiError,
+  LogbookEntriesResponse,
+  LogbookPagination,
+  DiaryCalendar,
+  DiaryCalendarDay,
+  TherapySettings
 } from '../types/api.js';
 
+/**
+ * Raw entry format from Diabetes:M API (based on actual API response)
+ */
+interface RawLogEntry {
+  entry_id?: number;
+  entry_time?: number;              // Unix timestamp in milliseconds
+  glucose?: number;                 // Value in mmol/L
+  glucoseInCurrentUnit?: number;    // Value already converted to user's unit (mg/dL or mmol/L)
+  carb_bolus?: number;              // Bolus insulin
+  correction_bolus?: number;        // Correction insulin
+  basal?: number;                   // Basal insulin
+  carbs?: number;                   // Carbohydrates in grams
+  proteins?: number;                // Proteins in grams
+  fats?: number;                    // Fats in grams
+  calories?: number;                // Calories
+  notes?: string;                   // Notes/comments
+  category?: number;                // Category code (1=breakfast, 2=after breakfast, etc.)
+  is_sensor?: boolean;              // Is sensor reading
+  weight?: number;                  // Body weight in kg
+  pressure_sys?: number;            // Systolic blood pressure (mmHg)
+  pressure_dia?: number;            // Diastolic blood pressure (mmHg)
+  pulse?: number;                   // Heart rate (bpm)
+  hba1c?: number;                   // Lab HbA1c (%)
+  food_list?: RawFoodListItem[];    // List of foods
+  food?: string;                    // JSON string of foods (legacy format)
+  [key: string]: unknown;           // Allow other fields
+}
+
+/**
+ * Food as stored in a diary entry's food_list
+ * Numeric fields are -1 when not available
+ */
+interface RawFoodListItem {
+  name?: string;
+  quantity?: number;
+  serving?: string;
+  calories?: number;
+  total_carbs?: number;
+  protein?: number;
+  total_fat?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * The API returns { logEntryList: [...], filter: {...}, total_rows: N }
+ */
+interface DiaryResponse {
+  logEntryList: RawLogEntry[];
+  filter: unknown;
+  total_rows: number;
+  nextPageEntryTime?: number;
+}
+
+/**
+ * Appended to a failed write whose outcome is unknown (timeout, network or server error)
+ */
+const UNCONFIRMED_WRITE_NOTE = 'The change may or may not have been saved: check the diary before trying again';
+
+/**
+ * Maps category number to category name
+ */
+const CATEGORY_MAP: Record<number, string> = {
+  1: 'breakfast',
+  2: 'after_breakfast',
+  3: 'lunch',
+  4: 'after_lunch',
+  5: 'dinner',
+  6: 'after_dinner',
+  7: 'snack',
+  8: 'other',
+  9: 'fasting',
+  10: 'bedtime'
+};
+
+/**
+ * Collects the foods of a diary entry from food_list plus the legacy
+ * food JSON string, which older entries use instead
+ */
+function collectRawFoods<T>(foodList: T[] | undefined, legacyFood: unknown): T[] {
+  const foods = [...(foodList || [])];
+
+  if (typeof legacyFood === 'string' && legacyFood.length > 2) {
+    try {
+      const parsed: unknown = JSON.parse(legacyFood);
+      if (Array.isArray(parsed)) {
+        foods.push(...parsed as T[]);
+      }
+    } catch {
+      // Ignore parse errors
+    }
+  }
+
+  return foods;
+}
+
+/**
+ * Maps the foods of a raw entry to LoggedFood, dropping -1 ("not available") values
+ */
+function mapToLoggedFoods(raw: RawLogEntry): LoggedFood[] | undefined {
+  const available = (value: unknown): number | undefined =>
+    typeof value === 'number' && value >= 0 ? value : undefined;
+
+  const foods = collectRawFoods(raw.food_list, raw.food)
+    .filter(food => food && typeof food.name === 'string' && food.name.trim() !== '')
+    .map(food => ({
+      name: food.name!.trim(),
+      quantity: available(food.quantity),
+      serving: food.serving || undefined,
+      carbs: available(food.total_carbs),
+      calories: available(food.calories),
+      protein: available(food.protein),
+      fat: available(food.total_fat)
+    }));
+
+  return foods.length > 0 ? foods : undefined;
+}
+
+/**
+ * Maps raw API entry to normalized LogbookEntry format
+ * Glucose is always normalized to mg/dL; tools convert it for display
+ *
+ * @param currentUnit - User's unit, used to read glucoseInCurrentUnit when glucose is missing
+ */
+function mapToLogbookEntry(raw: RawLogEntry, currentUnit: GlucoseUnit = 'mg/dL'): LogbookEntry {
+  // Handle timestamp (entry_time is in milliseconds)
+  const timestamp = raw.entry_time
+    ? new Date(raw.entry_time).toISOString()
+    : new Date().toISOString();
+
+  // glucose is stored in mmol/L regardless of the user's unit; fall back
+  // to glucoseInCurrentUnit (in the user's unit) if it is missing
+  let glucose: number | undefined;
+  if (raw.glucose !== undefined && raw.glucose > 0) {
+    glucose = mmolToMgdl(raw.glucose);
+  } else if (raw.glucoseInCurrentUnit !== undefined && raw.glucoseInCurrentUnit > 0) {
+    glucose = Math.round(toMgdl(raw.glucoseInCurrentUnit, currentUnit));
+  }
+
+  // Map category number to name
+  const categoryName = raw.category !== undefined
+    ? CATEGORY_MAP[raw.category] || `category_${raw.category}`
+    : undefined;
+
+  return {
+    id: String(raw.entry_id || raw.entry_time || Date.now()),
+    timestamp,
+    glucose,
+    glucoseUnit: 'mg/dL',
+    insulinBolus: raw.carb_bolus || undefined,
+    insulinBasal: raw.basal || undefined,
+    insulinCorrection: raw.correction_bolus || undefined,
+    carbs: raw.carbs || undefined,
+    fat: raw.fats || undefined,
+    protein: raw.proteins || undefined,
+    calories: raw.calories || undefined,
+    notes: raw.notes || undefined,
+    category: categoryName,
+    isSensor: raw.is_sensor,
+    foods: mapToLoggedFoods(raw),
+    weight: raw.weight || undefined,
+    bloodPressureSystolic: raw.pressure_sys || undefined,
+    bloodPressureDiastolic: raw.pressure_dia || undefined,
+    pulse: raw.pulse || undefined,
+    hba1c: raw.hba1c || undefined
+  };
+}
+
+/**
+ * Maps a normalized entry draft (or a partial set of changes) back to the
+ * raw API entry format. Only fields present in the draft are set.
+ * Glucose is always sent in mmol/L, the unit the API stores it in
+ */
+function mapToRawEntry(draft: Partial<LogbookEntryDraft>): RawLogEntry {
+  const raw: RawLogEntry = {};
+
+  if (draft.timestamp !== undefined) raw.entry_time = new Date(draft.timestamp).getTime();
+  if (draft.glucose !== undefined) {
+    raw.glucose = Math.round((toMgdl(draft.glucose, draft.glucoseUnit ?? 'mg/dL') / MGDL_PER_MMOL) * 100) / 100;
+  }
+  if (draft.insulinBolus !== undefined) raw.carb_bolus = draft.insulinBolus;
+  if (draft.insulinCorrection !== undefined) raw.correction_bolus = draft.insulinCorrection;
+  if (draft.insulinBasal !== undefined) raw.basal = draft.insulinBasal;
+  if (draft.carbs !== undefined) raw.carbs = draft.carbs;
+  if (draft.notes !== undefined) raw.notes = draft.notes;
+
+  if (draft.category !== undefined) {
+    const code = Object.entries(CATEGORY_MAP).find(([, name]) => name === draft.category)?.[0];
+    if (code !== undefined) raw.category = Number(code);
+  }
+
+  return raw;
+}
+
+/**
+ * Counts entries, glucose readings, insulin doses and meals per calendar day
+ */
+function countEntriesByDay(entries: LogbookEntry[], timeZone: string): DiaryCalendarDay[] {
+  const days = new Map<string, DiaryCalendarDay>();
+
+  for (const entry of entries) {
+    const date = formatDateKey(new Date(entry.timestamp), timeZone);
+    let day = days.get(date);
+    if (!day) {
+      day = { date, entries: 0, glucoseReadings: 0, insulinDoses: 0, meals: 0 };
+      days.set(date, day);
+    }
+
+    day.entries++;
+    if (entry.glucose) day.glucoseReadings++;
+    if (entry.insulinBolus) day.insulinDoses++;
+    if (entry.insulinCorrection) day.insulinDoses++;
+    if (entry.insulinBasal) day.insulinDoses++;
+    if (entry.carbs) day.meals++;
+  }
+
+  return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Reads a DIARY_CALENDAR response
+ * Accepts a non-empty list of day objects (directly or under days/calendar)
+ * that carry a date and per-day counts. Returns null for any other shape,
+ * including an empty list (no way to tell "no data" from "not supported"),
+ * so callers can fall back to counting logbook entries. Days outside
+ * fromDay..toDay are dropped, in case the endpoint answers with whole months.
+ */
+function parseCalendarDays(
+  data: unknown,
+  timeZone: string,
+  fromDay: string,
+  toDay: string
+): DiaryCalendarDay[] | null {
+  const container = data as { days?: unknown; calendar?: unknown } | null | undefined;
+  const list = Array.isArray(data) ? data : container?.days ?? container?.calendar;
+  if (!Array.isArray(list) || list.length === 0) {
+    return null;
+  }
+
+  const count = (item: Record<string, unknown>, ...keys: string[]): number | undefined => {
+    const key = keys.find(k => typeof item[k] === 'number');
+    return key !== undefined ? item[key] as number : undefined;
+  };
+
+  const days: DiaryCalendarDay[] = [];
+  for (const item of list as Array<Record<string, unknown>>) {
+    if (!item || typeof item !== 'object') {
+      return null;
+    }
+
+    const rawDate = item.date ?? item.day ?? item.entry_time;
+    const date = typeof rawDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(rawDate)
+      ? rawDate
+      : typeof rawDate === 'number' ? formatDateKey(new Date(rawDate), timeZone) : undefined;
+    const glucoseReadings = count(item, 'glucose_count', 'glucoseCount');
+    const insulinDoses = count(item, 'insulin_count', 'insulinCount');
+    const meals = count(item, 'carbs_count', 'carbsCount', 'meal_count', 'mealCount');
+
+    if (!date || glucoseReadings === undefined || insulinDoses === undefined || meals === undefined) {
+      return null;
+    }
+
+    days.push({
+      date,
+      entries: count(item, 'entries_count', 'entriesCount', 'count') ?? glucoseReadings + insulinDoses + meals,
+      glucoseReadings,
+      insulinDoses,
+      meals
+    });
+  }
+
+  return days
+    .filter(day => day.entries > 0 && day.date >= fromDay && day.date <= toDay)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Personal metrics that are recorded in the diary rather than the profile
+ */
+type DiaryMeasurements = Pick<
+  PersonalMetrics,
+  'bloodPressureSystolic' | 'bloodPressureDiastolic' | 'pulse' | 'hba1c' | 'hba1cDate'
+>;
+
+/**
+ * Display preferences read from the user's profile
+ */
+export interface ProfilePreferences {
+  glucoseUnit: GlucoseUnit;
+  timeZone: string;
+  timeZoneSource: 'profile' | 'system';
+}
+
 /**
  * Rate limiter state
  */
@@ -83,12 +386,16 @@ class DiabetesMClient {
 
   /**
    * Makes an authenticated API request with retry logic
+   * Non-idempotent writes pass retryable = false: they are only retried when
+   * the server refused them (401, 429), never after a network error, a
+   * timeout or a server error, which may come after the write was stored
    */
   private async request<T>(
     method: string,
     endpoint: string,
     body?: unknown,
-    retryCount: number = 0
+    retryCount: number = 0,
+    retryable: boolean = true
   ): Promise<ApiResponse<T>> {
     await this.waitForRateLimit();
     await authManager.ensureAuthenticated();
@@ -111,7 +418,7 @@ class DiabetesMClient {
       if (response.status === 401) {
         const reauthed = await authManager.handleAuthError();
         if (reauthed && retryCount < 1) {
-          return this.request<T>(method, endpoint, body, retryCount + 1);
+          return this.request<T>(method, endpoint, body, retryCount + 1, retryable);
         }
         return {
           success: false,
@@ -125,7 +432,7 @@ class DiabetesMClient {
         const retryAfter = parseInt(response.headers.get('Retry-After') || '60', 10);
         if (retryCount < RETRY_CONFIG.MAX_RETRIES) {
           await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
-          return this.request<T>(method, endpoint, body, retryCount + 1);
+          return this.request<T>(method, endpoint, body, retryCount + 1, retryable);
         }
         return {
           success: false,
@@ -136,7 +443,7 @@ class DiabetesMClient {
 
       // Handle retryable errors
       if (RETRY_CONFIG.RETRYABLE_STATUS_CODES.includes(response.status)) {
-        if (retryCount < RETRY_CONFIG.MAX_RETRIES) {
+        if (retryable && retryCount < RETRY_CONFIG.MAX_RETRIES) {
           const delay = Math.min(
             RETRY_CONFIG.INITIAL_DELAY * Math.pow(RETRY_CONFIG.BACKOFF_FACTOR, retryCount),
             RETRY_CONFIG.MAX_DELAY
@@ -152,7 +459,9 @@ class DiabetesMClient {
           success: false,
           error: {
             code: ERROR_CODES.INVALID_RESPONSE,
-            message: `Request failed: ${response.status}`,
+            message: !retryable && response.status >= 500
+              ? `Request failed: ${response.status}. ${UNCONFIRMED_WRITE_NOTE}`
+              : `Request failed: ${response.status}`,
             details: { body: errorBody }
           },
           timestamp: new Date().toISOString()
@@ -172,14 +481,17 @@ class DiabetesMClient {
         if (error.name === 'AbortError') {
           return {
             success: false,
-            error: { code: ERROR_CODES.NETWORK_ERROR, message: 'Request timed out' },
+            error: {
+              code: ERROR_CODES.NETWORK_ERROR,
+              message: retryable ? 'Request timed out' : `Request timed out. ${UNCONFIRMED_WRITE_NOTE}`
+            },
             timestamp: new Date().toISOString()
           };
         }
       }
 
       // Retry on network errors
-      if (retryCount < RETRY_CONFIG.MAX_RETRIES) {
+      if (retryable && retryCount < RETRY_CONFIG.MAX_RETRIES) {
         const delay = Math.min(
           RETRY_CONFIG.INITIAL_DELAY * Math.pow(RETRY_CONFIG.BACKOFF_FACTOR, retryCount),
           RETRY_CONFIG.MAX_DELAY
@@ -188,11 +500,12 @@ class DiabetesMClient {
         return this.request<T>(method, endpoint, body, retryCount + 1);
       }
 
+      const message = error instanceof Error ? error.message : 'Network error';
       return {
         success: false,
         error: {
           code: ERROR_CODES.NETWORK_ERROR,
-          message: error instanceof Error ? error.message : 'Network error'
+          message: retryable ? message : `${message}. ${UNCONFIRMED_WRITE_NOTE}`
         },
         timestamp: new Date().toISOString()
       };
@@ -218,56 +531,80 @@ class DiabetesMClient {
     return this.request<T>('POST', endpoint, body);
   }
 
+  /**
+   * POST helper for non-idempotent writes (create, update, delete):
+   * no automatic retry once the request may have reached the server
+   */
+  private async postWrite<T>(endpoint: string, body?: unknown): Promise<ApiResponse<T>> {
+    return this.request<T>('POST', endpoint, body, 0, false);
+  }
+
   // ============ API Methods ============
 
   /**
    * Gets logbook entries for a date range or specific date
-   * The Diabetes:M API uses POST with fromDate/toDate (milliseconds) in body
+   * The Diabetes:M API uses POST with fromDate/toDate (milliseconds) in body.
+   * Results are paged: pages are followed via nextPageEntryTime until
+   * total_rows is reached or the page cap is hit.
    * @param dateRange - Predefined range: 'today', '7days', '30days', '90days'
    * @param category - Optional category filter
    * @param specificDate - Optional specific date in YYYY-MM-DD format (overrides dateRange)
+   * @param options.maxPages - Maximum number of pages to fetch (default: PAGINATION.DEFAULT_MAX_PAGES)
+   * @param options.timeZone - IANA timezone for day boundaries (default: account setting or system timezone)
    */
   async getLogbookEntries(
     dateRange?: string,
     category?: string,
     specificDate?: string,
     startDate?: string,
-    endDate?: string
-  ): Promise<ApiResponse<LogbookEntry[]>> {
+    endDate?: string,
+    options: { maxPages?: number; timeZone?: string } = {}
+  ): Promise<LogbookEntriesResponse> {
     const timer = auditLogger.startTimer();
-    const cacheKey = `logbook:${startDate && endDate ? `${startDate}_${endDate}` : specificDate || dateRange}:${category || ''}`;
+    const timeZone = await this.resolveTimeZone(options.timeZone);
+    const maxPages = Math.min(
+      Math.max(1, options.maxPages ?? PAGINATION.DEFAULT_MAX_PAGES),
+      PAGINATION.MAX_PAGES_LIMIT
+    );
+    const cacheKey = `logbook:${startDate && endDate ? `${startDate}_${endDate}` : specificDate || dateRange}:${category || ''}:${maxPages}:${timeZone}`;
 
     // Check cache
-    const cached = await encryptedCache.get<LogbookEntry[]>(cacheKey);
+    const cached = await encryptedCache.get<{ entries: LogbookEntry[]; pagination: LogbookPagination }>(cacheKey);
     if (cached) {
       auditLogger.logOperation('get_logbook_entries', 'get_logbook_entries', true, timer(), cacheKey);
-      return { success: true, data: cached, timestamp: new Date().toISOString() };
+      return {
+        success: true,
+        data: cached.entries,
+        pagination: cached.pagination,
+        timestamp: new Date().toISOString()
+      };
     }
 
-    // Determine date range
-    let fromDate: number;
-    let toDate: number;
+    // Determine date range (calendar days in the resolved timezone)
+    let fromDay: string;
+    let toDay: string;
 
     if (startDate && endDate) {
       // Custom date range: from start of startDate to end of endDate
-      fromDate = new Date(startDate + 'T00:00:00').getTime();
-      toDate = new Date(endDate + 'T23:59:59.999').getTime();
+      fromDay = startDate;
+      toDay = endDate;
     } else if (specificDate) {
       // Specific date: from start of day to end of day
-      const dateObj = new Date(specificDate + 'T00:00:00');
-      fromDate = dateObj.getTime();
-      toDate = new Date(specificDate + 'T23:59:59.999').getTime();
+      fromDay = specificDate;
+      toDay = specificDate;
     } else if (dateRange) {
-      const { from, to } = dateRangeToParams(dateRange);
-      fromDate = new Date(from).getTime();
-      toDate = new Date(to + 'T23:59:59').getTime();
+      const { from, to } = dateRangeToParams(dateRange, timeZone);
+      fromDay = from;
+      toDay = to;
     } else {
       // Default to today
-      const today = new Date().toISOString().split('T')[0];
-      fromDate = new Date(today + 'T00:00:00').getTime();
-      toDate = new Date(today + 'T23:59:59.999').getTime();
+      fromDay = todayKey(timeZone);
+      toDay = fromDay;
     }
 
+    const fromDate = dayBounds(fromDay, timeZone).start;
+    const toDate = dayBounds(toDay, timeZone).end;
+
     // API uses camelCase fromDate/toDate with millisecond timestamps
     // and various include* flags
     const body: Record<string, unknown> = {
@@ -285,116 +622,215 @@ class DiabetesMClient {
       all: true
     };
 
-    // Raw entry format from Diabetes:M API (based on actual API response)
-    interface RawLogEntry {
-      entry_id?: number;
-      entry_time?: number;              // Unix timestamp in milliseconds
-      glucose?: number;                 // Value in mmol/L
-      glucoseInCurrentUnit?: number;    // Value already converted to user's unit (mg/dL)
-      carb_bolus?: number;              // Bolus insulin
-      correction_bolus?: number;        // Correction insulin
-      basal?: number;                   // Basal insulin
-      carbs?: number;                   // Carbohydrates in grams
-      proteins?: number;                // Proteins in grams
-      fats?: number;                    // Fats in grams
-      calories?: number;                // Calories
-      notes?: string;                   // Notes/comments
-      category?: number;                // Category code (1=breakfast, 2=after breakfast, etc.)
-      is_sensor?: boolean;              // Is sensor reading
-      food_list?: Array<{               // List of foods
-        name: string;
-        quantity: number;
-        serving: string;
-        calories: number;
-        total_carbs: number;
-        protein: number;
-        total_fat: number;
-      }>;
-      [key: string]: unknown;           // Allow other fields
-    }
+    const { rows: rawEntries, totalRows, pages, error } = await this.fetchDiaryPages(body, maxPages);
 
-    // The API returns { logEntryList: [...], filter: {...}, total_rows: N }
-    interface DiaryResponse {
-      logEntryList: RawLogEntry[];
-      filter: unknown;
-      total_rows: number;
-      nextPageEntryTime?: number;
+    // Transform response to extract and normalize entries
+    let entriesResponse: LogbookEntriesResponse;
+    if (pages > 0) {
+      const currentUnit = await this.getGlucoseUnit();
+      const entries = rawEntries.map(raw => mapToLogbookEntry(raw, currentUnit));
+      const pagination: LogbookPagination = {
+        complete: rawEntries.length >= totalRows,
+        fetchedRows: rawEntries.length,
+        totalRows: Math.max(totalRows, rawEntries.length),
+        pages,
+        maxPages
+      };
+      entriesResponse = {
+        success: true,
+        data: entries,
+        pagination,
+        timestamp: new Date().toISOString()
+      };
+      await encryptedCache.set(cacheKey, { entries, pagination }, 5 * 60 * 1000, true); // 5 min encrypted cache
+    } else {
+      entriesResponse = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString()
+      };
     }
 
-    /**
-     * Maps category number to category name
-     */
-    const CATEGORY_MAP: Record<number, string> = {
-      1: 'breakfast',
-      2: 'after_breakfast',
-      3: 'lunch',
-      4: 'after_lunch',
-      5: 'dinner',
-      6: 'after_dinner',
-      7: 'snack',
-      8: 'other',
-      9: 'fasting',
-      10: 'bedtime'
-    };
+    auditLogger.logOperation(
+      'get_logbook_entries',
+      'get_logbook_entries',
+      entriesResponse.success,
+      timer(),
+      cacheKey,
+      error?.code
+    );
 
-    /**
-     * Maps raw API entry to normalized LogbookEntry format
-     * Uses glucoseInCurrentUnit which is already in mg/dL
-     */
-    function mapToLogbookEntry(raw: RawLogEntry): LogbookEntry {
-      // Handle timestamp (entry_time is in milliseconds)
-      const timestamp = raw.entry_time
-        ? new Date(raw.entry_time).toISOString()
-        : new Date().toISOString();
-
-      // Use glucoseInCurrentUnit which is already converted to mg/dL by the API
-      // Fall back to converting glucose (mmol/L) if needed
-      let glucose: number | undefined;
-      if (raw.glucoseInCurrentUnit !== undefined && raw.glucoseInCurrentUnit > 0) {
-        glucose = Math.round(raw.glucoseInCurrentUnit);
-      } else if (raw.glucose !== undefined && raw.glucose > 0) {
-        // Convert from mmol/L to mg/dL
-        glucose = Math.round(raw.glucose * 18.0182);
+    return entriesResponse;
+  }
+
+  /**
+   * Fetches diary pages, following nextPageEntryTime (entries are in
+   * descending order, so each page continues from the oldest entry time of
+   * the previous one). Stops at total_rows, at maxPages, when the cursor
+   * does not advance, or when isDone returns true for the rows so far.
+   *
+   * @returns Unique raw rows, and the error of the last request if it failed
+   */
+  private async fetchDiaryPages(
+    body: Record<string, unknown>,
+    maxPages: number,
+    isDone?: (rows: RawLogEntry[]) => boolean
+  ): Promise<{ rows: RawLogEntry[]; totalRows: number; pages: number; error?: ApiError }> {
+    const rows: RawLogEntry[] = [];
+    const seenIds = new Set<string>();
+    let totalRows = 0;
+    let pages = 0;
+    let nextPageEntryTime: number | undefined;
+    let response: ApiResponse<DiaryResponse>;
+
+    do {
+      const pageBody = nextPageEntryTime !== undefined
+        ? { ...body, toDate: nextPageEntryTime, nextPageEntryTime }
+        : body;
+
+      response = await this.post<DiaryResponse>(ENDPOINTS.LOGBOOK_ENTRIES, pageBody);
+      if (!response.success || !response.data) {
+        break;
       }
 
-      // Map category number to name
-      const categoryName = raw.category !== undefined
-        ? CATEGORY_MAP[raw.category] || `category_${raw.category}`
-        : undefined;
+      pages++;
+      totalRows = Math.max(totalRows, response.data.total_rows || 0);
 
-      return {
-        id: String(raw.entry_id || raw.entry_time || Date.now()),
-        timestamp,
-        glucose,
-        glucoseUnit: 'mg/dL',
-        insulinBolus: raw.carb_bolus || undefined,
-        insulinBasal: raw.basal || undefined,
-        insulinCorrection: raw.correction_bolus || undefined,
-        carbs: raw.carbs || undefined,
-        fat: raw.fats || undefined,
-        protein: raw.proteins || undefined,
-        calories: raw.calories || undefined,
-        notes: raw.notes || undefined,
-        category: categoryName,
-        isSensor: raw.is_sensor
+      let added = 0;
+      for (const raw of response.data.logEntryList || []) {
+        const key = String(raw.entry_id ?? `${raw.entry_time}`);
+        if (!seenIds.has(key)) {
+          seenIds.add(key);
+          rows.push(raw);
+          added++;
+        }
+      }
+
+      // Stop when the API does not advance (no new rows or same cursor)
+      // or the caller has what it needs
+      const next = response.data.nextPageEntryTime;
+      if (added === 0 || next === undefined || next === nextPageEntryTime || isDone?.(rows)) {
+        break;
+      }
+      nextPageEntryTime = next;
+    } while (rows.length < totalRows && pages < maxPages);
+
+    return { rows, totalRows, pages, error: response.error };
+  }
+
+  /**
+   * Creates a new diary entry
+   * Invalidates all cached logbook pages once the write succeeds
+   */
+  async createLogbookEntry(draft: LogbookEntryDraft): Promise<ApiResponse<LogbookEntry>> {
+    const timer = auditLogger.startTimer();
+    const rawEntry = mapToRawEntry(draft);
+
+    // The API echoes the stored entry (including its new entry_id)
+    const response = await this.postWrite<RawLogEntry>(ENDPOINTS.CREATE_ENTRY, rawEntry);
+
+    let entryResponse: ApiResponse<LogbookEntry>;
+    if (response.success) {
+      encryptedCache.deleteNamespace('logbook');
+      entryResponse = {
+        success: true,
+        data: mapToLogbookEntry({ ...rawEntry, ...response.data }, await this.getGlucoseUnit()),
+        timestamp: new Date().toISOString()
+      };
+    } else {
+      entryResponse = {
+        success: false,
+        error: response.error,
+        timestamp: new Date().toISOString()
       };
     }
 
-    const response = await this.post<DiaryResponse>(ENDPOINTS.LOGBOOK_ENTRIES, body);
+    auditLogger.logOperation(
+      'create_logbook_entry',
+      'create_logbook_entry',
+      entryResponse.success,
+      timer(),
+      JSON.stringify(rawEntry),
+      response.error?.code
+    );
+
+    return entryResponse;
+  }
+
+  /**
+   * Gets a single diary entry by ID
+   */
+  async getLogbookEntry(id: string): Promise<ApiResponse<LogbookEntry>> {
+    const timer = auditLogger.startTimer();
+    const response = await this.get<RawLogEntry>(ENDPOINTS.DIARY_ENTRY(id));
+
+    auditLogger.logOperation(
+      'get_logbook_entry',
+      'get_logbook_entry',
+      response.success,
+      timer(),
+      id,
+      response.error?.code
+    );
 
-    // Transform response to extract and normalize entries
-    let entriesResponse: ApiResponse<LogbookEntry[]>;
     if (response.success && response.data) {
-      const rawEntries = response.data.logEntryList || [];
-      const entries = rawEntries.map(mapToLogbookEntry);
-      entriesResponse = {
+      return {
         success: true,
-        data: entries,
+        data: mapToLogbookEntry(response.data, await this.getGlucoseUnit()),
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    return {
+      success: false,
+      error: response.error ?? { code: ERROR_CODES.NOT_FOUND, message: `Logbook entry ${id} not found` },
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Updates fields of an existing diary entry
+   * The stored raw entry is fetched first so fields not being changed are preserved
+   */
+  async updateLogbookEntry(
+    id: string,
+    changes: Partial<LogbookEntryDraft>
+  ): Promise<ApiResponse<LogbookEntry>> {
+    const timer = auditLogger.startTimer();
+
+    const current = await this.get<RawLogEntry>(ENDPOINTS.DIARY_ENTRY(id));
+    if (!current.success || !current.data) {
+      auditLogger.logOperation('update_logbook_entry', 'update_logbook_entry', false, timer(), id, current.error?.code);
+      return {
+        success: false,
+        error: current.error ?? { code: ERROR_CODES.NOT_FOUND, message: `Logbook entry ${id} not found` },
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    const rawEntry: RawLogEntry = {
+      ...current.data,
+      ...mapToRawEntry(changes),
+      entry_id: Number(id)
+    };
+
+    // Glucose was re-sent in mmol/L, drop the stale converted value
+    if (changes.glucose !== undefined) {
+      delete rawEntry.glucoseInCurrentUnit;
+    }
+
+    const response = await this.postWrite<RawLogEntry>(ENDPOINTS.UPDATE_ENTRY, rawEntry);
+
+    let entryResponse: ApiResponse<LogbookEntry>;
+    if (response.success) {
+      encryptedCache.deleteNamespace('logbook');
+      entryResponse = {
+        success: true,
+        data: mapToLogbookEntry({ ...rawEntry, ...response.data }, await this.getGlucoseUnit()),
         timestamp: new Date().toISOString()
       };
-      await encryptedCache.set(cacheKey, entries, 5 * 60 * 1000, true); // 5 min encrypted cache
     } else {
-      entriesResponse = {
+      entryResponse = {
         success: false,
         error: response.error,
         timestamp: new Date().toISOString()
@@ -402,15 +838,112 @@ class DiabetesMClient {
     }
 
     auditLogger.logOperation(
-      'get_logbook_entries',
-      'get_logbook_entries',
-      entriesResponse.success,
+      'update_logbook_entry',
+      'update_logbook_entry',
+      entryResponse.success,
       timer(),
-      cacheKey,
+      id,
       response.error?.code
     );
 
-    return entriesResponse;
+    return entryResponse;
+  }
+
+  /**
+   * Deletes a diary entry
+   */
+  async deleteLogbookEntry(id: string): Promise<ApiResponse<{ id: string }>> {
+    const timer = auditLogger.startTimer();
+    const response = await this.postWrite<unknown>(ENDPOINTS.DELETE_ENTRY, { entry_id: Number(id) });
+
+    if (response.success) {
+      encryptedCache.deleteNamespace('logbook');
+    }
+
+    auditLogger.logOperation(
+      'delete_logbook_entry',
+      'delete_logbook_entry',
+      response.success,
+      timer(),
+      id,
+      response.error?.code
+    );
+
+    return response.success
+      ? { success: true, data: { id }, timestamp: new Date().toISOString() }
+      : { success: false, error: response.error, timestamp: new Date().toISOString() };
+  }
+
+  /**
+   * Gets the days with diary data and per-day counts
+   * Uses DIARY_CALENDAR when it returns per-day counts, otherwise derives
+   * the same summary from logbook entries
+   *
+   * @param fromDay - First day (YYYY-MM-DD)
+   * @param toDay - Last day (YYYY-MM-DD)
+   * @param timeZone - IANA timezone for day boundaries (default: account setting or system timezone)
+   */
+  async getDiaryCalendar(
+    fromDay: string,
+    toDay: string,
+    timeZone?: string
+  ): Promise<ApiResponse<DiaryCalendar>> {
+    const timer = auditLogger.startTimer();
+    const zone = await this.resolveTimeZone(timeZone);
+    // Same namespace as logbook pages so logbook writes invalidate it
+    const cacheKey = `logbook:calendar:${fromDay}_${toDay}:${zone}`;
+
+    const cached = await encryptedCache.get<DiaryCalendar>(cacheKey);
+    if (cached) {
+      auditLogger.logOperation('get_diary_calendar', 'get_diary_calendar', true, timer(), cacheKey);
+      return { success: true, data: cached, timestamp: new Date().toISOString() };
+    }
+
+    const base = { from: fromDay, to: toDay, timeZone: zone };
+    let calendar: DiaryCalendar | undefined;
+    let error: ApiError | undefined;
+
+    const calendarResponse = await this.post<unknown>(ENDPOINTS.DIARY_CALENDAR, {
+      fromDate: dayBounds(fromDay, zone).start,
+      toDate: dayBounds(toDay, zone).end
+    });
+    const calendarDays = calendarResponse.success ? parseCalendarDays(calendarResponse.data, zone, fromDay, toDay) : null;
+
+    if (calendarDays) {
+      calendar = { ...base, source: 'calendar', complete: true, days: calendarDays };
+    } else {
+      const logbook = await this.getLogbookEntries(
+        undefined, undefined, undefined, fromDay, toDay,
+        { maxPages: PAGINATION.MAX_PAGES_LIMIT, timeZone: zone }
+      );
+      if (logbook.success && logbook.data) {
+        calendar = {
+          ...base,
+          source: 'logbook',
+          complete: logbook.pagination?.complete ?? true,
+          days: countEntriesByDay(logbook.data, zone)
+        };
+      } else {
+        error = logbook.error;
+      }
+    }
+
+    if (calendar) {
+      await encryptedCache.set(cacheKey, calendar, 5 * 60 * 1000, true); // 5 min encrypted cache
+    }
+
+    auditLogger.logOperation(
+      'get_diary_calendar',
+      'get_diary_calendar',
+      calendar !== undefined,
+      timer(),
+      cacheKey,
+      error?.code
+    );
+
+    return calendar
+      ? { success: true, data: calendar, timestamp: new Date().toISOString() }
+      : { success: false, error, timestamp: new Date().toISOString() };
   }
 
   /**
@@ -462,9 +995,6 @@ class DiabetesMClient {
       const raw = response.data;
       const totalReadings = raw.m_counts?.[periodIndex] || 0;
 
-      // Convert mmol/L to mg/dL (multiply by 18.0182)
-      const toMgdl = (mmol: number) => Math.round(mmol * 18.0182);
-
       // Calculate distribution counts
       const hypoCount = raw.m_tooLowCounts?.[periodIndex] || 0;
       const lowCount = raw.m_lowCounts?.[periodIndex] || 0;
@@ -488,10 +1018,10 @@ class DiabetesMClient {
           high: highCount,
           hyper: hyperCount
         },
-        average: toMgdl(avgMmol),
-        min: toMgdl(raw.m_glucoseLowest?.[periodIndex] || 0),
-        max: toMgdl(raw.m_glucoseHighest?.[periodIndex] || 0),
-        standardDeviation: toMgdl(sdMmol),
+        average: mmolToMgdl(avgMmol),
+        min: mmolToMgdl(raw.m_glucoseLowest?.[periodIndex] || 0),
+        max: mmolToMgdl(raw.m_glucoseHighest?.[periodIndex] || 0),
+        standardDeviation: mmolToMgdl(sdMmol),
         coefficientOfVariation: Math.round(cv * 10) / 10,
         estimatedHbA1c: Math.round(raw.m_estimatedHbA1c * 10) / 10,
         timeInRange: Math.round(tir * 10) / 10,
@@ -632,13 +1162,13 @@ class DiabetesMClient {
       if (profile?.insulin_sensitivity_per_hour) {
         for (const sensitivity of profile.insulin_sensitivity_per_hour) {
           if (sensitivity > 0) {
-            configuredIsf = Math.round(sensitivity * 18.0182);
+            configuredIsf = mmolToMgdl(sensitivity);
             break;
           }
         }
       }
       if (configuredIsf === 0 && profile?.insulin_sensitivity_default) {
-        configuredIsf = Math.round(profile.insulin_sensitivity_default * 18.0182);
+        configuredIsf = mmolToMgdl(profile.insulin_sensitivity_default);
       }
 
       // Use configured values from profile, fall back to calculated from data if not set
@@ -651,7 +1181,7 @@ class DiabetesMClient {
       const isf = configuredIsf > 0
         ? configuredIsf
         : (raw.m_sensitivityCounts > 0
-          ? Math.round((raw.m_sensitivitySum / raw.m_sensitivityCounts) * 18.0182)
+          ? mmolToMgdl(raw.m_sensitivitySum / raw.m_sensitivityCounts)
           : 0);
 
       const analysis: InsulinAnalysis = {
@@ -699,6 +1229,172 @@ class DiabetesMClient {
     };
   }
 
+  /**
+   * Gets display preferences from profile settings
+   * - glucose_unit ('mg_dl' / 'mmol_l')
+   * - timezone (IANA name), falling back to the system timezone
+   * Defaults are returned (and not cached) if the profile cannot be read
+   */
+  async getProfilePreferences(): Promise<ProfilePreferences> {
+    const cacheKey = 'profile_preferences';
+
+    const cached = await encryptedCache.get<ProfilePreferences>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    interface RawProfileResponse {
+      settings?: {
+        glucose_unit?: string;       // 'mg_dl' or 'mmol_l'
+        timezone?: string;           // IANA timezone, e.g. 'Europe/Rome'
+        [key: string]: unknown;
+      };
+    }
+
+    const response = await this.get<RawProfileResponse>(ENDPOINTS.PERSONAL_METRICS);
+    if (!response.success || !response.data) {
+      return { glucoseUnit: 'mg/dL', timeZone: getSystemTimeZone(), timeZoneSource: 'system' };
+    }
+
+    const settings = response.data.settings || {};
+    const profileZone = settings.timezone && isValidTimeZone(settings.timezone) ? settings.timezone : undefined;
+    const preferences: ProfilePreferences = {
+      glucoseUnit: parseProfileGlucoseUnit(settings.glucose_unit),
+      timeZone: profileZone ?? getSystemTimeZone(),
+      timeZoneSource: profileZone ? 'profile' : 'system'
+    };
+
+    await encryptedCache.set(cacheKey, preferences, 30 * 60 * 1000, false);
+
+    return preferences;
+  }
+
+  /**
+   * Gets the IC ratio and ISF schedules from the profile settings. ISF is
+   * stored in mmol/L by Diabetes:M and converted to mg/dL here.
+   * Only keys seen in real profile responses are read: target glucose,
+   * insulin action time and insulin products come from tool arguments or
+   * presets until their keys and units are confirmed
+   */
+  async getTherapySettings(): Promise<ApiResponse<TherapySettings>> {
+    const timer = auditLogger.startTimer();
+    const cacheKey = 'therapy_settings';
+
+    // Check cache
+    const cached = await encryptedCache.get<TherapySettings>(cacheKey);
+    if (cached) {
+      auditLogger.logOperation('get_therapy_settings', 'get_therapy_settings', true, timer(), cacheKey);
+      return { success: true, data: cached, timestamp: new Date().toISOString() };
+    }
+
+    interface RawProfileResponse {
+      settings?: {
+        insulin_sensitivity_default?: number;   // mmol/L
+        insulin_sensitivity_per_hour?: number[];
+        carbohydrates_ratio_default?: number;
+        carbohydrates_ratio_per_hour?: number[];
+      };
+    }
+
+    const response = await this.get<RawProfileResponse>(ENDPOINTS.PERSONAL_METRICS);
+    if (!response.success || !response.data) {
+      auditLogger.logOperation(
+        'get_therapy_settings',
+        'get_therapy_settings',
+        false,
+        timer(),
+        cacheKey,
+        response.error?.code
+      );
+      return { success: false, error: response.error, timestamp: new Date().toISOString() };
+    }
+
+    const settings = response.data.settings || {};
+    const positive = (value: number | undefined) => (value !== undefined && value > 0 ? value : undefined);
+    const isfDefault = positive(settings.insulin_sensitivity_default);
+
+    const therapy: TherapySettings = {
+      icRatioPerSlot: settings.carbohydrates_ratio_per_hour || [],
+      icRatioDefault: positive(settings.carbohydrates_ratio_default),
+      isfPerSlot: (settings.insulin_sensitivity_per_hour || []).map(v => (v > 0 ? mmolToMgdl(v) : 0)),
+      isfDefault: isfDefault !== undefined ? mmolToMgdl(isfDefault) : undefined
+    };
+
+    await encryptedCache.set(cacheKey, therapy, 5 * 60 * 1000, true);
+
+    auditLogger.logOperation('get_therapy_settings', 'get_therapy_settings', true, timer(), cacheKey);
+
+    return { success: true, data: therapy, timestamp: new Date().toISOString() };
+  }
+
+  /**
+   * Gets the user's preferred glucose unit from profile settings (glucose_unit)
+   * Falls back to mg/dL if the profile cannot be read
+   */
+  async getGlucoseUnit(): Promise<GlucoseUnit> {
+    return (await this.getProfilePreferences()).glucoseUnit;
+  }
+
+  /**
+   * Resolves the timezone to use: explicit override, then the account
+   * setting, then the system timezone
+   */
+  async resolveTimeZone(override?: string): Promise<string> {
+    if (override) {
+      return override;
+    }
+    return (await this.getProfilePreferences()).timeZone;
+  }
+
+  /**
+   * Gets the most recent blood pressure, pulse and lab HbA1c recorded in
+   * the diary (last 365 days). Pages are followed, newest first, until each
+   * of them has been found or the pages run out.
+   */
+  private async getLatestDiaryMeasurements(): Promise<DiaryMeasurements> {
+    const now = Date.now();
+    const hasAll = (rows: RawLogEntry[]) =>
+      rows.some(raw => raw.pressure_sys && raw.pressure_dia) &&
+      rows.some(raw => raw.pulse) &&
+      rows.some(raw => raw.hba1c);
+    const { rows } = await this.fetchDiaryPages({
+      fromDate: now - 365 * 24 * 60 * 60 * 1000,
+      toDate: now,
+      includeGlucose: false,
+      includeBolus: false,
+      includeBasal: false,
+      includeCarbs: false,
+      includeSensor: false,
+      includeWeight: false,
+      includePressure: true,
+      includeHbA1c: true,
+      isDescOrder: true
+    }, PAGINATION.DEFAULT_MAX_PAGES, hasAll);
+
+    const latest: DiaryMeasurements = {};
+    const entries = rows
+      .map(raw => mapToLogbookEntry(raw))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    const timeZone = await this.resolveTimeZone();
+
+    for (const entry of entries) {
+      if (latest.bloodPressureSystolic === undefined &&
+          entry.bloodPressureSystolic !== undefined && entry.bloodPressureDiastolic !== undefined) {
+        latest.bloodPressureSystolic = entry.bloodPressureSystolic;
+        latest.bloodPressureDiastolic = entry.bloodPressureDiastolic;
+      }
+      if (latest.pulse === undefined && entry.pulse !== undefined) {
+        latest.pulse = entry.pulse;
+      }
+      if (latest.hba1c === undefined && entry.hba1c !== undefined) {
+        latest.hba1c = entry.hba1c;
+        latest.hba1cDate = formatDateKey(new Date(entry.timestamp), timeZone);
+      }
+    }
+
+    return latest;
+  }
+
   /**
    * Gets personal metrics
    * The API returns nested user/settings objects that need to be mapped
@@ -784,7 +1480,7 @@ class DiabetesMClient {
       const isSensitivity = settings.insulin_sensitivity_per_hour?.[0] ||
         settings.insulin_sensitivity_default;
       if (isSensitivity !== undefined && isSensitivity > 0) {
-        insulinSensitivity = Math.round(isSensitivity * 18.0182);
+        insulinSensitivity = mmolToMgdl(isSensitivity);
       }
 
       // Map diabetes type
@@ -804,9 +1500,10 @@ class DiabetesMClient {
         bmr: bmr,
         dailyCalorieNeeds: dailyCalorieNeeds,
         insulinSensitivity: insulinSensitivity,
-        diabetesType: diabetesType
-        // Note: blood pressure, pulse, and HbA1c are not in profile
-        // They come from logbook entries with those measurements
+        diabetesType: diabetesType,
+        // Blood pressure, pulse and HbA1c are not in the profile,
+        // they come from the latest diary entries with those measurements
+        ...await this.getLatestDiaryMeasurements()
       };
 
       await encryptedCache.set(cacheKey, metrics, 2 * 60 * 1000, true);
@@ -1002,18 +1699,8 @@ class DiabetesMClient {
           const foodMap = new Map<string, RawFoodItem>();
 
           for (const entry of diaryResponse.data.logEntryList) {
-            // Get foods from food_list array (preferred)
-            const foods = entry.food_list || [];
-
-            // Also try to parse legacy food JSON string
-            if (entry.food && typeof entry.food === 'string' && entry.food.length > 2) {
-              try {
-                const parsedFoods = JSON.parse(entry.food) as RawFoodItem[];
-                foods.push(...parsedFoods);
-              } catch {
-                // Ignore parse errors
-              }
-            }
+            // Foods from food_list array plus legacy food JSON string
+            const foods = collectRawFoods(entry.food_list, entry.food);
 
             // Add unique foods that match query
             for (const food of foods) {
@@ -1080,12 +1767,13 @@ class DiabetesMClient {
    */
   async generateHealthReport(
     period: string,
-    format: string
+    format: string,
+    timeZone?: string
   ): Promise<ApiResponse<HealthReport>> {
     const timer = auditLogger.startTimer();
 
     // Reports are not cached - always generated fresh
-    const { from, to } = dateRangeToParams(period);
+    const { from, to } = dateRangeToParams(period, await this.resolveTimeZone(timeZone));
 
     const response = await this.post<HealthReport>(ENDPOINTS.GENERATE_REPORT, {
       from,
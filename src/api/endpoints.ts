@@ -6,6 +6,8 @@
  * mechanisms and clear error messages when endpoints change.
  */
 
+import { addDays, getSystemTimeZone, todayKey } from '../utils/timezone.js';
+
 export const API_BASE_URL = 'https://analytics.diabetes-m.com';
 
 /**
@@ -113,12 +115,27 @@ export const RETRY_CONFIG = {
   RETRYABLE_STATUS_CODES: [408, 429, 500, 502, 503, 504]
 };
 
+/**
+ * Logbook pagination configuration
+ */
+export const PAGINATION = {
+  /** Default maximum number of diary pages fetched per request */
+  DEFAULT_MAX_PAGES: 20,
+  /** Hard upper bound for the configurable page cap */
+  MAX_PAGES_LIMIT: 100
+};
+
 /**
  * Date range to API parameter mapping
+ * Dates are calendar days (YYYY-MM-DD) in the given timezone
+ *
+ * @param timeZone - IANA timezone (default: system timezone)
  */
-export function dateRangeToParams(dateRange: string): { from: string; to: string } {
-  const now = new Date();
-  const to = now.toISOString().split('T')[0] as string;
+export function dateRangeToParams(
+  dateRange: string,
+  timeZone: string = getSystemTimeZone()
+): { from: string; to: string } {
+  const to = todayKey(timeZone);
   let from: string;
 
   switch (dateRange) {
@@ -127,21 +144,21 @@ export function dateRangeToParams(dateRange: string): { from: string; to: string
       break;
     case '7days':
     case '7':
-      from = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0] as string;
+      from = addDays(to, -7);
       break;
     case '14':
-      from = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0] as string;
+      from = addDays(to, -14);
       break;
     case '30days':
     case '30':
-      from = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0] as string;
+      from = addDays(to, -30);
       break;
     case '90days':
     case '90':
-      from = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000).toISOString().split('T')[0] as string;
+      from = addDays(to, -90);
       break;
     default:
-      from = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0] as string;
+      from = addDays(to, -7);
   }
 
   return { from, to };
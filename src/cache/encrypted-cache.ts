@@ -13,6 +13,7 @@ import { DEFAULT_SECURITY_CONFIG } from '../types/security.js';
 interface CacheEntry<T> {
   data: T | string; // T for plain, encrypted string for sensitive
   encrypted: boolean;
+  namespace: string; // Key segment before the first ':' (e.g. 'logbook')
   expiresAt: number;
   createdAt: number;
 }
@@ -31,6 +32,13 @@ class EncryptedCache {
     return createHash('sha256').update(key).digest('hex');
   }
 
+  /**
+   * Extracts the namespace of a cache key (segment before the first ':')
+   */
+  private namespaceOf(key: string): string {
+    return key.split(':')[0] as string;
+  }
+
   /**
    * Ensures master key is loaded
    */
@@ -70,6 +78,7 @@ class EncryptedCache {
     const entry: CacheEntry<T> = {
       data: storedData,
       encrypted: encrypt,
+      namespace: this.namespaceOf(key),
       expiresAt: now + ttlMs,
       createdAt: now
     };
@@ -142,6 +151,26 @@ class EncryptedCache {
     return this.cache.delete(hashedKey);
   }
 
+  /**
+   * Deletes all entries in a namespace (e.g. 'logbook' removes every 'logbook:*' key)
+   *
+   * Keys are stored hashed, so the namespace is kept alongside each entry.
+   *
+   * @returns Number of entries removed
+   */
+  deleteNamespace(namespace: string): number {
+    let removed = 0;
+
+    for (const [key, entry] of this.cache.entries()) {
+      if (entry.namespace === namespace) {
+        this.cache.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
   /**
    * Clears all cached data
    */
@@ -89,6 +89,23 @@ async function main(): Promise<void> {
     console.error('    - get_personal_metrics: Get personal health metrics');
     console.error('    - search_foods: Search food database');
     console.error('    - generate_health_report: Generate health reports');
+    console.error('    - get_diary_calendar: Days with diary data and per-day counts');
+    console.error('    - get_agp: Ambulatory Glucose Profile (percentiles by time of day)');
+    console.error('    - get_glycemic_variability: MAGE, CONGA, MODD, J-index, LBGI/HBGI');
+    console.error('    - detect_patterns: Recurring lows, highs, post-meal spikes and weekday effects');
+    console.error('    - analyze_overnight: Overnight stability, dawn phenomenon, nocturnal hypos');
+    console.error('    - meal_impact: Per-meal glucose excursions vs carbs, bolus and IC ratio');
+    console.error('    - audit_ic_ratios: Configured vs observed IC ratios from clean meal boluses');
+    console.error('    - estimate_isf: Effective ISF from isolated corrections vs schedule');
+    console.error('    - calculate_bolus: Bolus suggestion from profile ratio, ISF, target and IOB');
+    console.error('    - get_cob: Carbs on Board with configurable absorption');
+    console.error('    - forecast_glucose: Short-term glucose forecast with low alerts');
+    console.error('    - evaluate_basal_test: Fasting basal test drift and verdict');
+    console.error('    - compare_periods: Period-over-period comparison of key metrics');
+    console.error('  Logbook Write Tools:');
+    console.error('    - create_logbook_entry: Add a logbook entry (preview + confirm)');
+    console.error('    - update_logbook_entry: Correct a logbook entry (diff + confirm)');
+    console.error('    - delete_logbook_entry: Delete a logbook entry (preview + confirm)');
   } catch (error) {
     console.error('[DiabetesM-MCP] Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,240 @@
+/**
+ * Tool: analyze_overnight
+ *
+ * Analyzes a fixed sleep window night by night: bedtime-to-wake delta,
+ * overnight nadir, early-morning (03:00-08:00) rise and any corrections,
+ * then gives a verdict on dawn phenomenon and how often nocturnal
+ * hypoglycemia occurs.
+ *
+ * Security:
+ * - Input validation with Zod
+ * - Logbook data read through the encrypted cache
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { AnalyzeOvernightInputSchema } from '../types/tools.js';
+import { formatGlucose, fromMgdl } from '../utils/units.js';
+import { addDays, formatTime, todayKey, zonedTimeToUtc } from '../utils/timezone.js';
+import { GLUCOSE_THRESHOLDS, extractGlucoseReadings, preferSensorReadings } from '../analysis/glucose-statistics.js';
+import {
+  DAWN_RISE_THRESHOLD,
+  STABLE_NIGHT_DELTA,
+  analyzeOvernight,
+  type DawnPhenomenonVerdict
+} from '../analysis/overnight.js';
+import {
+  LOGBOOK_DATE_PROPERTIES,
+  describeCompleteness,
+  describePeriod,
+  resolveDateSelection
+} from './get-logbook-entries.js';
+import type { GlucoseUnit } from '../types/api.js';
+
+/** Nights analyzed when no period is given */
+const DEFAULT_OVERNIGHT_DAYS = 14;
+
+export const analyzeOvernightToolDefinition = {
+  name: 'analyze_overnight',
+  description: 'Analyze nights in a fixed sleep window: bedtime-to-wake glucose change, overnight low point and its time, rise during 03:00-08:00 and whether a correction was given. Ends with a verdict on dawn phenomenon (early-morning rise without food) and how often nocturnal hypoglycemia occurs. Defaults to the last 14 nights.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      ...LOGBOOK_DATE_PROPERTIES,
+      sleepStart: {
+        type: 'string',
+        description: 'Usual bedtime, HH:MM (default: 23:00)'
+      },
+      sleepEnd: {
+        type: 'string',
+        description: 'Usual wake-up time, HH:MM (default: 07:00)'
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for the output (default: the unit configured in your Diabetes:M profile)'
+      }
+    }
+  },
+  annotations: {
+    title: 'Analyze Overnight Glucose',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  }
+};
+
+/**
+ * One night, glucose values in the output unit
+ */
+export interface OvernightNight {
+  /** Wake-up date (YYYY-MM-DD) */
+  date: string;
+  readings: number;
+  bedtimeGlucose: number | null;
+  wakeGlucose: number | null;
+  delta: number | null;
+  nadir: { glucose: number; time: string } | null;
+  dawnRise: number | null;
+  dawnRiseDetected: boolean;
+  /** Corrections given during the night, e.g. "02:10 1.5u" */
+  corrections: string[];
+  carbs: number;
+  hypo: boolean;
+  severeHypo: boolean;
+}
+
+export interface AnalyzeOvernightResult {
+  period: string;
+  timezone: string;
+  completeness: string;
+  unit: GlucoseUnit;
+  sleepWindow: string;
+  /** 'sensor' when CGM readings exist, otherwise all readings */
+  basis: 'sensor' | 'all readings';
+  nightsAnalyzed: number;
+  nightsWithData: number;
+  nights: OvernightNight[];
+  dawnPhenomenon: {
+    verdict: DawnPhenomenonVerdict;
+    eligibleNights: number;
+    nightsWithRise: number;
+    medianRise: number | null;
+    criterion: string;
+  };
+  nocturnalHypos: {
+    nights: number;
+    severeNights: number;
+    frequency: string;
+  };
+  stability: {
+    medianAbsoluteDelta: number | null;
+    stableNights: number;
+    criterion: string;
+  };
+  summary: string;
+}
+
+/**
+ * Executes the analyze_overnight tool
+ */
+export async function executeAnalyzeOvernight(args: unknown): Promise<AnalyzeOvernightResult> {
+  // Validate input
+  const validatedInput = AnalyzeOvernightInputSchema.parse(args ?? {});
+  const sleepStart = validatedInput.sleepStart ?? '23:00';
+  const sleepEnd = validatedInput.sleepEnd ?? '07:00';
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+
+  if (sleepStart === sleepEnd) {
+    throw new Error('sleepStart and sleepEnd must differ');
+  }
+
+  // Default to the last 14 nights
+  const today = todayKey(timeZone);
+  const selection = validatedInput.dateRange || validatedInput.date || validatedInput.startDate
+    ? validatedInput
+    : { ...validatedInput, startDate: addDays(today, -(DEFAULT_OVERNIGHT_DAYS - 1)), endDate: today };
+  const { from, to } = resolveDateSelection(selection, timeZone);
+  // Tonight is only analyzed once it has ended
+  const lastFinishedNight = zonedTimeToUtc(today, timeZone, sleepEnd) <= Date.now() ? today : addDays(today, -1);
+  const lastNight = to > lastFinishedNight ? lastFinishedNight : to;
+  if (lastNight < from) {
+    throw new Error('The selected period has no finished nights yet');
+  }
+
+  // Nights start the evening before their wake-up date
+  const response = await diabetesMClient.getLogbookEntries(
+    undefined, undefined, undefined, addDays(from, -1), lastNight, { maxPages: selection.maxPages, timeZone }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to retrieve logbook entries'
+    );
+  }
+
+  const { basis, readings } = preferSensorReadings(extractGlucoseReadings(response.data));
+  const analysis = analyzeOvernight(response.data, readings, from, lastNight, timeZone, { sleepStart, sleepEnd });
+
+  const toUnit = (value: number | null) => (value !== null ? fromMgdl(value, unit) : null);
+  const nights: OvernightNight[] = analysis.nights.map(night => ({
+    date: night.date,
+    readings: night.readings,
+    bedtimeGlucose: toUnit(night.bedtimeGlucose),
+    wakeGlucose: toUnit(night.wakeGlucose),
+    delta: toUnit(night.delta),
+    nadir: night.nadir && {
+      glucose: fromMgdl(night.nadir.glucose, unit),
+      time: formatTime(new Date(night.nadir.time), timeZone)
+    },
+    dawnRise: toUnit(night.dawnRise),
+    dawnRiseDetected: night.dawnRiseDetected,
+    corrections: night.corrections.map(c => `${formatTime(new Date(c.time), timeZone)} ${c.units}u`),
+    carbs: night.carbs,
+    hypo: night.hypo,
+    severeHypo: night.severeHypo
+  }));
+
+  // Summary
+  const { dawn, hypo } = analysis;
+  const summaryParts: string[] = [];
+  if (analysis.nightsWithData === 0) {
+    summaryParts.push('No glucose readings during the sleep window in the selected period.');
+  } else {
+    switch (dawn.verdict) {
+      case 'likely':
+      case 'possible':
+        summaryParts.push(
+          `Dawn phenomenon ${dawn.verdict}: glucose rose by ${formatGlucose(DAWN_RISE_THRESHOLD, unit)} or more ` +
+          `without food on ${dawn.nightsWithRise} of ${dawn.eligibleNights} nights ` +
+          `(median rise ${formatGlucose(dawn.medianRise ?? 0, unit)}).`
+        );
+        break;
+      case 'unlikely':
+        summaryParts.push(
+          `Dawn phenomenon unlikely: an early-morning rise appeared on only ${dawn.nightsWithRise} of ${dawn.eligibleNights} nights without food.`
+        );
+        break;
+      default:
+        summaryParts.push('Not enough nights without food, corrections or hypoglycemia to judge dawn phenomenon.');
+    }
+    summaryParts.push(hypo.nights > 0
+      ? `Nocturnal hypoglycemia on ${hypo.nights} of ${analysis.nightsWithData} nights (${hypo.frequency}%)` +
+        (hypo.severeNights > 0 ? `, ${hypo.severeNights} below ${formatGlucose(GLUCOSE_THRESHOLDS.VERY_LOW, unit)}.` : '.')
+      : 'No nocturnal hypoglycemia.');
+  }
+  if (basis !== 'sensor' && analysis.nightsWithData > 0) {
+    summaryParts.push('No CGM readings: overnight values come from fingersticks and may miss events.');
+  }
+
+  return {
+    period: describePeriod(selection, timeZone),
+    timezone: timeZone,
+    completeness: describeCompleteness(response.pagination),
+    unit,
+    sleepWindow: `${sleepStart}-${sleepEnd}`,
+    basis,
+    nightsAnalyzed: nights.length,
+    nightsWithData: analysis.nightsWithData,
+    nights,
+    dawnPhenomenon: {
+      verdict: dawn.verdict,
+      eligibleNights: dawn.eligibleNights,
+      nightsWithRise: dawn.nightsWithRise,
+      medianRise: toUnit(dawn.medianRise),
+      criterion: `Rise of at least ${formatGlucose(DAWN_RISE_THRESHOLD, unit)} between 03:00 and 08:00, on nights without carbs, corrections or hypoglycemia`
+    },
+    nocturnalHypos: {
+      nights: hypo.nights,
+      severeNights: hypo.severeNights,
+      frequency: `${hypo.frequency}% of nights`
+    },
+    stability: {
+      medianAbsoluteDelta: toUnit(analysis.medianAbsoluteDelta),
+      stableNights: analysis.stableNights,
+      criterion: `Bedtime-to-wake change within ±${formatGlucose(STABLE_NIGHT_DELTA, unit)} and no hypoglycemia`
+    },
+    summary: summaryParts.join(' ')
+  };
+}
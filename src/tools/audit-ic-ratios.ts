@@ -0,0 +1,222 @@
+/**
+ * Tool: audit_ic_ratios
+ *
+ * Checks the configured carb ratios against what actually happened after
+ * clean meal boluses (no stacked correction or earlier bolus, no second
+ * meal, in-range start). The 4-hour outcome of each meal is converted into
+ * an effective carb ratio, summarized per meal slot with sample size and
+ * confidence, as a starting point for a talk with the diabetes team.
+ *
+ * Security:
+ * - Input validation with Zod
+ * - Logbook and profile data read through the encrypted cache
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { AuditIcRatiosInputSchema } from '../types/tools.js';
+import { formatGlucose, fromMgdl } from '../utils/units.js';
+import { addDays, dayBounds, formatTime, todayKey } from '../utils/timezone.js';
+import { GLUCOSE_THRESHOLDS, extractGlucoseReadings, preferSensorReadings } from '../analysis/glucose-statistics.js';
+import { auditIcRatios, type AuditConfidence, type MealSlot } from '../analysis/ic-ratio-audit.js';
+import {
+  LOGBOOK_DATE_PROPERTIES,
+  describeCompleteness,
+  describePeriod,
+  resolveDateSelection
+} from './get-logbook-entries.js';
+import type { GlucoseUnit } from '../types/api.js';
+
+/** Days analyzed when no period is given */
+const DEFAULT_AUDIT_DAYS = 30;
+
+/** Most recent clean meals listed individually */
+const MAX_MEALS_LISTED = 30;
+
+/** Observed ratios within this many percent of the configured one are "in line" */
+const AGREEMENT_MARGIN = 15;
+
+export const auditIcRatiosToolDefinition = {
+  name: 'audit_ic_ratios',
+  description: 'Check whether the configured insulin-to-carb (IC) ratios work in practice. Finds clean meal boluses (no correction stacked nearby, no earlier bolus still active, no second meal, pre-meal glucose in range), compares glucose 3-4 hours after the meal with the starting value and estimates the effective carb ratio per meal slot (breakfast, lunch, dinner). Returns configured vs observed ratios with sample size and confidence. For discussion with the diabetes team, not for changing settings on your own. Defaults to the last 30 days.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      ...LOGBOOK_DATE_PROPERTIES,
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for the output (default: the unit configured in your Diabetes:M profile)'
+      }
+    }
+  },
+  annotations: {
+    title: 'Audit IC Ratios',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  }
+};
+
+export interface IcRatioSlotResult {
+  slot: MealSlot;
+  samples: number;
+  /** Configured ratio, grams per unit */
+  configuredRatio: number | null;
+  /** Median effective ratio, grams per unit */
+  observedRatio: number | null;
+  observedRange: [number, number] | null;
+  /** Median change from pre-meal glucose to the outcome, in the output unit */
+  medianOutcomeDelta: number | null;
+  /** (observed - configured) / configured, in percent */
+  difference: number | null;
+  confidence: AuditConfidence;
+  assessment: string;
+}
+
+export interface CleanMealResult {
+  date: string;
+  time: string;
+  slot: MealSlot;
+  carbs: number;
+  bolus: number;
+  preMeal: number;
+  outcome: number;
+  outcomeHours: number;
+  effectiveRatio: number;
+}
+
+export interface AuditIcRatiosResult {
+  period: string;
+  timezone: string;
+  completeness: string;
+  unit: GlucoseUnit;
+  mealsConsidered: number;
+  cleanMeals: number;
+  slots: IcRatioSlotResult[];
+  /** Why meals were left out, with counts */
+  excluded: Record<string, number>;
+  /** Most recent clean meals first */
+  meals: CleanMealResult[];
+  method: string;
+  disclaimers: string[];
+  summary: string;
+}
+
+/**
+ * Plain-language reading of one slot
+ */
+function assessSlot(slot: IcRatioSlotResult): string {
+  if (slot.samples === 0) {
+    return 'No clean meals in this slot.';
+  }
+  if (slot.configuredRatio === null || slot.difference === null) {
+    return `Observed 1u/${slot.observedRatio}g; no ratio configured for comparison.`;
+  }
+  if (Math.abs(slot.difference) < AGREEMENT_MARGIN) {
+    return `Observed 1u/${slot.observedRatio}g is in line with the configured 1u/${slot.configuredRatio}g.`;
+  }
+  return slot.difference < 0
+    ? `Observed 1u/${slot.observedRatio}g: meals needed more insulin than the configured 1u/${slot.configuredRatio}g gives (glucose tended to end higher).`
+    : `Observed 1u/${slot.observedRatio}g: meals needed less insulin than the configured 1u/${slot.configuredRatio}g gives (glucose tended to end lower).`;
+}
+
+/**
+ * Executes the audit_ic_ratios tool
+ */
+export async function executeAuditIcRatios(args: unknown): Promise<AuditIcRatiosResult> {
+  // Validate input
+  const validatedInput = AuditIcRatiosInputSchema.parse(args ?? {});
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+
+  // Default to the last 30 days
+  const today = todayKey(timeZone);
+  const selection = validatedInput.dateRange || validatedInput.date || validatedInput.startDate
+    ? validatedInput
+    : { ...validatedInput, startDate: addDays(today, -(DEFAULT_AUDIT_DAYS - 1)), endDate: today };
+  const { from, to } = resolveDateSelection(selection, timeZone);
+
+  const settingsResponse = await diabetesMClient.getTherapySettings();
+  if (!settingsResponse.success || !settingsResponse.data) {
+    throw new Error(
+      settingsResponse.error?.message || 'Failed to read IC ratios and ISF from the profile'
+    );
+  }
+
+  // Earlier boluses and late outcomes fall on the neighbouring days
+  const nextDay = addDays(to, 1);
+  const response = await diabetesMClient.getLogbookEntries(
+    undefined, undefined, undefined, addDays(from, -1), nextDay > today ? today : nextDay,
+    { maxPages: selection.maxPages, timeZone }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to retrieve logbook entries'
+    );
+  }
+
+  const { readings } = preferSensorReadings(extractGlucoseReadings(response.data));
+  const audit = auditIcRatios(
+    response.data, readings, dayBounds(from, timeZone).start, dayBounds(to, timeZone).end, timeZone,
+    settingsResponse.data
+  );
+
+  const slots: IcRatioSlotResult[] = audit.slots.map(slot => {
+    const rendered: IcRatioSlotResult = {
+      ...slot,
+      medianOutcomeDelta: slot.medianOutcomeDelta !== null ? fromMgdl(slot.medianOutcomeDelta, unit) : null,
+      assessment: ''
+    };
+    rendered.assessment = assessSlot(rendered);
+    return rendered;
+  });
+
+  // Summary
+  const withSamples = slots.filter(slot => slot.samples > 0);
+  let summary: string;
+  if (withSamples.length === 0) {
+    summary = `None of the ${audit.mealsConsidered} meal(s) qualified as a clean meal bolus; try a longer period.`;
+  } else {
+    summary = `${audit.cleanMeals.length} clean meal bolus(es) out of ${audit.mealsConsidered} meal(s). ` +
+      withSamples
+        .map(slot => `${slot.slot}: observed 1u/${slot.observedRatio}g` +
+          (slot.configuredRatio !== null ? ` vs configured 1u/${slot.configuredRatio}g` : '') +
+          ` (n=${slot.samples}, ${slot.confidence} confidence)`)
+        .join('; ') + '.';
+  }
+
+  return {
+    period: describePeriod(selection, timeZone),
+    timezone: timeZone,
+    completeness: describeCompleteness(response.pagination),
+    unit,
+    mealsConsidered: audit.mealsConsidered,
+    cleanMeals: audit.cleanMeals.length,
+    slots,
+    excluded: audit.excluded,
+    meals: audit.cleanMeals
+      .slice(-MAX_MEALS_LISTED)
+      .reverse()
+      .map(meal => ({
+        date: meal.date,
+        time: formatTime(new Date(meal.time), timeZone),
+        slot: meal.slot,
+        carbs: meal.carbs,
+        bolus: meal.bolus,
+        preMeal: fromMgdl(meal.preMeal, unit),
+        outcome: fromMgdl(meal.outcome, unit),
+        outcomeHours: meal.outcomeHours,
+        effectiveRatio: meal.effectiveRatio
+      })),
+    method: 'Effective ratio = carbs / (bolus + (glucose 4h after - pre-meal glucose) / ISF), ' +
+      `using clean meal boluses with pre-meal glucose between ${formatGlucose(GLUCOSE_THRESHOLDS.LOW, unit)} and ${formatGlucose(GLUCOSE_THRESHOLDS.HIGH, unit)}.`,
+    disclaimers: [
+      'This analysis is for informational purposes and does not constitute medical advice.',
+      'Discuss any change to your IC ratios with your diabetes team before applying it.',
+      'Unlogged carbs, exercise, illness or absorption differences can bias the observed ratios.'
+    ],
+    summary
+  };
+}
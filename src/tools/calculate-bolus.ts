@@ -0,0 +1,306 @@
+/**
+ * Tool: calculate_bolus
+ *
+ * Suggests a meal and/or correction bolus from the profile settings in
+ * effect right now:
+ * - IC ratio and ISF of the current half-hour slot (48-value schedules)
+ * - target glucose (argument, or a conservative default: the profile
+ *   target is not read until its key is confirmed)
+ * - insulin on board from get_iob
+ *
+ * IOB always lowers the dose, but against a positive correction it is
+ * only offset up to the correction, so it never cancels the carb bolus
+ * of a new meal. The result is rounded down to the pen/pump increment and
+ * capped at a maximum. Every step of the arithmetic is returned.
+ *
+ * Nothing is written to the logbook.
+ *
+ * Security:
+ * - Input validation with Zod
+ * - Refuses implausible inputs and hypoglycemia
+ * - Profile and logbook data read through the encrypted cache
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { CalculateBolusInputSchema } from '../types/tools.js';
+import { formatGlucose, fromMgdl, glucoseInputToMgdl } from '../utils/units.js';
+import { formatTime } from '../utils/timezone.js';
+import { GLUCOSE_THRESHOLDS } from '../analysis/glucose-statistics.js';
+import { formatSlot, scheduleValueAt, slotIndexAt } from '../analysis/therapy-schedule.js';
+import { INSULIN_CURVE_PROPERTIES, executeGetIOB } from './get-iob.js';
+import { describeInsulinCurve } from '../analysis/insulin-activity.js';
+import { calculateBolusDose } from '../analysis/bolus-calculation.js';
+import type { GlucoseUnit } from '../types/api.js';
+
+/** Target used when no argument gives one (mg/dL) */
+const DEFAULT_TARGET_GLUCOSE = 110;
+
+/** Accepted target range (mg/dL) */
+const TARGET_RANGE = { min: 80, max: 180 };
+
+export const calculateBolusToolDefinition = {
+  name: 'calculate_bolus',
+  description: 'Suggest a bolus for the carbs about to be eaten and/or the current glucose, using the IC ratio and ISF configured for the current time slot, the target glucose and the insulin on board. Rounds down to the pen/pump increment, caps at a maximum dose and shows every step of the arithmetic. Refuses implausible inputs and glucose below 70 mg/dL. The result is a suggestion to double-check, not a prescription; nothing is logged.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      carbs: {
+        type: 'number',
+        description: 'Carbs about to be eaten, in grams (0 for a correction only)',
+        minimum: 0,
+        maximum: 300
+      },
+      currentGlucose: {
+        type: 'number',
+        description: 'Current glucose in the output unit. Omit to skip the correction.'
+      },
+      targetGlucose: {
+        type: 'number',
+        description: 'Target glucose for the correction, in the output unit (default: 110 mg/dL / 6.1 mmol/L)'
+      },
+      dia: {
+        type: 'number',
+        description: 'Duration of Insulin Action in hours used for IOB (default: insulinType preset, else 4)',
+        minimum: 2,
+        maximum: 8
+      },
+      ...INSULIN_CURVE_PROPERTIES,
+      increment: {
+        type: 'number',
+        enum: [0.05, 0.1, 0.5, 1],
+        description: 'Dose step of the pen or pump; the result is rounded down to it (default: 0.5)',
+        default: 0.5
+      },
+      maxBolus: {
+        type: 'number',
+        description: 'Largest dose the calculator will suggest, in units (default: 10)',
+        minimum: 0.5,
+        maximum: 50,
+        default: 10
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for input and output (default: the unit configured in your Diabetes:M profile)'
+      },
+      timezone: {
+        type: 'string',
+        description: 'IANA timezone used to pick the current time slot, e.g. "Europe/Rome" (default: account setting, else system timezone)'
+      }
+    },
+    required: ['carbs']
+  },
+  annotations: {
+    title: 'Calculate Bolus',
+    readOnlyHint: true,
+    idempotentHint: false,
+    openWorldHint: true
+  }
+};
+
+export interface CalculateBolusResult {
+  /** Suggested dose in units, after rounding and cap */
+  suggestedBolus: number;
+  unit: GlucoseUnit;
+  timezone: string;
+  calculatedAt: string;
+  inputs: {
+    carbs: number;
+    currentGlucose: number | null;
+    targetGlucose: number;
+    targetSource: 'argument' | 'default';
+  };
+  settings: {
+    /** Half-hour slot whose settings were used, "12:00-12:30" */
+    slot: string;
+    /** Grams of carbs per unit */
+    icRatio: number | null;
+    /** Glucose drop per unit, in the output unit */
+    isf: number | null;
+    dia: number;
+    /** Insulin action curve used for IOB */
+    insulinCurve: string;
+    increment: number;
+    maxBolus: number;
+  };
+  breakdown: {
+    carbBolus: number;
+    correctionBolus: number;
+    iob: number;
+    /** Part of the IOB subtracted */
+    iobApplied: number;
+    beforeRounding: number;
+    capped: boolean;
+  };
+  /** Every step of the arithmetic */
+  steps: string[];
+  warnings: string[];
+  disclaimers: string[];
+  summary: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Executes the calculate_bolus tool
+ */
+export async function executeCalculateBolus(args: unknown): Promise<CalculateBolusResult> {
+  // Validate input
+  const validatedInput = CalculateBolusInputSchema.parse(args);
+  const { carbs } = validatedInput;
+  const increment = validatedInput.increment ?? 0.5;
+  const maxBolus = validatedInput.maxBolus ?? 10;
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+
+  // Refusals for implausible or unsafe inputs
+  const glucose = glucoseInputToMgdl(validatedInput.currentGlucose, unit);
+  if (glucose !== undefined && glucose < GLUCOSE_THRESHOLDS.LOW) {
+    throw new Error(
+      `Refusing to calculate a bolus: glucose ${formatGlucose(glucose, unit)} is below ${formatGlucose(GLUCOSE_THRESHOLDS.LOW, unit)}. ` +
+      'Treat the low first (fast-acting carbs, recheck in 15 minutes) and follow your hypoglycemia plan.'
+    );
+  }
+  if (carbs === 0 && glucose === undefined) {
+    throw new Error('Nothing to calculate: provide carbs, the current glucose, or both');
+  }
+
+  const settingsResponse = await diabetesMClient.getTherapySettings();
+  if (!settingsResponse.success || !settingsResponse.data) {
+    throw new Error(
+      settingsResponse.error?.message || 'Failed to read IC ratios and ISF from the profile'
+    );
+  }
+  const settings = settingsResponse.data;
+
+  let targetSource: CalculateBolusResult['inputs']['targetSource'] = 'default';
+  let target = DEFAULT_TARGET_GLUCOSE;
+  if (validatedInput.targetGlucose !== undefined) {
+    target = glucoseInputToMgdl(validatedInput.targetGlucose, unit)!;
+    targetSource = 'argument';
+  }
+  if (target < TARGET_RANGE.min || target > TARGET_RANGE.max) {
+    throw new Error(
+      `Refusing to calculate a bolus: target ${formatGlucose(target, unit)} is outside ` +
+      `${formatGlucose(TARGET_RANGE.min, unit)} - ${formatGlucose(TARGET_RANGE.max, unit)}`
+    );
+  }
+
+  // Settings of the current half-hour slot
+  const now = Date.now();
+  const slot = slotIndexAt(now, timeZone);
+  const icRatio = scheduleValueAt(settings.icRatioPerSlot, slot, settings.icRatioDefault);
+  const isf = scheduleValueAt(settings.isfPerSlot, slot, settings.isfDefault);
+  if (carbs > 0 && icRatio === null) {
+    throw new Error('Refusing to calculate a bolus: no IC ratio is configured in the profile');
+  }
+  if (glucose !== undefined && isf === null) {
+    throw new Error('Refusing to calculate a bolus: no ISF is configured in the profile');
+  }
+
+  const iobResult = await executeGetIOB({
+    dia: validatedInput.dia,
+    model: validatedInput.model,
+    insulinType: validatedInput.insulinType,
+    peakMinutes: validatedInput.peakMinutes,
+    timezone: timeZone
+  });
+  const { iob, dia } = iobResult;
+
+  const steps: string[] = [
+    `Settings for ${formatSlot(slot)} (now ${formatTime(new Date(now), timeZone)}, ${timeZone}): ` +
+      `IC ratio ${icRatio !== null ? `1u/${icRatio}g` : 'not set'}, ISF ${isf !== null ? `${formatGlucose(isf, unit)}/u` : 'not set'}.`
+  ];
+
+  const dose = calculateBolusDose({ carbs, icRatio, glucose, target, isf, iob, increment, maxBolus });
+  const { carbBolus, correctionBolus, iobApplied, beforeRounding, suggestedBolus, capped } = dose;
+
+  // 1. Carb bolus
+  steps.push(carbs > 0
+    ? `Carb bolus: ${carbs}g / ${icRatio}g per unit = ${round2(carbBolus)}u`
+    : 'Carb bolus: no carbs = 0u');
+
+  // 2. Correction
+  if (glucose !== undefined) {
+    steps.push(
+      `Correction: (${formatGlucose(glucose, unit)} - ${formatGlucose(target, unit)} target) / ` +
+      `${formatGlucose(isf!, unit)} per unit = ${round2(correctionBolus)}u`
+    );
+  } else {
+    steps.push('Correction: no current glucose given = 0u');
+  }
+
+  // 3. Insulin on board
+  steps.push(correctionBolus > 0 && iob > correctionBolus
+    ? `IOB: ${round2(iob)}u on board, offset only up to the correction = -${round2(iobApplied)}u`
+    : `IOB: ${round2(iob)}u on board (DIA ${dia}h) = -${round2(iobApplied)}u`);
+
+  // 4. Total, rounding and cap
+  steps.push(
+    `Total: ${round2(carbBolus)}u + ${round2(correctionBolus)}u - ${round2(iobApplied)}u = ` +
+    `${round2(dose.total)}u` +
+    (dose.total < 0 ? ' (negative, so 0u)' : '')
+  );
+  steps.push(`Rounded down to the ${increment}u increment: ${dose.rounded}u`);
+  if (capped) {
+    steps.push(`Capped at the ${maxBolus}u maximum: ${suggestedBolus}u`);
+  }
+
+  const warnings: string[] = [];
+  if (capped) {
+    warnings.push(`The calculated dose exceeded the ${maxBolus}u maximum and was capped. Check the inputs before dosing.`);
+  }
+  if (targetSource === 'default') {
+    warnings.push(`No target glucose given: ${formatGlucose(DEFAULT_TARGET_GLUCOSE, unit)} used. Pass targetGlucose to use your own target.`);
+  }
+  if (glucose === undefined) {
+    warnings.push('No current glucose given: the dose covers the carbs only. Check your glucose before dosing.');
+  }
+  if (glucose !== undefined && glucose > GLUCOSE_THRESHOLDS.VERY_HIGH) {
+    warnings.push(`Glucose above ${formatGlucose(GLUCOSE_THRESHOLDS.VERY_HIGH, unit)}: follow your sick-day plan and check ketones if advised.`);
+  }
+  if (beforeRounding === 0 && carbs > 0) {
+    warnings.push('Insulin on board already covers this meal according to the calculation. Recheck glucose before eating.');
+  }
+
+  return {
+    suggestedBolus,
+    unit,
+    timezone: timeZone,
+    calculatedAt: new Date(now).toISOString(),
+    inputs: {
+      carbs,
+      currentGlucose: glucose !== undefined ? fromMgdl(glucose, unit) : null,
+      targetGlucose: fromMgdl(target, unit),
+      targetSource
+    },
+    settings: {
+      slot: formatSlot(slot),
+      icRatio,
+      isf: isf !== null ? fromMgdl(isf, unit) : null,
+      dia,
+      insulinCurve: describeInsulinCurve(iobResult.curve),
+      increment,
+      maxBolus
+    },
+    breakdown: {
+      carbBolus: round2(carbBolus),
+      correctionBolus: round2(correctionBolus),
+      iob: round2(iob),
+      iobApplied: round2(iobApplied),
+      beforeRounding: round2(beforeRounding),
+      capped
+    },
+    steps,
+    warnings,
+    disclaimers: [
+      'This is a calculation aid, not medical advice or a prescription.',
+      'Double-check the result against your own judgement and your diabetes team\'s instructions before dosing.',
+      'The suggestion depends on the profile settings and on every dose of the last hours being logged; missing entries make IOB too low.',
+      'Do not use it for exercise, illness, pregnancy or any situation your diabetes team has given different instructions for.'
+    ],
+    summary: `Suggested bolus: ${suggestedBolus}u ` +
+      `(carbs ${round2(carbBolus)}u + correction ${round2(correctionBolus)}u - IOB ${round2(iobApplied)}u` +
+      `${capped ? `, capped at ${maxBolus}u` : ''}). Double-check before dosing.`
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * Tool: compare_periods
+ *
+ * Computes the same metrics for two periods (this week vs last week, this
+ * month vs the same month last year, or custom ranges) and reports the
+ * absolute and relative change of each: TIR, TBR, mean glucose, CV, TDD,
+ * carbs and hypo episodes, labeled improving, stable or worsening.
+ *
+ * Security:
+ * - Input validation with Zod
+ * - Logbook data read through the encrypted cache
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { ComparePeriodsInputSchema } from '../types/tools.js';
+import { formatGlucose, fromMgdl } from '../utils/units.js';
+import { addDays, dayBounds, formatDateKey, todayKey, weekdayOf } from '../utils/timezone.js';
+import { extractGlucoseReadings } from '../analysis/glucose-statistics.js';
+import {
+  COMPARISON_THRESHOLDS,
+  comparePeriodMetrics,
+  computePeriodMetrics,
+  type ComparedMetric,
+  type PeriodMetrics,
+  type TrendLabel
+} from '../analysis/period-comparison.js';
+import { describeCompleteness, describePeriod } from './get-logbook-entries.js';
+import type { GlucoseUnit } from '../types/api.js';
+
+export const comparePeriodsToolDefinition = {
+  name: 'compare_periods',
+  description: 'Compare two periods: this week vs last week, this month vs the same month last year, or custom date ranges. Computes time in range, time below range, mean glucose, CV, total daily insulin dose, carbs per day and hypo episodes for both, with the absolute and relative change of each labeled improving, stable or worsening (TDD and carbs, which have no better direction, are labeled changed).',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      comparison: {
+        type: 'string',
+        enum: ['this_week_vs_last_week', 'this_month_vs_last_year', 'custom'],
+        description: 'Periods to compare (default: custom when dates are given, else this week vs last week). Weeks start on Monday.'
+      },
+      currentStartDate: {
+        type: 'string',
+        description: 'Start of the current period in YYYY-MM-DD format (custom comparison)'
+      },
+      currentEndDate: {
+        type: 'string',
+        description: 'End of the current period in YYYY-MM-DD format (custom comparison)'
+      },
+      previousStartDate: {
+        type: 'string',
+        description: 'Start of the period to compare against in YYYY-MM-DD format (custom comparison)'
+      },
+      previousEndDate: {
+        type: 'string',
+        description: 'End of the period to compare against in YYYY-MM-DD format (custom comparison)'
+      },
+      maxPages: {
+        type: 'number',
+        description: 'Maximum number of API pages to fetch per period (default: 20)',
+        minimum: 1,
+        maximum: 100
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for the output (default: the unit configured in your Diabetes:M profile)'
+      },
+      timezone: {
+        type: 'string',
+        description: 'IANA timezone for day boundaries, e.g. "Europe/Rome" (default: account setting, else system timezone)'
+      }
+    }
+  },
+  annotations: {
+    title: 'Compare Periods',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  }
+};
+
+export interface ComparedPeriod {
+  period: string;
+  completeness: string;
+  days: number;
+  readings: number;
+  basis: PeriodMetrics['basis'];
+  metrics: {
+    timeInRange: number | null;
+    timeBelowRange: number | null;
+    /** Mean glucose in the output unit */
+    mean: number | null;
+    cv: number | null;
+    tdd: number | null;
+    carbsPerDay: number | null;
+    hypoEpisodes: number;
+    hypoEpisodesPerWeek: number;
+  };
+}
+
+export interface MetricChange {
+  metric: string;
+  previous: number | null;
+  current: number | null;
+  delta: number | null;
+  /** Percent of the previous value */
+  relativeDelta: number | null;
+  label: TrendLabel;
+  /** Change still labeled stable */
+  stableWithin: string;
+}
+
+export interface ComparePeriodsResult {
+  comparison: 'this_week_vs_last_week' | 'this_month_vs_last_year' | 'custom';
+  unit: GlucoseUnit;
+  timezone: string;
+  current: ComparedPeriod;
+  previous: ComparedPeriod;
+  changes: MetricChange[];
+  notes: string[];
+  summary: string;
+}
+
+/** Display name per metric */
+const METRIC_NAMES: Record<ComparedMetric, string> = {
+  tir: 'Time in range (%)',
+  tbr: 'Time below range (%)',
+  mean: 'Mean glucose',
+  cv: 'Coefficient of variation (%)',
+  tdd: 'Total daily dose (u/day)',
+  carbs: 'Carbs (g/day)',
+  hypos: 'Hypo episodes per week'
+};
+
+/**
+ * Last day of the month of a YYYY-MM-DD date key
+ */
+function endOfMonth(dateKey: string): string {
+  const [year, month] = dateKey.split('-').map(Number);
+  const next = month === 12 ? `${year! + 1}-01-01` : `${year}-${String(month! + 1).padStart(2, '0')}-01`;
+  return addDays(next, -1);
+}
+
+/**
+ * Stable band of a metric in words
+ */
+function describeThreshold(metric: ComparedMetric, unit: GlucoseUnit): string {
+  const { stableWithin, relative } = COMPARISON_THRESHOLDS[metric];
+  if (relative) return `±${stableWithin}%`;
+  if (metric === 'mean') return `±${formatGlucose(stableWithin, unit)}`;
+  if (metric === 'hypos') return `±${stableWithin} per week`;
+  return `±${stableWithin} points`;
+}
+
+/**
+ * Executes the compare_periods tool
+ */
+export async function executeComparePeriods(args: unknown): Promise<ComparePeriodsResult> {
+  // Validate input
+  const validatedInput = ComparePeriodsInputSchema.parse(args ?? {});
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+  const comparison = validatedInput.comparison
+    ?? (validatedInput.currentStartDate ? 'custom' : 'this_week_vs_last_week');
+
+  // Resolve both periods as calendar days
+  const today = todayKey(timeZone);
+  let current: { startDate: string; endDate: string };
+  let previous: { startDate: string; endDate: string };
+  if (comparison === 'this_week_vs_last_week') {
+    const monday = addDays(today, -((weekdayOf(today) + 6) % 7));
+    current = { startDate: monday, endDate: today };
+    previous = { startDate: addDays(monday, -7), endDate: addDays(monday, -1) };
+  } else if (comparison === 'this_month_vs_last_year') {
+    const firstOfMonth = `${today.slice(0, 7)}-01`;
+    const lastYear = `${Number(today.slice(0, 4)) - 1}${firstOfMonth.slice(4)}`;
+    current = { startDate: firstOfMonth, endDate: today };
+    previous = { startDate: lastYear, endDate: endOfMonth(lastYear) };
+  } else {
+    current = { startDate: validatedInput.currentStartDate!, endDate: validatedInput.currentEndDate! };
+    previous = { startDate: validatedInput.previousStartDate!, endDate: validatedInput.previousEndDate! };
+    for (const period of [current, previous]) {
+      if (period.startDate > period.endDate) {
+        throw new Error(`Invalid range ${period.startDate} to ${period.endDate}: the start must not be after the end`);
+      }
+      if (period.startDate > today) {
+        throw new Error(`The period starting ${period.startDate} is in the future`);
+      }
+      if (period.endDate > today) {
+        period.endDate = today;
+      }
+    }
+  }
+
+  const now = Date.now();
+  const dayKey = (time: number) => formatDateKey(new Date(time), timeZone);
+  const analyze = async (period: { startDate: string; endDate: string }) => {
+    const response = await diabetesMClient.getLogbookEntries(
+      undefined, undefined, undefined, period.startDate, period.endDate,
+      { maxPages: validatedInput.maxPages, timeZone }
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(
+        response.error?.message || 'Failed to retrieve logbook entries'
+      );
+    }
+
+    const start = dayBounds(period.startDate, timeZone).start;
+    const end = Math.min(dayBounds(period.endDate, timeZone).end, now);
+    const metrics = computePeriodMetrics(response.data, extractGlucoseReadings(response.data), start, end, dayKey);
+    return { metrics, completeness: describeCompleteness(response.pagination) };
+  };
+
+  const previousData = await analyze(previous);
+  const currentData = await analyze(current);
+
+  const render = (
+    period: { startDate: string; endDate: string },
+    data: { metrics: PeriodMetrics; completeness: string }
+  ): ComparedPeriod => ({
+    period: describePeriod(period, timeZone),
+    completeness: data.completeness,
+    days: data.metrics.days,
+    readings: data.metrics.readings,
+    basis: data.metrics.basis,
+    metrics: {
+      timeInRange: data.metrics.tir,
+      timeBelowRange: data.metrics.tbr,
+      mean: data.metrics.mean !== null ? fromMgdl(data.metrics.mean, unit) : null,
+      cv: data.metrics.cv,
+      tdd: data.metrics.tdd,
+      carbsPerDay: data.metrics.carbs,
+      hypoEpisodes: data.metrics.hypoEpisodes,
+      hypoEpisodesPerWeek: data.metrics.hypos
+    }
+  });
+
+  const changes: MetricChange[] = comparePeriodMetrics(previousData.metrics, currentData.metrics).map(change => {
+    const toUnit = (value: number | null) =>
+      value !== null && change.metric === 'mean' ? fromMgdl(value, unit) : value;
+    return {
+      metric: METRIC_NAMES[change.metric],
+      previous: toUnit(change.previous),
+      current: toUnit(change.current),
+      delta: toUnit(change.delta),
+      relativeDelta: change.relativeDelta,
+      label: change.label,
+      stableWithin: describeThreshold(change.metric, unit)
+    };
+  });
+
+  // Notes on how fair the comparison is
+  const notes: string[] = [];
+  if (current.endDate === today) {
+    notes.push(`The current period is still in progress (${currentData.metrics.days} day(s) so far); averages are per day and hypo episodes per week.`);
+  }
+  if (currentData.metrics.basis && previousData.metrics.basis && currentData.metrics.basis !== previousData.metrics.basis) {
+    notes.push('One period has CGM data and the other only fingersticks: glucose metrics are not directly comparable.');
+  }
+  if (previousData.metrics.readings === 0 || currentData.metrics.readings === 0) {
+    notes.push('One period has no glucose readings: glucose metrics cannot be compared.');
+  }
+  notes.push('TDD and carbs are averaged over the days they were logged. A lower mean is only better while time below range does not rise.');
+
+  // Summary
+  const improving = changes.filter(change => change.label === 'improving').map(change => change.metric);
+  const worsening = changes.filter(change => change.label === 'worsening').map(change => change.metric);
+  const tir = changes[0]!;
+  let summary = `${describePeriod(current, timeZone)} vs ${describePeriod(previous, timeZone)}: `;
+  summary += tir.previous !== null && tir.current !== null
+    ? `time in range ${tir.previous}% → ${tir.current}% (${tir.label}). `
+    : 'time in range not available for both periods. ';
+  summary += improving.length > 0 ? `Improving: ${improving.join(', ')}. ` : 'Nothing improving beyond the stable bands. ';
+  summary += worsening.length > 0 ? `Worsening: ${worsening.join(', ')}.` : 'Nothing worsening beyond the stable bands.';
+
+  return {
+    comparison,
+    unit,
+    timezone: timeZone,
+    current: render(current, currentData),
+    previous: render(previous, previousData),
+    changes,
+    notes,
+    summary
+  };
+}
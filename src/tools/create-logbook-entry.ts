@@ -0,0 +1,196 @@
+/**
+ * Tool: create_logbook_entry
+ *
+ * Writes a new diary entry to Diabetes:M (glucose, insulin, carbs, notes
+ * and category).
+ *
+ * Two-step flow:
+ * - Without confirm: returns a dry-run preview and a preview token, nothing
+ *   is written
+ * - With confirm: true and the preview token: exactly the previewed entry is
+ *   created and cached logbook data is cleared. A token is used once, so a
+ *   repeated confirmation cannot log the same insulin or carbs twice
+ *
+ * Security:
+ * - Input validation with Zod (plausible value ranges)
+ * - Explicit confirmation of a shown preview before any write
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { CreateLogbookEntryInputSchema } from '../types/tools.js';
+import { simplifyEntry } from './get-logbook-entries.js';
+import { glucoseInputToMgdl } from '../utils/units.js';
+import { formatDateKey, parseDateTimeInput } from '../utils/timezone.js';
+import { PreviewTokenStore, previewTokenOf } from '../utils/preview-tokens.js';
+import type { LogbookEntry, LogbookEntryDraft, SimplifiedLogbookEntry } from '../types/api.js';
+
+/** Previewed drafts awaiting confirmation */
+const pendingPreviews = new PreviewTokenStore<LogbookEntryDraft>();
+
+export const createLogbookEntryToolDefinition = {
+  name: 'create_logbook_entry',
+  description: 'Create a new Diabetes:M logbook entry with glucose, bolus/correction/basal insulin, carbs, notes and category. The first call returns a dry-run preview and a previewToken; show the preview to the user and, only after they approve it, call again with confirm: true and that previewToken. The confirmed write is exactly the previewed entry.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      timestamp: {
+        type: 'string',
+        description: 'Entry time as ISO 8601 date-time (e.g., 2025-12-25T13:30:00). Without an offset it is read in the selected timezone. Default: now.'
+      },
+      glucose: {
+        type: 'number',
+        description: 'Glucose reading in the selected unit (mg/dL: 20-600, mmol/L: 1.1-33.3)'
+      },
+      insulinBolus: {
+        type: 'number',
+        description: 'Meal bolus insulin in units',
+        minimum: 0,
+        maximum: 50
+      },
+      insulinCorrection: {
+        type: 'number',
+        description: 'Correction bolus insulin in units',
+        minimum: 0,
+        maximum: 50
+      },
+      insulinBasal: {
+        type: 'number',
+        description: 'Basal insulin in units',
+        minimum: 0,
+        maximum: 100
+      },
+      carbs: {
+        type: 'number',
+        description: 'Carbohydrates in grams',
+        minimum: 0,
+        maximum: 500
+      },
+      notes: {
+        type: 'string',
+        description: 'Free-text note',
+        maxLength: 500
+      },
+      category: {
+        type: 'string',
+        enum: ['breakfast', 'after_breakfast', 'lunch', 'after_lunch', 'dinner', 'after_dinner', 'snack', 'other', 'fasting', 'bedtime'],
+        description: 'Entry category'
+      },
+      confirm: {
+        type: 'boolean',
+        description: 'Set to true, together with previewToken, to write the previewed entry. When false or omitted, only a preview is returned.',
+        default: false
+      },
+      previewToken: {
+        type: 'string',
+        description: 'Token returned by the dry-run preview (required with confirm: true, valid for 15 minutes and usable once). Entry fields may be omitted; if given they must match the preview.'
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for input and output (default: the unit configured in your Diabetes:M profile)'
+      },
+      timezone: {
+        type: 'string',
+        description: 'IANA timezone for the entry time, e.g. "Europe/Rome" (default: account setting, else system timezone)'
+      }
+    }
+  },
+  annotations: {
+    title: 'Create Logbook Entry',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true
+  }
+};
+
+export interface CreateLogbookEntryResult {
+  /** 'preview' when nothing was written, 'created' after a confirmed write */
+  status: 'preview' | 'created';
+  /** ID assigned by Diabetes:M (only after creation) */
+  id?: string;
+  /** Token to pass with confirm: true (only in a preview) */
+  previewToken?: string;
+  /** Entry date in YYYY-MM-DD format */
+  date: string;
+  /** IANA timezone used for the date and time */
+  timezone: string;
+  /** Entry as it appears (or will appear) in the logbook */
+  entry: SimplifiedLogbookEntry;
+  /** Next step or outcome */
+  message: string;
+}
+
+/**
+ * Executes the create_logbook_entry tool
+ */
+export async function executeCreateLogbookEntry(
+  args: unknown
+): Promise<CreateLogbookEntryResult> {
+  // Validate input
+  const validatedInput = CreateLogbookEntryInputSchema.parse(args);
+  const { confirm, previewToken, timestamp, unit: unitOverride, timezone, ...fields } = validatedInput;
+  const unit = unitOverride ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(timezone);
+
+  // Draft from the arguments; a confirmation without fields writes the previewed draft
+  const pending = pendingPreviews.get(previewToken);
+  const hasFields = Object.values(fields).some(value => value !== undefined);
+  const draft: LogbookEntryDraft = confirm && !hasFields && pending
+    ? pending
+    : {
+      ...fields,
+      timestamp: new Date(
+        timestamp !== undefined
+          ? parseDateTimeInput(timestamp, timeZone)
+          : confirm && pending ? new Date(pending.timestamp).getTime() : Date.now()
+      ).toISOString(),
+      glucose: glucoseInputToMgdl(fields.glucose, unit),
+      glucoseUnit: 'mg/dL'
+    };
+
+  if (!confirm) {
+    const token = pendingPreviews.issue(draft, draft);
+    const preview: LogbookEntry = { id: 'new', ...draft };
+    return {
+      status: 'preview',
+      previewToken: token,
+      date: formatDateKey(new Date(draft.timestamp), timeZone),
+      timezone: timeZone,
+      entry: simplifyEntry(preview, unit, timeZone),
+      message: 'Dry run - nothing was written. Review the entry with the user, then call create_logbook_entry again with confirm: true and this previewToken.'
+    };
+  }
+
+  if (!pending) {
+    throw new Error(
+      'Unknown or expired preview token (previews are valid for 15 minutes and can be confirmed once). ' +
+      'Call create_logbook_entry without confirm to get a new preview.'
+    );
+  }
+  if (previewTokenOf(draft) !== previewToken) {
+    throw new Error(
+      'The entry differs from the previewed one. Call create_logbook_entry without confirm to preview the new values.'
+    );
+  }
+
+  // Used once, whatever the outcome: a failed write may still have been stored
+  pendingPreviews.consume(previewToken!);
+  const response = await diabetesMClient.createLogbookEntry(pending);
+
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to create logbook entry'
+    );
+  }
+
+  return {
+    status: 'created',
+    id: response.data.id,
+    date: formatDateKey(new Date(response.data.timestamp), timeZone),
+    timezone: timeZone,
+    entry: simplifyEntry(response.data, unit, timeZone),
+    message: 'Entry created in the Diabetes:M logbook.'
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Tool: detect_patterns
+ *
+ * Scans the logbook readings of a period for recurring patterns:
+ * lows and highs that come back in the same time-of-day window,
+ * post-meal spikes per meal category, and day-of-week effects.
+ *
+ * Every pattern carries its occurrence count, the typical time window,
+ * a confidence level and example dates to look up in the logbook.
+ *
+ * Security:
+ * - Input validation with Zod
+ * - Logbook data read through the encrypted cache
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { DetectPatternsInputSchema } from '../types/tools.js';
+import { formatGlucose, fromMgdl, glucoseInputToMgdl } from '../utils/units.js';
+import { addDays, todayKey } from '../utils/timezone.js';
+import { GLUCOSE_THRESHOLDS, extractGlucoseReadings, preferSensorReadings } from '../analysis/glucose-statistics.js';
+import { detectPatterns, type DetectedPattern, type PatternConfidence, type PatternType } from '../analysis/patterns.js';
+import { LOGBOOK_DATE_PROPERTIES, describeCompleteness, describePeriod } from './get-logbook-entries.js';
+import type { GlucoseUnit } from '../types/api.js';
+
+/** Days analyzed when no period is given */
+const DEFAULT_PATTERN_DAYS = 30;
+
+export const detectPatternsToolDefinition = {
+  name: 'detect_patterns',
+  description: 'Detect recurring patterns in the logbook: lows or highs that recur in the same time-of-day window, post-meal spikes per meal category (breakfast, lunch, dinner...), and weekdays with higher or lower average glucose. Each pattern includes how often it occurred, the typical time window, a confidence level and example dates. Defaults to the last 30 days.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      ...LOGBOOK_DATE_PROPERTIES,
+      lowThreshold: {
+        type: 'number',
+        description: 'Readings below this count as lows, in the output unit (default: 70 mg/dL / 3.9 mmol/L)'
+      },
+      highThreshold: {
+        type: 'number',
+        description: 'Readings above this count as highs, in the output unit (default: 180 mg/dL / 10.0 mmol/L)'
+      },
+      minOccurrences: {
+        type: 'integer',
+        description: 'Minimum occurrences for a pattern to be reported (default: 3)',
+        minimum: 2,
+        maximum: 30,
+        default: 3
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for the output (default: the unit configured in your Diabetes:M profile)'
+      }
+    }
+  },
+  annotations: {
+    title: 'Detect Patterns',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  }
+};
+
+/**
+ * A detected pattern with glucose values in the output unit
+ */
+export interface GlucosePattern {
+  type: PatternType;
+  description: string;
+  timeWindow?: string;
+  typicalTime?: string;
+  category?: string;
+  weekday?: string;
+  occurrences: number;
+  opportunities: number;
+  /** Percent of opportunities with the pattern */
+  rate: number;
+  confidence: PatternConfidence;
+  typicalValue: number;
+  typicalRise?: number;
+  peakDelayMinutes?: number;
+  weekdayRate?: number;
+  weekendRate?: number;
+  differenceFromAverage?: number;
+  exampleDates: string[];
+}
+
+export interface DetectPatternsResult {
+  period: string;
+  timezone: string;
+  completeness: string;
+  unit: GlucoseUnit;
+  /** 'sensor' when CGM readings exist, otherwise all readings */
+  basis: 'sensor' | 'all readings';
+  readingsUsed: number;
+  thresholds: { low: number; high: number };
+  patterns: GlucosePattern[];
+  summary: string;
+}
+
+/**
+ * One-line description of a pattern in the output unit
+ */
+function describePattern(pattern: DetectedPattern, unit: GlucoseUnit): string {
+  const frequency = `${pattern.occurrences} of ${pattern.opportunities}`;
+
+  switch (pattern.type) {
+    case 'recurring_low':
+      return `Lows between ${pattern.timeWindow} on ${frequency} days, typically around ${pattern.typicalTime} ` +
+        `(median low ${formatGlucose(pattern.typicalValue, unit)})`;
+    case 'recurring_high':
+      return `Highs between ${pattern.timeWindow} on ${frequency} days, typically around ${pattern.typicalTime} ` +
+        `(median peak ${formatGlucose(pattern.typicalValue, unit)})`;
+    case 'post_meal_spike': {
+      let text = `Spike after ${pattern.category} in ${frequency} meals: ` +
+        `+${formatGlucose(pattern.typicalRise ?? 0, unit)} to ${formatGlucose(pattern.typicalValue, unit)}, ` +
+        `peaking about ${pattern.peakDelayMinutes} min after eating`;
+      if (pattern.weekdayRate !== undefined && pattern.weekendRate !== undefined &&
+          Math.abs(pattern.weekdayRate - pattern.weekendRate) >= 25) {
+        text += pattern.weekdayRate > pattern.weekendRate ? ', mostly on weekdays' : ', mostly on weekends';
+      }
+      return text;
+    }
+    case 'day_of_week': {
+      const direction = (pattern.differenceFromAverage ?? 0) > 0 ? 'higher' : 'lower';
+      return `${pattern.weekday} runs ${direction} than average ` +
+        `(${formatGlucose(pattern.typicalValue, unit)}, ${formatGlucose(Math.abs(pattern.differenceFromAverage ?? 0), unit)} ${direction}) ` +
+        `on ${frequency} ${pattern.weekday}s`;
+    }
+  }
+}
+
+/**
+ * Executes the detect_patterns tool
+ */
+export async function executeDetectPatterns(args: unknown): Promise<DetectPatternsResult> {
+  // Validate input
+  const validatedInput = DetectPatternsInputSchema.parse(args ?? {});
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+
+  const lowThreshold = glucoseInputToMgdl(validatedInput.lowThreshold, unit) ?? GLUCOSE_THRESHOLDS.LOW;
+  const highThreshold = glucoseInputToMgdl(validatedInput.highThreshold, unit) ?? GLUCOSE_THRESHOLDS.HIGH;
+  if (lowThreshold >= highThreshold) {
+    throw new Error('lowThreshold must be below highThreshold');
+  }
+
+  // Default to the last 30 days
+  const selection = validatedInput.dateRange || validatedInput.date || validatedInput.startDate
+    ? validatedInput
+    : { ...validatedInput, startDate: addDays(todayKey(timeZone), -(DEFAULT_PATTERN_DAYS - 1)), endDate: todayKey(timeZone) };
+  const { dateRange, date, startDate, endDate, maxPages } = selection;
+
+  const response = await diabetesMClient.getLogbookEntries(
+    dateRange, undefined, date, startDate, endDate, { maxPages, timeZone }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to retrieve logbook entries'
+    );
+  }
+
+  const { basis, readings } = preferSensorReadings(extractGlucoseReadings(response.data));
+  const detected = detectPatterns(response.data, readings, timeZone, {
+    lowThreshold,
+    highThreshold,
+    minOccurrences: validatedInput.minOccurrences
+  });
+
+  const patterns: GlucosePattern[] = detected.map(pattern => ({
+    ...pattern,
+    description: describePattern(pattern, unit),
+    typicalValue: fromMgdl(pattern.typicalValue, unit),
+    typicalRise: pattern.typicalRise !== undefined ? fromMgdl(pattern.typicalRise, unit) : undefined,
+    differenceFromAverage: pattern.differenceFromAverage !== undefined
+      ? fromMgdl(pattern.differenceFromAverage, unit)
+      : undefined
+  }));
+
+  // Summary
+  let summary: string;
+  if (readings.length === 0) {
+    summary = 'No glucose readings in the selected period.';
+  } else if (patterns.length === 0) {
+    summary = 'No recurring patterns found in the selected period.';
+  } else {
+    const confident = patterns.filter(p => p.confidence !== 'low');
+    summary = `${patterns.length} pattern${patterns.length === 1 ? '' : 's'} found` +
+      (confident.length > 0 ? ` (${confident.length} with medium or high confidence)` : '') +
+      `. Most consistent: ${patterns[0]!.description}.`;
+  }
+  if (basis !== 'sensor' && readings.length > 0) {
+    summary += ' No CGM readings: patterns are based on fingerstick readings and may miss events.';
+  }
+
+  return {
+    period: describePeriod(selection, timeZone),
+    timezone: timeZone,
+    completeness: describeCompleteness(response.pagination),
+    unit,
+    basis,
+    readingsUsed: readings.length,
+    thresholds: { low: fromMgdl(lowThreshold, unit), high: fromMgdl(highThreshold, unit) },
+    patterns,
+    summary
+  };
+}
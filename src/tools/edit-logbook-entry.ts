@@ -0,0 +1,463 @@
+/**
+ * Tools: update_logbook_entry, delete_logbook_entry
+ *
+ * Edits or removes an existing Diabetes:M diary entry, targeted by the `id`
+ * returned with each logbook entry.
+ *
+ * Two-step flow (same as create_logbook_entry):
+ * - Without confirm: the current entry is fetched and a field-level
+ *   before/after diff (or the entry to delete) is returned with a preview
+ *   token, nothing is written
+ * - With confirm: true and the preview token: the previewed change is
+ *   applied and cached logbook data is cleared. The token is bound to the
+ *   entry id and, for updates, to the exact changes, and is used once
+ *
+ * Security:
+ * - Input validation with Zod (plausible value ranges)
+ * - Explicit confirmation of a shown preview before any write
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import {
+  UpdateLogbookEntryInputSchema,
+  DeleteLogbookEntryInputSchema,
+  LogbookCategorySchema,
+  type CreateLogbookEntryInput
+} from '../types/tools.js';
+import { simplifyEntry } from './get-logbook-entries.js';
+import { fromMgdl, glucoseInputToMgdl } from '../utils/units.js';
+import { parseDateTimeInput } from '../utils/timezone.js';
+import { PreviewTokenStore, previewTokenOf } from '../utils/preview-tokens.js';
+import type { GlucoseUnit, LogbookEntry, LogbookEntryDraft, SimplifiedLogbookEntry } from '../types/api.js';
+
+const ENTRY_ID_PROPERTY = {
+  type: 'string',
+  description: 'ID of the logbook entry (the "id" field returned for each entry)'
+};
+
+const CONFIRM_PROPERTY = {
+  type: 'boolean',
+  description: 'Set to true, together with previewToken, to apply the previewed change. When false or omitted, only a preview is returned.',
+  default: false
+};
+
+const PREVIEW_TOKEN_PROPERTY = {
+  type: 'string',
+  description: 'Token returned by the dry-run preview (required with confirm: true, valid for 15 minutes and usable once)'
+};
+
+const UNIT_PROPERTY = {
+  type: 'string',
+  enum: ['mg/dL', 'mmol/L'],
+  description: 'Glucose unit for input and output (default: the unit configured in your Diabetes:M profile)'
+};
+
+const TIMEZONE_PROPERTY = {
+  type: 'string',
+  description: 'IANA timezone for entry times, e.g. "Europe/Rome" (default: account setting, else system timezone)'
+};
+
+export const updateLogbookEntryToolDefinition = {
+  name: 'update_logbook_entry',
+  description: 'Correct an existing Diabetes:M logbook entry (e.g., a typo like 80u instead of 8u). Only the fields provided are changed. The first call returns a field-level before/after diff and a previewToken; show the diff to the user and, only after they approve it, call again with the same values, confirm: true and that previewToken.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      id: ENTRY_ID_PROPERTY,
+      timestamp: {
+        type: 'string',
+        description: 'New entry time as ISO 8601 date-time (without an offset it is read in the selected timezone)'
+      },
+      glucose: {
+        type: 'number',
+        description: 'Glucose reading in the selected unit (mg/dL: 20-600, mmol/L: 1.1-33.3)'
+      },
+      insulinBolus: {
+        type: 'number',
+        description: 'Meal bolus insulin in units',
+        minimum: 0,
+        maximum: 50
+      },
+      insulinCorrection: {
+        type: 'number',
+        description: 'Correction bolus insulin in units',
+        minimum: 0,
+        maximum: 50
+      },
+      insulinBasal: {
+        type: 'number',
+        description: 'Basal insulin in units',
+        minimum: 0,
+        maximum: 100
+      },
+      carbs: {
+        type: 'number',
+        description: 'Carbohydrates in grams',
+        minimum: 0,
+        maximum: 500
+      },
+      notes: {
+        type: 'string',
+        description: 'Free-text note',
+        maxLength: 500
+      },
+      category: {
+        type: 'string',
+        enum: ['breakfast', 'after_breakfast', 'lunch', 'after_lunch', 'dinner', 'after_dinner', 'snack', 'other', 'fasting', 'bedtime'],
+        description: 'Entry category'
+      },
+      confirm: CONFIRM_PROPERTY,
+      previewToken: PREVIEW_TOKEN_PROPERTY,
+      unit: UNIT_PROPERTY,
+      timezone: TIMEZONE_PROPERTY
+    },
+    required: ['id']
+  },
+  annotations: {
+    title: 'Update Logbook Entry',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  }
+};
+
+export const deleteLogbookEntryToolDefinition = {
+  name: 'delete_logbook_entry',
+  description: 'Delete an existing Diabetes:M logbook entry. The first call shows the entry that would be removed and returns a previewToken; only after the user approves, call again with confirm: true and that previewToken. The response includes recreateArguments for create_logbook_entry to recreate the entry, and lists under notRecreated the fields (foods, fat, protein, calories, measurements, photos, tags) that create_logbook_entry cannot write back.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      id: ENTRY_ID_PROPERTY,
+      confirm: CONFIRM_PROPERTY,
+      previewToken: PREVIEW_TOKEN_PROPERTY,
+      unit: UNIT_PROPERTY,
+      timezone: TIMEZONE_PROPERTY
+    },
+    required: ['id']
+  },
+  annotations: {
+    title: 'Delete Logbook Entry',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  }
+};
+
+/**
+ * A single changed field
+ */
+export interface FieldChange {
+  field: keyof LogbookEntryDraft;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface UpdateLogbookEntryResult {
+  /** 'preview' when nothing was written, 'updated' after a confirmed write */
+  status: 'preview' | 'updated';
+  id: string;
+  /** Token to pass with confirm: true (only in a preview with changes) */
+  previewToken?: string;
+  /** Fields whose value changes */
+  changes: FieldChange[];
+  before: SimplifiedLogbookEntry;
+  after: SimplifiedLogbookEntry;
+  /** IANA timezone used for entry times */
+  timezone: string;
+  message: string;
+}
+
+export interface DeleteLogbookEntryResult {
+  /** 'preview' when nothing was deleted, 'deleted' after a confirmed delete */
+  status: 'preview' | 'deleted';
+  id: string;
+  /** Token to pass with confirm: true (only in a preview) */
+  previewToken?: string;
+  entry: SimplifiedLogbookEntry;
+  /** Arguments for create_logbook_entry that recreate the writable fields of the entry */
+  recreateArguments: Omit<CreateLogbookEntryInput, 'confirm' | 'previewToken'>;
+  /** Values of the entry that create_logbook_entry cannot write and would be lost */
+  notRecreated: Partial<Pick<LogbookEntry, (typeof NOT_RECREATED_FIELDS)[number]>>;
+  /** IANA timezone used for entry times */
+  timezone: string;
+  message: string;
+}
+
+/**
+ * Writable fields compared in the before/after diff
+ */
+const DIFF_FIELDS: Array<keyof LogbookEntryDraft> = [
+  'timestamp',
+  'glucose',
+  'insulinBolus',
+  'insulinCorrection',
+  'insulinBasal',
+  'carbs',
+  'notes',
+  'category'
+];
+
+/**
+ * Entry fields create_logbook_entry cannot write: they are lost when a
+ * deleted entry is recreated
+ */
+const NOT_RECREATED_FIELDS = [
+  'foods',
+  'fat',
+  'protein',
+  'calories',
+  'weight',
+  'bloodPressureSystolic',
+  'bloodPressureDiastolic',
+  'pulse',
+  'hba1c',
+  'photos',
+  'tags',
+  'isSensor'
+] as const;
+
+/** Previewed updates awaiting confirmation: the approved diff in mg/dL */
+const pendingUpdates = new PreviewTokenStore<FieldChange[]>();
+
+/** Previewed deletions awaiting confirmation: the entry id */
+const pendingDeletes = new PreviewTokenStore<string>();
+
+/** Error for a confirmation without a live preview */
+function expiredPreviewError(tool: string): Error {
+  return new Error(
+    'Unknown or expired preview token (previews are valid for 15 minutes and can be confirmed once). ' +
+    `Call ${tool} without confirm to get a new preview.`
+  );
+}
+
+/**
+ * Computes the field-level differences between two entries
+ * Glucose values are reported in the requested unit
+ */
+function diffEntries(before: LogbookEntry, after: LogbookEntry, unit: GlucoseUnit): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of DIFF_FIELDS) {
+    let oldValue = before[field] ?? null;
+    let newValue = after[field] ?? null;
+    if (oldValue === newValue) {
+      continue;
+    }
+
+    if (field === 'glucose') {
+      oldValue = oldValue !== null ? fromMgdl(oldValue as number, unit) : null;
+      newValue = newValue !== null ? fromMgdl(newValue as number, unit) : null;
+    }
+    changes.push({ field, before: oldValue, after: newValue });
+  }
+
+  return changes;
+}
+
+/**
+ * Builds create_logbook_entry arguments that recreate the writable fields of an entry
+ */
+function toRecreateArguments(entry: LogbookEntry): DeleteLogbookEntryResult['recreateArguments'] {
+  const category = LogbookCategorySchema.safeParse(entry.category);
+
+  return {
+    timestamp: entry.timestamp,
+    glucose: entry.glucose,
+    unit: 'mg/dL',
+    insulinBolus: entry.insulinBolus,
+    insulinCorrection: entry.insulinCorrection,
+    insulinBasal: entry.insulinBasal,
+    carbs: entry.carbs,
+    notes: entry.notes,
+    category: category.success ? category.data : undefined
+  };
+}
+
+/**
+ * Fetches an entry or throws a readable error
+ */
+async function fetchEntry(id: string): Promise<LogbookEntry> {
+  const response = await diabetesMClient.getLogbookEntry(id);
+
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || `Logbook entry ${id} not found`
+    );
+  }
+
+  return response.data;
+}
+
+/**
+ * Values of an entry that recreating it would lose
+ */
+function notRecreatedFields(entry: LogbookEntry): DeleteLogbookEntryResult['notRecreated'] {
+  const lost: DeleteLogbookEntryResult['notRecreated'] = {};
+  for (const field of NOT_RECREATED_FIELDS) {
+    const value = entry[field];
+    if (value === undefined || value === false || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+    Object.assign(lost, { [field]: value });
+  }
+  return lost;
+}
+
+/**
+ * Executes the update_logbook_entry tool
+ */
+export async function executeUpdateLogbookEntry(
+  args: unknown
+): Promise<UpdateLogbookEntryResult> {
+  // Validate input
+  const validatedInput = UpdateLogbookEntryInputSchema.parse(args);
+  const { id, confirm, previewToken, unit: unitOverride, timezone, ...fields } = validatedInput;
+  const unit = unitOverride ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(timezone);
+
+  const changes: Partial<LogbookEntryDraft> = {
+    ...fields,
+    timestamp: fields.timestamp !== undefined ? new Date(parseDateTimeInput(fields.timestamp, timeZone)).toISOString() : undefined,
+    glucose: glucoseInputToMgdl(fields.glucose, unit),
+    glucoseUnit: 'mg/dL'
+  };
+
+  const before = await fetchEntry(id);
+  const preview: LogbookEntry = { ...before };
+  for (const field of DIFF_FIELDS) {
+    if (changes[field] !== undefined) {
+      Object.assign(preview, { [field]: changes[field] });
+    }
+  }
+  const diff = diffEntries(before, preview, unit);
+
+  if (diff.length === 0) {
+    return {
+      status: 'preview',
+      id,
+      changes: [],
+      before: simplifyEntry(before, unit, timeZone),
+      after: simplifyEntry(before, unit, timeZone),
+      timezone: timeZone,
+      message: 'The provided values match the current entry - nothing to change.'
+    };
+  }
+
+  // The token covers the id and the exact changes; the stored diff catches
+  // an entry edited elsewhere since the preview
+  const subject = { id, ...changes };
+  const approvedDiff = diffEntries(before, preview, 'mg/dL');
+
+  if (!confirm) {
+    return {
+      status: 'preview',
+      id,
+      previewToken: pendingUpdates.issue(subject, approvedDiff),
+      changes: diff,
+      before: simplifyEntry(before, unit, timeZone),
+      after: simplifyEntry(preview, unit, timeZone),
+      timezone: timeZone,
+      message: 'Dry run - nothing was written. Review the changes with the user, then call update_logbook_entry again with the same values, confirm: true and this previewToken.'
+    };
+  }
+
+  const pending = pendingUpdates.get(previewToken);
+  if (!pending) {
+    throw expiredPreviewError('update_logbook_entry');
+  }
+  if (previewTokenOf(subject) !== previewToken) {
+    throw new Error(
+      'The changes differ from the previewed ones. Call update_logbook_entry without confirm to preview the new values.'
+    );
+  }
+  if (JSON.stringify(pending) !== JSON.stringify(approvedDiff)) {
+    throw new Error(
+      'The entry was changed after the preview. Call update_logbook_entry without confirm to review the current values.'
+    );
+  }
+
+  // Used once, whatever the outcome: a failed write may still have been stored
+  pendingUpdates.consume(previewToken!);
+  const response = await diabetesMClient.updateLogbookEntry(id, changes);
+
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to update logbook entry'
+    );
+  }
+
+  return {
+    status: 'updated',
+    id,
+    changes: diffEntries(before, response.data, unit),
+    before: simplifyEntry(before, unit, timeZone),
+    after: simplifyEntry(response.data, unit, timeZone),
+    timezone: timeZone,
+    message: `Entry updated (${diff.length} field(s) changed).`
+  };
+}
+
+/**
+ * Executes the delete_logbook_entry tool
+ */
+export async function executeDeleteLogbookEntry(
+  args: unknown
+): Promise<DeleteLogbookEntryResult> {
+  // Validate input
+  const validatedInput = DeleteLogbookEntryInputSchema.parse(args);
+  const { id, confirm, previewToken } = validatedInput;
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+
+  const entry = await fetchEntry(id);
+  const recreateArguments = toRecreateArguments(entry);
+  const notRecreated = notRecreatedFields(entry);
+  const lostFields = Object.keys(notRecreated);
+  const lossWarning = lostFields.length > 0
+    ? ` Recreating it from recreateArguments would lose: ${lostFields.join(', ')} (see notRecreated).`
+    : '';
+
+  if (!confirm) {
+    return {
+      status: 'preview',
+      id,
+      previewToken: pendingDeletes.issue({ id }, id),
+      entry: simplifyEntry(entry, unit, timeZone),
+      recreateArguments,
+      notRecreated,
+      timezone: timeZone,
+      message: `Dry run - nothing was deleted. Confirm with the user, then call delete_logbook_entry again with confirm: true and this previewToken.${lossWarning}`
+    };
+  }
+
+  if (pendingDeletes.get(previewToken) === undefined) {
+    throw expiredPreviewError('delete_logbook_entry');
+  }
+  if (previewTokenOf({ id }) !== previewToken) {
+    throw new Error(
+      'The preview token was issued for another entry. Call delete_logbook_entry without confirm to preview this one.'
+    );
+  }
+
+  pendingDeletes.consume(previewToken!);
+  const response = await diabetesMClient.deleteLogbookEntry(id);
+
+  if (!response.success) {
+    throw new Error(
+      response.error?.message || 'Failed to delete logbook entry'
+    );
+  }
+
+  return {
+    status: 'deleted',
+    id,
+    entry: simplifyEntry(entry, unit, timeZone),
+    recreateArguments,
+    notRecreated,
+    timezone: timeZone,
+    message: `Entry deleted. To undo, call create_logbook_entry with recreateArguments for a preview, then confirm it.${lossWarning}`
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Tool: estimate_isf
+ *
+ * Estimates the effective insulin sensitivity factor (ISF) from isolated
+ * correction doses: the glucose drop over the DIA divided by the
+ * correction plus the insulin still on board from earlier doses (same
+ * curve as get_iob). Results are grouped into 4-hour blocks and compared
+ * with the 48-slot ISF schedule of the profile.
+ *
+ * Security:
+ * - Input validation with Zod
+ * - Logbook and profile data read through the encrypted cache
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { EstimateIsfInputSchema } from '../types/tools.js';
+import { formatGlucose, fromMgdl } from '../utils/units.js';
+import { addDays, dayBounds, formatTime, todayKey } from '../utils/timezone.js';
+import { extractGlucoseReadings, preferSensorReadings } from '../analysis/glucose-statistics.js';
+import { estimateIsf, type EstimateConfidence } from '../analysis/isf-estimation.js';
+import { formatSlot } from '../analysis/therapy-schedule.js';
+import { describeInsulinCurve, resolveInsulinCurve } from '../analysis/insulin-activity.js';
+import {
+  LOGBOOK_DATE_PROPERTIES,
+  describeCompleteness,
+  describePeriod,
+  resolveDateSelection
+} from './get-logbook-entries.js';
+import { INSULIN_CURVE_PROPERTIES } from './get-iob.js';
+import type { GlucoseUnit } from '../types/api.js';
+
+/** Days analyzed when no period is given */
+const DEFAULT_ISF_DAYS = 30;
+
+/** Observed ISF within this many percent of the configured one is "in line" */
+const AGREEMENT_MARGIN = 20;
+
+export const estimateIsfToolDefinition = {
+  name: 'estimate_isf',
+  description: 'Estimate the effective insulin sensitivity factor (ISF) from correction-only doses (corrections without carbs nearby and no other dose during the DIA). Measures the glucose drop over the Duration of Insulin Action, accounting for insulin still on board, and compares the result per 4-hour time-of-day block with the ISF schedule configured in the profile. For discussion with the diabetes team. Defaults to the last 30 days.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      ...LOGBOOK_DATE_PROPERTIES,
+      dia: {
+        type: 'number',
+        description: 'Duration of Insulin Action in hours (default: insulinType preset, else 4). Typical range: 3-5 hours depending on insulin type.',
+        minimum: 2,
+        maximum: 8
+      },
+      ...INSULIN_CURVE_PROPERTIES,
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for the output (default: the unit configured in your Diabetes:M profile)'
+      }
+    }
+  },
+  annotations: {
+    title: 'Estimate ISF',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  }
+};
+
+export interface IsfBlockResult {
+  block: string;
+  samples: number;
+  /** Configured ISF over the block (range when the schedule changes inside it) */
+  configured: string | null;
+  observed: number | null;
+  observedRange: [number, number] | null;
+  /** (observed - configured) / configured, in percent */
+  difference: number | null;
+  confidence: EstimateConfidence;
+  assessment: string;
+}
+
+export interface CorrectionSampleResult {
+  date: string;
+  time: string;
+  slot: string;
+  correction: number;
+  iob: number;
+  startGlucose: number;
+  endGlucose: number;
+  observedIsf: number;
+  configuredIsf: number | null;
+}
+
+export interface EstimateIsfResult {
+  period: string;
+  timezone: string;
+  completeness: string;
+  /** Unit of glucose values; ISF is in this unit per insulin unit */
+  unit: GlucoseUnit;
+  dia: number;
+  /** Insulin action curve used for insulin on board */
+  insulinCurve: string;
+  correctionsFound: number;
+  correctionsUsed: number;
+  blocks: IsfBlockResult[];
+  /** Why corrections were left out, with counts */
+  excluded: Record<string, number>;
+  /** Most recent corrections first */
+  corrections: CorrectionSampleResult[];
+  method: string;
+  disclaimers: string[];
+  summary: string;
+}
+
+/**
+ * Plain-language reading of one block
+ */
+function assessBlock(block: IsfBlockResult, unit: GlucoseUnit): string {
+  if (block.samples === 0 || block.observed === null) {
+    return 'No isolated corrections in this block.';
+  }
+  const observed = `1u lowered glucose by about ${formatGlucose(block.observed, unit)}`;
+  if (block.difference === null) {
+    return `${observed}; no ISF configured for comparison.`;
+  }
+  if (Math.abs(block.difference) < AGREEMENT_MARGIN) {
+    return `${observed}, in line with the configured ISF.`;
+  }
+  return block.difference > 0
+    ? `${observed}, more than configured: corrections may overshoot.`
+    : `${observed}, less than configured: corrections may fall short.`;
+}
+
+/**
+ * Executes the estimate_isf tool
+ */
+export async function executeEstimateIsf(args: unknown): Promise<EstimateIsfResult> {
+  // Validate input
+  const validatedInput = EstimateIsfInputSchema.parse(args ?? {});
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+
+  // Default to the last 30 days
+  const today = todayKey(timeZone);
+  const selection = validatedInput.dateRange || validatedInput.date || validatedInput.startDate
+    ? validatedInput
+    : { ...validatedInput, startDate: addDays(today, -(DEFAULT_ISF_DAYS - 1)), endDate: today };
+  const { from, to } = resolveDateSelection(selection, timeZone);
+
+  // Earlier doses and the end of the DIA fall on the neighbouring days
+  const nextDay = addDays(to, 1);
+  const response = await diabetesMClient.getLogbookEntries(
+    undefined, undefined, undefined, addDays(from, -1), nextDay > today ? today : nextDay,
+    { maxPages: selection.maxPages, timeZone }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to retrieve logbook entries'
+    );
+  }
+
+  const settingsResponse = await diabetesMClient.getTherapySettings();
+  const curve = resolveInsulinCurve(validatedInput);
+  const dia = curve.dia;
+  const disclaimers = [
+    'This analysis is for informational purposes and does not constitute medical advice.',
+    'Discuss any change to your ISF with your diabetes team before applying it.',
+    'Exercise, illness, stress or unlogged carbs during the DIA bias the observed values.'
+  ];
+  if (!settingsResponse.success) {
+    disclaimers.push('The ISF schedule could not be read from the profile: no comparison with configured values.');
+  }
+
+  const { readings } = preferSensorReadings(extractGlucoseReadings(response.data));
+  const estimation = estimateIsf(
+    response.data, readings, dayBounds(from, timeZone).start, dayBounds(to, timeZone).end, curve, timeZone,
+    settingsResponse.data
+  );
+
+  const blocks: IsfBlockResult[] = estimation.blocks.map(block => {
+    const rendered: IsfBlockResult = {
+      block: block.block,
+      samples: block.samples,
+      configured: block.configured
+        ? (block.configured.min === block.configured.max
+          ? formatGlucose(block.configured.min, unit)
+          : `${formatGlucose(block.configured.min, unit)} - ${formatGlucose(block.configured.max, unit)}`)
+        : null,
+      observed: block.observed !== null ? fromMgdl(block.observed, unit) : null,
+      observedRange: block.observedRange
+        ? [fromMgdl(block.observedRange[0], unit), fromMgdl(block.observedRange[1], unit)]
+        : null,
+      difference: block.difference,
+      confidence: block.confidence,
+      assessment: ''
+    };
+    rendered.assessment = assessBlock({ ...rendered, observed: block.observed }, unit);
+    return rendered;
+  });
+
+  // Summary
+  const withSamples = blocks.filter(block => block.samples > 0);
+  let summary: string;
+  if (withSamples.length === 0) {
+    summary = `None of the ${estimation.candidates} correction(s) was isolated enough to measure; try a longer period.`;
+  } else {
+    summary = `${estimation.samples.length} of ${estimation.candidates} correction(s) used (DIA ${dia}h). ` +
+      withSamples
+        .map(block => `${block.block}: observed ${block.observed} ${unit}/u` +
+          (block.configured !== null ? ` vs configured ${block.configured}` : '') +
+          ` (n=${block.samples}, ${block.confidence} confidence)`)
+        .join('; ') + '.';
+  }
+
+  return {
+    period: describePeriod(selection, timeZone),
+    timezone: timeZone,
+    completeness: describeCompleteness(response.pagination),
+    unit,
+    dia,
+    insulinCurve: describeInsulinCurve(curve),
+    correctionsFound: estimation.candidates,
+    correctionsUsed: estimation.samples.length,
+    blocks,
+    excluded: estimation.excluded,
+    corrections: [...estimation.samples].reverse().map(sample => ({
+      date: sample.date,
+      time: formatTime(new Date(sample.time), timeZone),
+      slot: formatSlot(sample.slot),
+      correction: sample.correction,
+      iob: sample.iob,
+      startGlucose: fromMgdl(sample.startGlucose, unit),
+      endGlucose: fromMgdl(sample.endGlucose, unit),
+      observedIsf: fromMgdl(sample.isf, unit),
+      configuredIsf: sample.configuredIsf !== null ? fromMgdl(sample.configuredIsf, unit) : null
+    })),
+    method: `ISF = (glucose at the correction - glucose ${dia}h later) / (correction + insulin on board)`,
+    disclaimers,
+    summary
+  };
+}
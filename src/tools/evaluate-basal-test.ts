@@ -0,0 +1,293 @@
+/**
+ * Tool: evaluate_basal_test
+ *
+ * Evaluates fasting basal tests: a given window, or every stretch in the
+ * period with no carbs and no bolus or correction within the DIA. For each
+ * window it measures the glucose drift per hour and judges whether the
+ * change stays within a tolerance, suggesting basal that is too high, too
+ * low or fine for that time of day.
+ *
+ * Security:
+ * - Input validation with Zod
+ * - Logbook data read through the encrypted cache
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { EvaluateBasalTestInputSchema } from '../types/tools.js';
+import { formatGlucose, fromMgdl, toMgdl } from '../utils/units.js';
+import { addDays, dayBounds, formatDateKey, formatTime, parseDateTimeInput, todayKey } from '../utils/timezone.js';
+import { extractGlucoseReadings, preferSensorReadings } from '../analysis/glucose-statistics.js';
+import { DEFAULT_BOLUS_CURVE } from '../analysis/insulin-activity.js';
+import {
+  DEFAULT_BASAL_TOLERANCE,
+  detectBasalTests,
+  evaluateBasalTest,
+  type BasalTestWindow,
+  type BasalVerdict
+} from '../analysis/basal-test.js';
+import {
+  LOGBOOK_DATE_PROPERTIES,
+  describeCompleteness,
+  describePeriod,
+  resolveDateSelection
+} from './get-logbook-entries.js';
+import type { GlucoseUnit } from '../types/api.js';
+
+/** Days searched for basal tests when no period is given */
+const DEFAULT_BASAL_TEST_DAYS = 14;
+
+/** Accepted tolerance range in mg/dL */
+const TOLERANCE_RANGE = { min: 10, max: 100 };
+
+export const evaluateBasalTestToolDefinition = {
+  name: 'evaluate_basal_test',
+  description: 'Evaluate fasting basal tests (a skipped meal with only basal insulin acting). Takes a window (windowStart/windowEnd) or detects windows in the period with no carbs and no bolus or correction within the DIA. For each window reports glucose drift per hour and the change over the window against a tolerance (default ±30 mg/dL), with a verdict: basal may be too high, too low or fine. Defaults to the last 14 days. For discussion with the diabetes team.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      ...LOGBOOK_DATE_PROPERTIES,
+      windowStart: {
+        type: 'string',
+        description: 'Start of a basal test to evaluate, e.g. "2025-12-25T08:00" (local time unless an offset is given; use with windowEnd). Default: detect tests in the period.'
+      },
+      windowEnd: {
+        type: 'string',
+        description: 'End of the basal test, e.g. "2025-12-25T14:00" (use with windowStart)'
+      },
+      tolerance: {
+        type: 'number',
+        description: 'Allowed glucose change over a test, in the output unit (default: 30 mg/dL / 1.7 mmol/L)'
+      },
+      minHours: {
+        type: 'number',
+        description: 'Shortest detected window in hours (default: 4)',
+        minimum: 2,
+        maximum: 24,
+        default: 4
+      },
+      dia: {
+        type: 'number',
+        description: 'Hours kept clear after carbs or a bolus (default: 4)',
+        minimum: 2,
+        maximum: 8
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for input and output (default: the unit configured in your Diabetes:M profile)'
+      }
+    }
+  },
+  annotations: {
+    title: 'Evaluate Basal Test',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  }
+};
+
+export interface BasalTestWindowResult {
+  /** Local date-times, "YYYY-MM-DD HH:MM" */
+  start: string;
+  end: string;
+  hours: number;
+  readings: number;
+  startGlucose: number | null;
+  endGlucose: number | null;
+  minGlucose: number | null;
+  maxGlucose: number | null;
+  /** Glucose change per hour along the fitted line, in the output unit */
+  driftPerHour: number | null;
+  /** Fitted change over the window, in the output unit */
+  totalDrift: number | null;
+  endedByHypo: boolean;
+  /** Basal insulin logged in the 24 hours before the end of the window */
+  basal: { units: number; lastDose: string | null };
+  verdict: BasalVerdict;
+  assessment: string;
+  issues: string[];
+}
+
+export interface EvaluateBasalTestResult {
+  period: string;
+  timezone: string;
+  completeness: string;
+  unit: GlucoseUnit;
+  dia: number;
+  /** Allowed change over a window, in the output unit */
+  tolerance: number;
+  mode: 'requested' | 'detected';
+  /** Most recent first */
+  windows: BasalTestWindowResult[];
+  verdicts: Record<BasalVerdict, number>;
+  method: string;
+  disclaimers: string[];
+  summary: string;
+}
+
+/**
+ * Local "YYYY-MM-DD HH:MM"
+ */
+function formatDateTime(time: number, timeZone: string): string {
+  const date = new Date(time);
+  return `${formatDateKey(date, timeZone)} ${formatTime(date, timeZone)}`;
+}
+
+/**
+ * Plain-language reading of one window
+ */
+function assessWindow(window: BasalTestWindow, tolerance: number, unit: GlucoseUnit): string {
+  const drift = window.totalDrift ?? 0;
+  const change = `${drift > 0 ? 'rose' : 'fell'} by ${formatGlucose(Math.abs(drift), unit)} ` +
+    `over ${window.hours}h (${formatGlucose(Math.abs(window.driftPerHour ?? 0), unit)}/h)`;
+  switch (window.verdict) {
+    case 'too_high':
+      return window.endedByHypo
+        ? `Glucose fell into hypoglycemia during the test: basal may be too high for this time of day.`
+        : `Glucose ${change}: basal may be too high for this time of day.`;
+    case 'too_low':
+      return `Glucose ${change}: basal may be too low for this time of day.`;
+    case 'ok':
+      return `Glucose ${change}, within ±${formatGlucose(tolerance, unit)}: basal looks right for this time of day.`;
+    default:
+      return `Not a valid basal test: ${window.issues.join('; ')}.`;
+  }
+}
+
+/**
+ * Executes the evaluate_basal_test tool
+ */
+export async function executeEvaluateBasalTest(args: unknown): Promise<EvaluateBasalTestResult> {
+  // Validate input
+  const validatedInput = EvaluateBasalTestInputSchema.parse(args ?? {});
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+
+  const tolerance = validatedInput.tolerance !== undefined
+    ? toMgdl(validatedInput.tolerance, unit)
+    : DEFAULT_BASAL_TOLERANCE;
+  if (tolerance < TOLERANCE_RANGE.min || tolerance > TOLERANCE_RANGE.max) {
+    throw new Error(
+      `Tolerance must be between ${formatGlucose(TOLERANCE_RANGE.min, unit)} and ${formatGlucose(TOLERANCE_RANGE.max, unit)}`
+    );
+  }
+
+  const dia = validatedInput.dia ?? DEFAULT_BOLUS_CURVE.dia;
+
+  // A requested window, else the period (default: last 14 days)
+  const today = todayKey(timeZone);
+  const now = Date.now();
+  const requested = validatedInput.windowStart && validatedInput.windowEnd
+    ? {
+      start: parseDateTimeInput(validatedInput.windowStart, timeZone),
+      end: parseDateTimeInput(validatedInput.windowEnd, timeZone)
+    }
+    : null;
+  if (requested) {
+    if (requested.end <= requested.start) {
+      throw new Error('windowEnd must be after windowStart');
+    }
+    if (requested.start > now) {
+      throw new Error('The basal test window has not started yet');
+    }
+    requested.end = Math.min(requested.end, now);
+  }
+  const selection = requested
+    ? {
+      ...validatedInput,
+      dateRange: undefined,
+      date: undefined,
+      startDate: formatDateKey(new Date(requested.start), timeZone),
+      endDate: formatDateKey(new Date(requested.end), timeZone)
+    }
+    : validatedInput.dateRange || validatedInput.date || validatedInput.startDate
+      ? validatedInput
+      : { ...validatedInput, startDate: addDays(today, -(DEFAULT_BASAL_TEST_DAYS - 1)), endDate: today };
+  const { from, to } = resolveDateSelection(selection, timeZone);
+
+  // Doses within the DIA and basal within 24 hours before a window fall on the day before
+  const response = await diabetesMClient.getLogbookEntries(
+    undefined, undefined, undefined, addDays(from, -1), to > today ? today : to,
+    { maxPages: selection.maxPages, timeZone }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to retrieve logbook entries'
+    );
+  }
+
+  const { readings } = preferSensorReadings(extractGlucoseReadings(response.data));
+  const options = { dia, tolerance, minHours: validatedInput.minHours };
+  const windows = requested
+    ? [evaluateBasalTest(response.data, readings, requested.start, requested.end, options)]
+    : detectBasalTests(
+      response.data, readings, dayBounds(from, timeZone).start, Math.min(dayBounds(to, timeZone).end, now), options
+    ).reverse();
+
+  const toUnit = (value: number | null) => (value !== null ? fromMgdl(value, unit) : null);
+  const rendered: BasalTestWindowResult[] = windows.map(window => ({
+    start: formatDateTime(window.start, timeZone),
+    end: formatDateTime(window.end, timeZone),
+    hours: window.hours,
+    readings: window.readings,
+    startGlucose: toUnit(window.startGlucose),
+    endGlucose: toUnit(window.endGlucose),
+    minGlucose: toUnit(window.minGlucose),
+    maxGlucose: toUnit(window.maxGlucose),
+    driftPerHour: window.driftPerHour !== null
+      ? (unit === 'mmol/L' ? fromMgdl(window.driftPerHour, unit) : window.driftPerHour)
+      : null,
+    totalDrift: toUnit(window.totalDrift),
+    endedByHypo: window.endedByHypo,
+    basal: {
+      units: window.basalUnits,
+      lastDose: window.lastBasalTime !== null ? formatDateTime(window.lastBasalTime, timeZone) : null
+    },
+    verdict: window.verdict,
+    assessment: assessWindow(window, tolerance, unit),
+    issues: window.issues
+  }));
+
+  const verdicts: Record<BasalVerdict, number> = { too_high: 0, too_low: 0, ok: 0, inconclusive: 0 };
+  for (const window of windows) {
+    verdicts[window.verdict]++;
+  }
+
+  // Summary
+  let summary: string;
+  if (requested) {
+    summary = rendered[0]!.assessment;
+  } else if (windows.length === 0) {
+    summary = `No stretch of at least ${validatedInput.minHours ?? 4}h without carbs, bolus or correction ` +
+      `(DIA ${dia}h) and with enough readings was found. Run a basal test by skipping a meal, or give windowStart/windowEnd.`;
+  } else {
+    summary = `${windows.length} basal test window(s) found: ${verdicts.ok} fine, ` +
+      `${verdicts.too_high} suggesting basal too high, ${verdicts.too_low} suggesting basal too low ` +
+      `(tolerance ±${formatGlucose(tolerance, unit)}).`;
+    if (verdicts.too_high > 0 && verdicts.too_low > 0) {
+      summary += ' Mixed results: compare the times of day of the windows before changing basal.';
+    }
+  }
+
+  return {
+    period: describePeriod(selection, timeZone),
+    timezone: timeZone,
+    completeness: describeCompleteness(response.pagination),
+    unit,
+    dia,
+    tolerance: fromMgdl(tolerance, unit),
+    mode: requested ? 'requested' : 'detected',
+    windows: rendered,
+    verdicts,
+    method: `Drift = slope of a straight line fitted to the readings; basal is judged too high when glucose falls by ` +
+      `${formatGlucose(tolerance, unit)} or more over the window (or a hypo occurs), too low when it rises by as much.`,
+    disclaimers: [
+      'This analysis is for informational purposes and does not constitute medical advice.',
+      'Discuss any change to your basal insulin with your diabetes team before applying it.',
+      'Exercise, illness, stress, unlogged food or insulin and the tail of a slow meal bias the drift.'
+    ],
+    summary
+  };
+}
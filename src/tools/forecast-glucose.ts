@@ -0,0 +1,266 @@
+/**
+ * Tool: forecast_glucose
+ *
+ * Predicts glucose for the next 30, 60 and 120 minutes (counted from now)
+ * from the latest reading and its trend, the insulin still acting (same
+ * curve as get_iob), the carbs still being absorbed (same curve and
+ * absorption options as get_cob) and the ISF and IC ratios of the profile.
+ * Returns a predicted curve with an uncertainty band and flags predicted
+ * lows.
+ *
+ * Security:
+ * - Input validation with Zod
+ * - Logbook and profile data read through the encrypted cache
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { ForecastGlucoseInputSchema } from '../types/tools.js';
+import { MGDL_PER_MMOL, formatGlucose, fromMgdl, glucoseInputToMgdl } from '../utils/units.js';
+import { formatDateKey, formatTime } from '../utils/timezone.js';
+import { GLUCOSE_THRESHOLDS, extractGlucoseReadings } from '../analysis/glucose-statistics.js';
+import { longestAbsorptionHours } from '../analysis/carb-absorption.js';
+import { describeInsulinCurve, resolveInsulinCurve } from '../analysis/insulin-activity.js';
+import { forecastGlucose, type ForecastPoint } from '../analysis/forecast.js';
+import { INSULIN_CURVE_PROPERTIES } from './get-iob.js';
+import { ABSORPTION_PROPERTIES } from './get-cob.js';
+import type { GlucoseUnit } from '../types/api.js';
+
+/** Forecast horizons reported individually (minutes) */
+const HORIZONS = [30, 60, 120] as const;
+
+/** Latest reading must be at most this old */
+const MAX_READING_AGE_MS = 20 * 60 * 1000;
+
+export const forecastGlucoseToolDefinition = {
+  name: 'forecast_glucose',
+  description: 'Forecast glucose for the next 30, 60 and 120 minutes (counted from now) from the latest reading and its trend, insulin on board, carbs on board (same absorption options as get_cob) and the ISF and IC ratios of the profile. Returns a predicted curve with uncertainty bounds and clearly flags predicted lows. Needs a reading from the last 20 minutes; works best with CGM data. A rough estimate, not a substitute for checking glucose.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      dia: {
+        type: 'number',
+        description: 'Duration of Insulin Action in hours (default: insulinType preset, else 4)',
+        minimum: 2,
+        maximum: 8
+      },
+      ...INSULIN_CURVE_PROPERTIES,
+      ...ABSORPTION_PROPERTIES,
+      lowThreshold: {
+        type: 'number',
+        description: 'Predicted values below this are flagged as lows, in the output unit (default: 70 mg/dL / 3.9 mmol/L)'
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for input and output (default: the unit configured in your Diabetes:M profile)'
+      },
+      timezone: {
+        type: 'string',
+        description: 'IANA timezone for times, e.g. "Europe/Rome" (default: account setting, else system timezone)'
+      }
+    }
+  },
+  annotations: {
+    title: 'Forecast Glucose',
+    readOnlyHint: true,
+    idempotentHint: false,
+    openWorldHint: true
+  }
+};
+
+export interface ForecastPrediction {
+  /** Minutes from now */
+  minutes: number;
+  time: string;
+  glucose: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastGlucoseResult {
+  unit: GlucoseUnit;
+  timezone: string;
+  calculatedAt: string;
+  /** Latest reading the forecast starts from */
+  start: {
+    time: string;
+    /** Age of the reading at calculatedAt; the horizons count from calculatedAt */
+    minutesAgo: number;
+    glucose: number;
+    source: 'sensor' | 'fingerstick';
+    /** Rate of change per minute, in the output unit */
+    ratePerMinute: number;
+  };
+  inputs: {
+    iob: number;
+    cob: number;
+    /** ISF in effect now, in the output unit per unit of insulin */
+    isf: number;
+    dia: number;
+    /** Insulin action curve used for the insulin effect */
+    insulinCurve: string;
+  };
+  /** Predictions at 30, 60 and 120 minutes */
+  predictions: ForecastPrediction[];
+  /** Full predicted curve in 5-minute steps, ready for plotting */
+  curve: {
+    x: string[];
+    glucose: number[];
+    lower: number[];
+    upper: number[];
+  };
+  lowAlert: {
+    threshold: number;
+    /** 'predicted': the forecast itself drops below the threshold; 'possible': only the lower bound does */
+    level: 'none' | 'possible' | 'predicted';
+    /** First time the forecast (or its lower bound) crosses the threshold */
+    time: string | null;
+    minutesAhead: number | null;
+    lowestPredicted: number;
+  };
+  warnings: string[];
+  disclaimers: string[];
+  summary: string;
+}
+
+/**
+ * Executes the forecast_glucose tool
+ */
+export async function executeForecastGlucose(args: unknown): Promise<ForecastGlucoseResult> {
+  // Validate input
+  const validatedInput = ForecastGlucoseInputSchema.parse(args ?? {});
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+  const lowThreshold = glucoseInputToMgdl(validatedInput.lowThreshold, unit) ?? GLUCOSE_THRESHOLDS.LOW;
+
+  const settingsResponse = await diabetesMClient.getTherapySettings();
+  if (!settingsResponse.success || !settingsResponse.data) {
+    throw new Error(
+      settingsResponse.error?.message || 'Failed to read IC ratios and ISF from the profile'
+    );
+  }
+  const curve = resolveInsulinCurve(validatedInput);
+  const dia = curve.dia;
+
+  // Doses within the DIA and meals within the slowest absorption still act
+  const now = Date.now();
+  const lookbackMs = (Math.max(dia, longestAbsorptionHours(validatedInput)) + 1) * 60 * 60 * 1000;
+  const response = await diabetesMClient.getLogbookEntries(
+    undefined, undefined, undefined,
+    formatDateKey(new Date(now - lookbackMs), timeZone), formatDateKey(new Date(now), timeZone),
+    { timeZone }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to retrieve logbook entries'
+    );
+  }
+
+  const readings = extractGlucoseReadings(response.data).filter(r => r.time <= now);
+  const latest = readings[readings.length - 1];
+  if (!latest || now - latest.time > MAX_READING_AGE_MS) {
+    throw new Error(
+      `No glucose reading in the last ${MAX_READING_AGE_MS / 60000} minutes: a forecast needs a current value. ` +
+      'Check your glucose or make sure the sensor data is synced.'
+    );
+  }
+
+  const forecast = forecastGlucose(readings, response.data, settingsResponse.data, timeZone, {
+    curve,
+    absorption: validatedInput,
+    from: now
+  });
+  if (!forecast) {
+    throw new Error('No ISF is configured in the profile: the insulin effect cannot be estimated');
+  }
+
+  const render = (point: ForecastPoint): ForecastPrediction => ({
+    minutes: point.minutes,
+    time: formatTime(new Date(point.time), timeZone),
+    glucose: fromMgdl(point.glucose, unit),
+    lower: fromMgdl(point.lower, unit),
+    upper: fromMgdl(point.upper, unit)
+  });
+
+  // Predicted lows
+  const firstPredicted = forecast.points.find(point => point.glucose < lowThreshold);
+  const firstPossible = forecast.points.find(point => point.lower < lowThreshold);
+  const lowPoint = firstPredicted ?? firstPossible;
+  const lowestPredicted = Math.min(forecast.start.glucose, ...forecast.points.map(point => point.glucose));
+  const level = firstPredicted ? 'predicted' : firstPossible ? 'possible' : 'none';
+
+  const warnings: string[] = [];
+  if (level === 'predicted') {
+    warnings.push(
+      `⚠️ LOW PREDICTED: glucose may fall below ${formatGlucose(lowThreshold, unit)} ` +
+      `around ${formatTime(new Date(firstPredicted!.time), timeZone)} (in about ${firstPredicted!.minutes} minutes). ` +
+      'Check your glucose and be ready to treat a low.'
+    );
+  } else if (level === 'possible') {
+    warnings.push(
+      `Possible low: the lower bound reaches ${formatGlucose(lowThreshold, unit)} ` +
+      `around ${formatTime(new Date(firstPossible!.time), timeZone)} (in about ${firstPossible!.minutes} minutes).`
+    );
+  }
+  if (!forecast.start.isSensor) {
+    warnings.push('Latest value is a fingerstick: no trend is available, so the forecast relies on insulin and carbs only.');
+  }
+  if (forecast.cob > 0) {
+    warnings.push('Carb absorption uses fixed times per meal category (same settings as get_cob); actual absorption varies with fat, protein and activity.');
+  }
+
+  const predictions = HORIZONS
+    .map(minutes => forecast.points.find(point => point.minutes === minutes))
+    .filter((point): point is ForecastPoint => point !== undefined)
+    .map(render);
+  const rendered = forecast.points.map(render);
+
+  return {
+    unit,
+    timezone: timeZone,
+    calculatedAt: new Date(now).toISOString(),
+    start: {
+      time: formatTime(new Date(forecast.start.time), timeZone),
+      minutesAgo: Math.round((now - forecast.start.time) / 60000),
+      glucose: fromMgdl(forecast.start.glucose, unit),
+      source: forecast.start.isSensor ? 'sensor' : 'fingerstick',
+      ratePerMinute: unit === 'mmol/L'
+        ? Math.round((forecast.ratePerMinute / MGDL_PER_MMOL) * 100) / 100
+        : forecast.ratePerMinute
+    },
+    inputs: {
+      iob: forecast.iob,
+      cob: forecast.cob,
+      isf: fromMgdl(forecast.isf, unit),
+      dia,
+      insulinCurve: describeInsulinCurve(curve)
+    },
+    predictions,
+    curve: {
+      x: rendered.map(point => point.time),
+      glucose: rendered.map(point => point.glucose),
+      lower: rendered.map(point => point.lower),
+      upper: rendered.map(point => point.upper)
+    },
+    lowAlert: {
+      threshold: fromMgdl(lowThreshold, unit),
+      level,
+      time: lowPoint ? formatTime(new Date(lowPoint.time), timeZone) : null,
+      minutesAhead: lowPoint ? lowPoint.minutes : null,
+      lowestPredicted: fromMgdl(lowestPredicted, unit)
+    },
+    warnings,
+    disclaimers: [
+      'This forecast is a rough estimate for informational purposes and does not constitute medical advice.',
+      'Always confirm with a glucose reading before treating or dosing.',
+      'Unlogged carbs or insulin, exercise, illness and sensor errors make the forecast unreliable.'
+    ],
+    summary: `From ${formatGlucose(forecast.start.glucose, unit)} at ${formatTime(new Date(forecast.start.time), timeZone)}, ` +
+      `minutes counted from now (${formatTime(new Date(now), timeZone)}): ` +
+      predictions.map(p => `${p.minutes} min ${p.glucose} (${p.lower}-${p.upper})`).join(', ') + ` ${unit}. ` +
+      `IOB ${forecast.iob}u, COB ${forecast.cob}g.` +
+      (level === 'predicted' ? ' LOW PREDICTED.' : level === 'possible' ? ' Possible low within the uncertainty band.' : '')
+  };
+}
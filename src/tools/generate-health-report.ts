@@ -2,7 +2,8 @@
  * Tool: generate_health_report
  *
  * Generates a comprehensive health report suitable for medical professionals.
- * Includes HbA1c analysis, glucose trends, insulin/carb analysis, and warnings.
+ * Includes HbA1c analysis, glucose trends, international consensus CGM
+ * metrics, insulin/carb analysis, and warnings.
  *
  * Security:
  * - One-time download token (expires in 1 hour)
@@ -16,7 +17,25 @@ import { randomBytes } from 'node:crypto';
 import { diabetesMClient } from '../api/client.js';
 import { auditLogger } from '../security/audit.js';
 import { GenerateHealthReportInputSchema } from '../types/tools.js';
-import type { HealthReport, GlucoseStatistics, InsulinAnalysis } from '../types/api.js';
+import { fromMgdl, formatGlucose, formatGlucoseRange } from '../utils/units.js';
+import { formatDateKey, formatTime } from '../utils/timezone.js';
+import { dateRangeToParams } from '../api/endpoints.js';
+import { extractGlucoseReadings } from '../analysis/glucose-statistics.js';
+import {
+  consensusMetricsForDays,
+  describeConsensusRanges,
+  summarizeConsensusMetrics,
+  type ConsensusRanges
+} from './get-glucose-statistics.js';
+import { buildVariabilityReport, type GlycemicVariabilityReport } from './get-glycemic-variability.js';
+import { describeCompleteness } from './get-logbook-entries.js';
+import type {
+  ConsensusMetrics,
+  HealthReport,
+  GlucoseStatistics,
+  GlucoseUnit,
+  InsulinAnalysis
+} from '../types/api.js';
 
 export const generateHealthReportToolDefinition = {
   name: 'generate_health_report',
@@ -33,6 +52,20 @@ export const generateHealthReportToolDefinition = {
         type: 'string',
         enum: ['summary', 'detailed', 'trends'],
         description: 'Report format type'
+      },
+      includeVariability: {
+        type: 'boolean',
+        description: 'Add a glycemic variability section (MAGE, CONGA, MODD, J-index, LBGI/HBGI) to a detailed report. Default: false.',
+        default: false
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for the report (default: the unit configured in your Diabetes:M profile)'
+      },
+      timezone: {
+        type: 'string',
+        description: 'IANA timezone for the report period and dates, e.g. "Europe/Rome" (default: account setting, else system timezone)'
       }
     },
     required: ['period', 'format']
@@ -50,11 +83,15 @@ export interface GenerateHealthReportResult {
   generatedAt: string;
   expiresAt: string;
   period: string;
+  /** IANA timezone used for the period and the dates in the report */
+  timezone: string;
   format: string;
   downloadToken: string;
   report: {
     title: string;
     patientSummary: string;
+    /** Unit of every glucose value and ISF in the report */
+    glucoseUnit: GlucoseUnit;
     glucoseAnalysis: {
       averageGlucose: number;
       estimatedHbA1c: number;
@@ -74,6 +111,15 @@ export interface GenerateHealthReportResult {
       averageDailyCarbs: number;
       averageDailyCalories?: number;
     };
+    /** International consensus CGM metrics (absent without logbook readings) */
+    consensusMetrics?: ConsensusMetrics & {
+      ranges: ConsensusRanges;
+      /** Whether all logbook pages behind the metrics were fetched */
+      completeness: string;
+      summary: string;
+    };
+    /** Glycemic variability indices (detailed format with includeVariability only) */
+    variability?: GlycemicVariabilityReport;
     warnings: string[];
     recommendations: string[];
     disclaimers: string[];
@@ -127,7 +173,8 @@ function assessHyperglycemiaRisk(distribution: { high: number; hyper: number }):
  */
 function generateWarnings(
   glucoseStats: GlucoseStatistics,
-  insulinData: InsulinAnalysis
+  insulinData: InsulinAnalysis,
+  unit: GlucoseUnit
 ): string[] {
   const warnings: string[] = [];
 
@@ -139,7 +186,7 @@ function generateWarnings(
   }
 
   if (glucoseStats.distribution.hypo > 4) {
-    warnings.push('WARNING: Hypoglycemia frequency exceeds safe limits. Review insulin dosing.');
+    warnings.push(`WARNING: Hypoglycemia (<${formatGlucose(54, unit)}) frequency exceeds safe limits. Review insulin dosing.`);
   }
 
   if (glucoseStats.coefficientOfVariation > 36) {
@@ -147,7 +194,7 @@ function generateWarnings(
   }
 
   if (glucoseStats.timeInRange < 50) {
-    warnings.push('WARNING: Time in range below 50%. Intensive management review recommended.');
+    warnings.push(`WARNING: Time in range (${formatGlucoseRange(70, 180, unit)}) below 50%. Intensive management review recommended.`);
   }
 
   // Insulin-related warnings
@@ -216,9 +263,11 @@ export async function executeGenerateHealthReport(
   // Validate input
   const validatedInput = GenerateHealthReportInputSchema.parse(args);
   const { period, format } = validatedInput;
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
 
   // Try to use API if available
-  const apiResponse = await diabetesMClient.generateHealthReport(period, format);
+  const apiResponse = await diabetesMClient.generateHealthReport(period, format, timeZone);
 
   // Get glucose and insulin data for local report generation
   const glucoseResponse = await diabetesMClient.getGlucoseStatistics(period);
@@ -235,6 +284,19 @@ export async function executeGenerateHealthReport(
   const glucoseStats = glucoseResponse.data;
   const insulinData = insulinResponse.data;
 
+  // Consensus metrics need the individual readings of the period
+  const { from, to } = dateRangeToParams(period, timeZone);
+  const logbookResponse = await diabetesMClient.getLogbookEntries(
+    undefined, undefined, undefined, from, to, { timeZone }
+  );
+  const readings = logbookResponse.success && logbookResponse.data
+    ? extractGlucoseReadings(logbookResponse.data)
+    : undefined;
+  const consensusMetrics = readings && consensusMetricsForDays(readings, from, to, timeZone, logbookResponse.pagination);
+  const variability = readings && format === 'detailed' && validatedInput.includeVariability
+    ? buildVariabilityReport(readings, unit)
+    : undefined;
+
   // Generate report locally (API may not be available or may provide different format)
   const now = new Date();
   const expiresAt = new Date(now.getTime() + 60 * 60 * 1000); // 1 hour
@@ -244,7 +306,16 @@ export async function executeGenerateHealthReport(
     period === '7' ? 'Last 7 Days' :
       period === '30' ? 'Last 30 Days' : 'Last 90 Days';
 
-  const warnings = generateWarnings(glucoseStats, insulinData);
+  const warnings = generateWarnings(glucoseStats, insulinData, unit);
+  if (consensusMetrics && !consensusMetrics.timeBelowRangeLevel2.meetsTarget) {
+    warnings.push(`WARNING: Time below ${formatGlucose(54, unit)} is ${consensusMetrics.timeBelowRangeLevel2.value}% (consensus target <1%).`);
+  }
+  if (readings && logbookResponse.pagination && !logbookResponse.pagination.complete) {
+    warnings.push(
+      `NOTE: Only ${logbookResponse.pagination.fetchedRows} of ${logbookResponse.pagination.totalRows} logbook entries could be fetched: ` +
+      'consensus metrics and variability cover part of the period and CGM active time is unreliable.'
+    );
+  }
   const recommendations = generateRecommendations(glucoseStats, insulinData, format);
 
   const result: GenerateHealthReportResult = {
@@ -252,14 +323,17 @@ export async function executeGenerateHealthReport(
     generatedAt: now.toISOString(),
     expiresAt: expiresAt.toISOString(),
     period: periodLabel,
+    timezone: timeZone,
     format,
     downloadToken,
     report: {
       title: `Diabetes Management Report - ${periodLabel}`,
       patientSummary: `This report covers diabetes management data for ${periodLabel.toLowerCase()}. ` +
-        `Based on ${glucoseStats.readingsCount} glucose readings.`,
+        `Based on ${glucoseStats.readingsCount} glucose readings ` +
+        `(average ${formatGlucose(glucoseStats.average, unit)}, target range ${formatGlucoseRange(70, 180, unit)}).`,
+      glucoseUnit: unit,
       glucoseAnalysis: {
-        averageGlucose: glucoseStats.average,
+        averageGlucose: fromMgdl(glucoseStats.average, unit),
         estimatedHbA1c: glucoseStats.estimatedHbA1c,
         timeInRange: glucoseStats.timeInRange,
         hypoglycemiaRisk: assessHypoglycemiaRisk(glucoseStats.distribution),
@@ -271,19 +345,26 @@ export async function executeGenerateHealthReport(
         totalDailyDose: insulinData.averageDailyDose,
         bolusBasalRatio: `${insulinData.bolusPercentage.toFixed(0)}/${insulinData.basalPercentage.toFixed(0)}`,
         insulinToCarbRatio: insulinData.insulinToCarbRatio,
-        correctionFactor: insulinData.correctionFactor
+        correctionFactor: fromMgdl(insulinData.correctionFactor, unit)
       },
       nutritionSummary: {
         averageDailyCarbs: insulinData.carbTotals / (period === 'today' ? 1 : parseInt(period))
       },
+      consensusMetrics: consensusMetrics && {
+        ...consensusMetrics,
+        ranges: describeConsensusRanges(unit),
+        completeness: describeCompleteness(logbookResponse.pagination),
+        summary: summarizeConsensusMetrics(consensusMetrics)
+      },
+      variability,
       warnings,
       recommendations,
       disclaimers: [
         'This report is generated for informational purposes and does not constitute medical advice.',
         'Always consult with your healthcare provider before making changes to your treatment.',
         'Estimated HbA1c is calculated from glucose readings and may differ from laboratory values.',
-        `Report generated on ${now.toLocaleDateString()} at ${now.toLocaleTimeString()}.`,
-        `This report expires on ${expiresAt.toLocaleDateString()} at ${expiresAt.toLocaleTimeString()}.`
+        `Report generated on ${formatDateKey(now, timeZone)} at ${formatTime(now, timeZone)} (${timeZone}).`,
+        `This report expires on ${formatDateKey(expiresAt, timeZone)} at ${formatTime(expiresAt, timeZone)} (${timeZone}).`
       ]
     }
   };
@@ -0,0 +1,182 @@
+/**
+ * Tool: get_agp
+ *
+ * Builds the Ambulatory Glucose Profile: percentiles 5/25/50/75/95 of
+ * glucose by time of day, pooled across a period, plus the flattest and
+ * most variable times of day.
+ *
+ * Output is structured for charting: one array per percentile band,
+ * aligned with the bin start times.
+ *
+ * Security:
+ * - Input validation with Zod
+ * - Logbook data read through the encrypted cache
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { GetAgpInputSchema } from '../types/tools.js';
+import { fromMgdl, formatGlucose } from '../utils/units.js';
+import { addDays, todayKey } from '../utils/timezone.js';
+import { extractGlucoseReadings, preferSensorReadings } from '../analysis/glucose-statistics.js';
+import { AGP_MIN_READINGS_PER_BIN, computeAgp, rankAgpVariability, type AgpBin } from '../analysis/agp.js';
+import { LOGBOOK_DATE_PROPERTIES, describeCompleteness, describePeriod } from './get-logbook-entries.js';
+import type { GlucoseUnit } from '../types/api.js';
+
+/** Default AGP period (consensus recommendation: 14 days of CGM data) */
+const DEFAULT_AGP_DAYS = 14;
+
+export const getAgpToolDefinition = {
+  name: 'get_agp',
+  description: 'Build the Ambulatory Glucose Profile (AGP): glucose percentiles 5/25/50/75/95 by time of day, pooled across a period (default: last 14 days), in 15/30/60-minute bins. Also returns the flattest and most variable times of day. The chart section has one array per band, aligned with the bin times, ready to draw the classic AGP chart.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      ...LOGBOOK_DATE_PROPERTIES,
+      binMinutes: {
+        type: 'integer',
+        enum: [15, 30, 60],
+        description: 'Time-of-day bin width in minutes (default: 30)',
+        default: 30
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for the output (default: the unit configured in your Diabetes:M profile)'
+      }
+    },
+    required: []
+  },
+  annotations: {
+    title: 'Get Ambulatory Glucose Profile',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  }
+};
+
+/**
+ * A time-of-day window with its spread
+ */
+export interface AgpTimeWindow {
+  /** "07:00-07:30" */
+  time: string;
+  /** Interquartile range (p75 - p25) in the output unit */
+  iqr: number;
+  median: number;
+  readings: number;
+}
+
+export interface GetAgpResult {
+  period: string;
+  timezone: string;
+  /** Unit of every glucose value in the result */
+  unit: GlucoseUnit;
+  binMinutes: number;
+  /** 'sensor' when CGM readings exist, otherwise all readings */
+  basis: 'sensor' | 'all readings';
+  days: number;
+  readingsUsed: number;
+  completeness: string;
+  /** Percentile bands aligned with x; null where a bin has too few readings */
+  chart: {
+    x: string[];
+    readings: number[];
+    p5: Array<number | null>;
+    p25: Array<number | null>;
+    p50: Array<number | null>;
+    p75: Array<number | null>;
+    p95: Array<number | null>;
+    targetRange: { low: number; high: number };
+  };
+  flattestTimes: AgpTimeWindow[];
+  mostVariableTimes: AgpTimeWindow[];
+  summary: string;
+}
+
+/**
+ * Converts a ranked bin to a time window in the output unit
+ */
+function toTimeWindow(bin: AgpBin, unit: GlucoseUnit): AgpTimeWindow {
+  return {
+    time: `${bin.start}-${bin.end}`,
+    iqr: fromMgdl(bin.iqr!, unit),
+    median: fromMgdl(bin.p50!, unit),
+    readings: bin.readings
+  };
+}
+
+/**
+ * Executes the get_agp tool
+ */
+export async function executeGetAgp(args: unknown): Promise<GetAgpResult> {
+  // Validate input
+  const validatedInput = GetAgpInputSchema.parse(args ?? {});
+  const binMinutes = validatedInput.binMinutes ?? 30;
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+
+  // Default to the last 14 days
+  const selection = validatedInput.dateRange || validatedInput.date || validatedInput.startDate
+    ? validatedInput
+    : { ...validatedInput, startDate: addDays(todayKey(timeZone), -(DEFAULT_AGP_DAYS - 1)), endDate: todayKey(timeZone) };
+  const { dateRange, date, startDate, endDate, maxPages } = selection;
+
+  const response = await diabetesMClient.getLogbookEntries(
+    dateRange, undefined, date, startDate, endDate, { maxPages, timeZone }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to retrieve logbook entries'
+    );
+  }
+
+  const { basis, readings } = preferSensorReadings(extractGlucoseReadings(response.data));
+  const profile = computeAgp(readings, binMinutes, timeZone);
+  const { flattest, mostVariable } = rankAgpVariability(profile);
+
+  const band = (key: 'p5' | 'p25' | 'p50' | 'p75' | 'p95') =>
+    profile.bins.map(bin => (bin[key] !== null ? fromMgdl(bin[key]!, unit) : null));
+
+  // Summary
+  const binsWithData = profile.bins.filter(bin => bin.p50 !== null).length;
+  let summary: string;
+  if (binsWithData === 0) {
+    summary = `Not enough readings for an AGP: each ${binMinutes}-minute bin needs at least ${AGP_MIN_READINGS_PER_BIN} readings.`;
+  } else {
+    summary = `AGP from ${profile.readingsUsed} ${basis === 'sensor' ? 'sensor' : 'fingerstick'} readings over ${profile.days} day(s); ` +
+      `${binsWithData} of ${profile.bins.length} bins have enough data.`;
+    if (flattest[0] && mostVariable[0]) {
+      summary += ` Flattest at ${flattest[0].start}-${flattest[0].end} (IQR ${formatGlucose(flattest[0].iqr!, unit)}), ` +
+        `most variable at ${mostVariable[0].start}-${mostVariable[0].end} (IQR ${formatGlucose(mostVariable[0].iqr!, unit)}).`;
+    }
+    if (profile.days < DEFAULT_AGP_DAYS) {
+      summary += ` Fewer than ${DEFAULT_AGP_DAYS} days of data: percentiles may not be representative.`;
+    }
+  }
+
+  return {
+    period: describePeriod(selection, timeZone),
+    timezone: timeZone,
+    unit,
+    binMinutes,
+    basis,
+    days: profile.days,
+    readingsUsed: profile.readingsUsed,
+    completeness: describeCompleteness(response.pagination),
+    chart: {
+      x: profile.bins.map(bin => bin.start),
+      readings: profile.bins.map(bin => bin.readings),
+      p5: band('p5'),
+      p25: band('p25'),
+      p50: band('p50'),
+      p75: band('p75'),
+      p95: band('p95'),
+      targetRange: { low: fromMgdl(70, unit), high: fromMgdl(180, unit) }
+    },
+    flattestTimes: flattest.map(bin => toTimeWindow(bin, unit)),
+    mostVariableTimes: mostVariable.map(bin => toTimeWindow(bin, unit)),
+    summary
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * Tool: get_cob (Carbs on Board)
+ *
+ * Calculates the carbohydrates still being absorbed from recent meals,
+ * the counterpart of get_iob for carbs.
+ *
+ * Each meal is assigned an absorption time:
+ * - per meal category (a class or explicit hours), e.g. dinner = slow
+ * - otherwise the default class (medium)
+ * and absorbed along a triangular rate curve (see analysis/carb-absorption).
+ *
+ * Security:
+ * - Input validation with Zod
+ * - Logbook data read through the encrypted cache
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { GetCOBInputSchema } from '../types/tools.js';
+import { formatDateKey, formatTime } from '../utils/timezone.js';
+import {
+  absorptionHoursByClass,
+  calculateCarbsRemaining,
+  longestAbsorptionHours,
+  mealAbsorption,
+  type AbsorptionClass
+} from '../analysis/carb-absorption.js';
+
+/**
+ * COB calculation result
+ */
+export interface COBResult {
+  /** Current COB value in grams */
+  cob: number;
+  /** Formatted COB string (e.g., "32g") */
+  cobFormatted: string;
+  /** Absorption time used per class (hours) */
+  absorptionHours: Record<AbsorptionClass, number>;
+  /** Timestamp of calculation */
+  calculatedAt: string;
+  /** IANA timezone used for meal times */
+  timezone: string;
+  /** When the last active meal will be fully absorbed (HH:MM, null when nothing is on board) */
+  absorptionEndsAt: string | null;
+  /** Breakdown of COB by absorption class (meals with explicit hours count as "custom") */
+  breakdown: {
+    fromFast: number;
+    fromMedium: number;
+    fromSlow: number;
+    fromCustom: number;
+  };
+  /** Recent meals still being absorbed */
+  activeMeals: Array<{
+    time: string;
+    category: string;
+    absorption: AbsorptionClass | 'custom';
+    absorptionHours: number;
+    carbs: number;
+    remaining: number;
+    percentRemaining: number;
+    absorbedBy: string;
+  }>;
+  /** Summary message */
+  summary: string;
+}
+
+/**
+ * Absorption options shared with forecast_glucose, so both tools give the
+ * same meal the same carbs on board
+ */
+export const ABSORPTION_PROPERTIES = {
+  classAbsorption: {
+    type: 'object',
+    description: 'Absorption time in hours per class. Defaults: fast 2, medium 3, slow 4.',
+    properties: {
+      fast: { type: 'number', minimum: 0.5, maximum: 8 },
+      medium: { type: 'number', minimum: 0.5, maximum: 8 },
+      slow: { type: 'number', minimum: 0.5, maximum: 8 }
+    }
+  },
+  categoryAbsorption: {
+    type: 'object',
+    description: 'Absorption per meal category, as a class ("fast", "medium", "slow") or hours, e.g. {"dinner": "slow", "snack": 1.5}. Defaults: breakfast/lunch medium, dinner slow, snack and after-meal entries fast.',
+    additionalProperties: {
+      oneOf: [
+        { type: 'string', enum: ['fast', 'medium', 'slow'] },
+        { type: 'number', minimum: 0.5, maximum: 8 }
+      ]
+    }
+  },
+  defaultClass: {
+    type: 'string',
+    enum: ['fast', 'medium', 'slow'],
+    description: 'Absorption class for meals whose category has no setting (default: medium)'
+  }
+};
+
+export const getCOBToolDefinition = {
+  name: 'get_cob',
+  description: 'Calculate the current Carbs on Board (COB) - carbohydrates from recent meals that are still being absorbed. Absorption time can be set per absorption class (fast/medium/slow) or per meal category. Returns the remaining carbs, a per-meal breakdown and when absorption is expected to end. Counterpart of get_iob for carbs.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      ...ABSORPTION_PROPERTIES,
+      timezone: {
+        type: 'string',
+        description: 'IANA timezone for meal times and day lookups, e.g. "Europe/Rome" (default: account setting, else system timezone)'
+      }
+    }
+  },
+  annotations: {
+    title: 'Get Carbs on Board',
+    readOnlyHint: true,
+    idempotentHint: false,
+    openWorldHint: true
+  }
+};
+
+/**
+ * Executes the get_cob tool
+ */
+export async function executeGetCOB(args: unknown): Promise<COBResult> {
+  // Validate input
+  const validatedInput = GetCOBInputSchema.parse(args ?? {});
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+  const absorptionHours = absorptionHoursByClass(validatedInput);
+  const longestHours = longestAbsorptionHours(validatedInput);
+  const now = Date.now();
+
+  // Get logbook entries for the longest absorption time + 1 hour, in one range fetch
+  const lookbackMs = (longestHours + 1) * 60 * 60 * 1000;
+  const fromDateStr = formatDateKey(new Date(now - lookbackMs), timeZone);
+  const toDateStr = formatDateKey(new Date(now), timeZone);
+
+  const response = await diabetesMClient.getLogbookEntries(
+    undefined, undefined, undefined, fromDateStr, toDateStr, { timeZone }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to retrieve logbook entries'
+    );
+  }
+
+  const breakdown = { fromFast: 0, fromMedium: 0, fromSlow: 0, fromCustom: 0 };
+  const breakdownKey = {
+    fast: 'fromFast',
+    medium: 'fromMedium',
+    slow: 'fromSlow',
+    custom: 'fromCustom'
+  } as const;
+
+  let totalCOB = 0;
+  let absorptionEnd: number | null = null;
+  const activeMeals: Array<{ at: number; meal: COBResult['activeMeals'][number] }> = [];
+
+  for (const entry of response.data) {
+    if (!entry.carbs || entry.carbs <= 0) {
+      continue;
+    }
+
+    const entryTime = new Date(entry.timestamp).getTime();
+    const minutesAgo = (now - entryTime) / (1000 * 60);
+
+    // Skip future entries
+    if (minutesAgo < 0) {
+      continue;
+    }
+
+    const { absorption, hours } = mealAbsorption(entry.category, validatedInput);
+    const fraction = calculateCarbsRemaining(minutesAgo, hours);
+    const remaining = entry.carbs * fraction;
+
+    if (remaining <= 0.1) {
+      continue;
+    }
+
+    totalCOB += remaining;
+    breakdown[breakdownKey[absorption]] += remaining;
+
+    const endsAt = entryTime + hours * 60 * 60 * 1000;
+    absorptionEnd = absorptionEnd === null ? endsAt : Math.max(absorptionEnd, endsAt);
+
+    activeMeals.push({
+      at: entryTime,
+      meal: {
+        time: formatTime(new Date(entryTime), timeZone),
+        category: entry.category || 'uncategorized',
+        absorption,
+        absorptionHours: hours,
+        carbs: entry.carbs,
+        remaining: Math.round(remaining * 10) / 10,
+        percentRemaining: Math.round(fraction * 100),
+        absorbedBy: formatTime(new Date(endsAt), timeZone)
+      }
+    });
+  }
+
+  // Most recent first
+  activeMeals.sort((a, b) => b.at - a.at);
+
+  // Round values
+  totalCOB = Math.round(totalCOB);
+  breakdown.fromFast = Math.round(breakdown.fromFast);
+  breakdown.fromMedium = Math.round(breakdown.fromMedium);
+  breakdown.fromSlow = Math.round(breakdown.fromSlow);
+  breakdown.fromCustom = Math.round(breakdown.fromCustom);
+
+  // Generate summary
+  let summary = `Current COB: ${totalCOB}g`;
+  if (activeMeals.length > 0) {
+    summary += ` from ${activeMeals.length} meal(s), fully absorbed by about ${formatTime(new Date(absorptionEnd!), timeZone)}`;
+  } else {
+    summary += ' (no meals being absorbed)';
+  }
+  summary += `. Absorption times: fast ${absorptionHours.fast}h, medium ${absorptionHours.medium}h, slow ${absorptionHours.slow}h.`;
+
+  return {
+    cob: totalCOB,
+    cobFormatted: `${totalCOB}g`,
+    absorptionHours,
+    calculatedAt: new Date().toISOString(),
+    timezone: timeZone,
+    absorptionEndsAt: absorptionEnd !== null ? formatTime(new Date(absorptionEnd), timeZone) : null,
+    breakdown,
+    activeMeals: activeMeals.map(({ meal }) => meal),
+    summary
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Tool: get_diary_calendar
+ *
+ * Lists the days that have diary data in a month or date range, with
+ * per-day counts of glucose readings, insulin doses and meals, and the
+ * gaps in between. Useful before requesting logbook details to pick
+ * sensible date ranges.
+ *
+ * Uses the DIARY_CALENDAR endpoint when it returns per-day counts,
+ * otherwise the same summary is derived from logbook entries.
+ *
+ * Security:
+ * - Input validation with Zod
+ * - Cached encrypted for 5 minutes
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { GetDiaryCalendarInputSchema } from '../types/tools.js';
+import { addDays, todayKey, weekdayOf } from '../utils/timezone.js';
+import type { DiaryCalendarDay } from '../types/api.js';
+
+/** Longest range accepted, to keep the logbook fallback bounded */
+const MAX_RANGE_DAYS = 366;
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const getDiaryCalendarToolDefinition = {
+  name: 'get_diary_calendar',
+  description: 'List which days have Diabetes:M diary data in a month or date range, with per-day counts of glucose readings, insulin doses and meals, plus the gaps without data. Use it before get_logbook_entries to spot missing days and pick sensible date ranges.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      month: {
+        type: 'string',
+        description: 'Month in YYYY-MM format (default: current month)'
+      },
+      startDate: {
+        type: 'string',
+        description: 'Start date in YYYY-MM-DD format (use with endDate instead of month, max 366 days)'
+      },
+      endDate: {
+        type: 'string',
+        description: 'End date in YYYY-MM-DD format (use with startDate instead of month)'
+      },
+      timezone: {
+        type: 'string',
+        description: 'IANA timezone for day boundaries, e.g. "Europe/Rome" (default: account setting, else system timezone)'
+      }
+    },
+    required: []
+  },
+  annotations: {
+    title: 'Get Diary Calendar',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  }
+};
+
+export interface GetDiaryCalendarResult {
+  period: {
+    from: string;
+    to: string;
+    totalDays: number;
+  };
+  timezone: string;
+  /** 'calendar' (DIARY_CALENDAR endpoint) or 'logbook' (derived from entries) */
+  source: 'calendar' | 'logbook';
+  daysWithData: number;
+  /** Share of days in the period with at least one entry, e.g. "87%" */
+  coverage: string;
+  days: Array<DiaryCalendarDay & { weekday: string }>;
+  /** Runs of consecutive days without any entry */
+  gaps: Array<{
+    from: string;
+    to: string;
+    days: number;
+  }>;
+  summary: string;
+}
+
+/**
+ * Number of calendar days from one date key to another (inclusive)
+ */
+function countDays(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000) + 1;
+}
+
+/**
+ * Finds runs of days without data between from and to
+ */
+function findGaps(days: DiaryCalendarDay[], from: string, to: string): GetDiaryCalendarResult['gaps'] {
+  const withData = new Set(days.map(day => day.date));
+  const gaps: GetDiaryCalendarResult['gaps'] = [];
+  let gapStart: string | undefined;
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    if (!withData.has(date)) {
+      gapStart ??= date;
+      continue;
+    }
+    if (gapStart) {
+      gaps.push({ from: gapStart, to: addDays(date, -1), days: countDays(gapStart, addDays(date, -1)) });
+      gapStart = undefined;
+    }
+  }
+
+  if (gapStart) {
+    gaps.push({ from: gapStart, to, days: countDays(gapStart, to) });
+  }
+
+  return gaps;
+}
+
+/**
+ * Executes the get_diary_calendar tool
+ */
+export async function executeGetDiaryCalendar(args: unknown): Promise<GetDiaryCalendarResult> {
+  // Validate input
+  const validatedInput = GetDiaryCalendarInputSchema.parse(args ?? {});
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+  const today = todayKey(timeZone);
+
+  let from: string;
+  let to: string;
+  if (validatedInput.startDate && validatedInput.endDate) {
+    from = validatedInput.startDate;
+    to = validatedInput.endDate;
+  } else {
+    const month = validatedInput.month ?? today.slice(0, 7);
+    from = `${month}-01`;
+    to = addDays(`${addDays(from, 31).slice(0, 7)}-01`, -1);
+  }
+
+  // Days after today cannot have data yet
+  if (to > today) {
+    to = today;
+  }
+  if (from > to) {
+    throw new Error(`No past days in the requested period (${from} is after ${to})`);
+  }
+  if (countDays(from, to) > MAX_RANGE_DAYS) {
+    throw new Error(`Date range too long: maximum is ${MAX_RANGE_DAYS} days`);
+  }
+
+  const response = await diabetesMClient.getDiaryCalendar(from, to, timeZone);
+
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to retrieve diary calendar'
+    );
+  }
+
+  const calendar = response.data;
+  const totalDays = countDays(from, to);
+  const gaps = findGaps(calendar.days, from, to);
+  const coverage = Math.round((calendar.days.length / totalDays) * 100);
+
+  let summary = `${calendar.days.length} of ${totalDays} days have diary data (${coverage}%).`;
+  if (gaps.length > 0) {
+    const longest = gaps.reduce((a, b) => (b.days > a.days ? b : a));
+    summary += ` ${gaps.length} gap(s); longest ${longest.days} day(s) (${longest.from} to ${longest.to}).`;
+  } else {
+    summary += ' No gaps.';
+  }
+  if (!calendar.complete) {
+    summary += ' Counts may be incomplete: the logbook page cap was reached.';
+  }
+
+  return {
+    period: { from, to, totalDays },
+    timezone: calendar.timeZone,
+    source: calendar.source,
+    daysWithData: calendar.days.length,
+    coverage: `${coverage}%`,
+    days: calendar.days.map(day => ({ ...day, weekday: DAYS[weekdayOf(day.date)]! })),
+    gaps,
+    summary
+  };
+}
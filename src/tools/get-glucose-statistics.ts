@@ -4,6 +4,9 @@
  * Gets glucose statistics including distribution (hypo/low/normal/high/hyper),
  * average, min/max values, and estimated HbA1c for a specified period.
  *
+ * - period: read from the precomputed Diabetes:M statistics
+ * - dateRange/date/startDate+endDate: computed locally from logbook readings
+ *
  * Security:
  * - Input validation with Zod
  * - Period validation (max 90 days)
@@ -14,21 +17,48 @@
 import { z } from 'zod';
 import { diabetesMClient } from '../api/client.js';
 import { GetGlucoseStatisticsInputSchema } from '../types/tools.js';
-import type { GlucoseStatistics, GlucoseDistribution } from '../types/api.js';
+import { fromMgdl, formatGlucose, formatGlucoseRange } from '../utils/units.js';
+import { dateRangeToParams } from '../api/endpoints.js';
+import { dayBounds } from '../utils/timezone.js';
+import {
+  computeGlucoseStatistics,
+  extractGlucoseReadings,
+  type GlucoseReading
+} from '../analysis/glucose-statistics.js';
+import { computeConsensusMetrics } from '../analysis/consensus-metrics.js';
+import {
+  LOGBOOK_DATE_PROPERTIES,
+  describeCompleteness,
+  describePeriod,
+  resolveDateSelection
+} from './get-logbook-entries.js';
+import type {
+  ConsensusMetrics,
+  GlucoseStatistics,
+  GlucoseDistribution,
+  GlucoseUnit,
+  LogbookPagination
+} from '../types/api.js';
 
 export const getGlucoseStatisticsToolDefinition = {
   name: 'get_glucose_statistics',
-  description: 'Get glucose statistics including distribution (hypo/low/normal/high/hyper), average, min/max values, and estimated HbA1c for a specified period.',
+  description: 'Get glucose statistics including distribution (hypo/low/normal/high/hyper), average, min/max values, SD, CV, time in range and estimated HbA1c, plus the international consensus CGM metrics (TBR/TAR levels 1-2, GMI, GRI, %CGM active time) flagged against their targets. Use period for the standard Diabetes:M periods, or dateRange/date/startDate+endDate (same options as get_logbook_entries) to compute them from the logbook readings of any range.',
   inputSchema: {
     type: 'object' as const,
     properties: {
       period: {
         type: 'string',
         enum: ['today', '7', '14', '30', '90'],
-        description: 'Period in days for statistics calculation'
+        description: 'Period in days, read from the precomputed Diabetes:M statistics (use this OR the date options)'
+      },
+      ...LOGBOOK_DATE_PROPERTIES,
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for the output (default: the unit configured in your Diabetes:M profile)'
       }
     },
-    required: ['period']
+    required: []
   },
   annotations: {
     title: 'Get Glucose Statistics',
@@ -47,6 +77,16 @@ export interface GetGlucoseStatisticsResult {
     high: string;
     hyper: string;
   };
+  /** Glucose range of each distribution bucket, in the output unit */
+  distributionRanges: {
+    hypo: string;
+    low: string;
+    normal: string;
+    high: string;
+    hyper: string;
+  };
+  /** Unit of average, min, max and standardDeviation */
+  unit: GlucoseUnit;
   average: number;
   min: number;
   max: number;
@@ -56,15 +96,127 @@ export interface GetGlucoseStatisticsResult {
   timeInRange: number;
   readingsCount: number;
   period: string;
+  /** 'statistics' (Diabetes:M precomputed) or 'readings' (computed from the logbook) */
+  source: 'statistics' | 'readings';
+  /** IANA timezone of the date range */
+  timezone: string;
+  /** Whether all logbook pages behind the readings and consensus metrics were fetched */
+  completeness: string;
+  /** International consensus CGM metrics (absent without logbook readings) */
+  consensusMetrics?: ConsensusMetrics;
+  /** Glucose range of each consensus level, in the output unit */
+  consensusRanges: ConsensusRanges;
   analysis: string;
 }
 
+export interface ConsensusRanges {
+  timeInRange: string;
+  timeBelowRangeLevel1: string;
+  timeBelowRangeLevel2: string;
+  timeAboveRangeLevel1: string;
+  timeAboveRangeLevel2: string;
+}
+
+/**
+ * Short names of the consensus metrics, in report order
+ */
+const CONSENSUS_LABELS: Array<[Exclude<keyof ConsensusMetrics, 'basis' | 'readingsUsed'>, string]> = [
+  ['timeInRange', 'TIR'],
+  ['timeBelowRangeLevel1', 'TBR level 1'],
+  ['timeBelowRangeLevel2', 'TBR level 2'],
+  ['timeAboveRangeLevel1', 'TAR level 1'],
+  ['timeAboveRangeLevel2', 'TAR level 2'],
+  ['coefficientOfVariation', 'CV'],
+  ['gmi', 'GMI'],
+  ['gri', 'GRI'],
+  ['cgmActiveTime', 'CGM active time']
+];
+
+/**
+ * Describes the distribution buckets (hypo <54, low 54-69, normal 70-180,
+ * high 181-250, hyper >250 mg/dL) in the output unit
+ */
+function describeDistributionRanges(unit: GlucoseUnit): GetGlucoseStatisticsResult['distributionRanges'] {
+  return {
+    hypo: `< ${formatGlucose(54, unit)}`,
+    low: formatGlucoseRange(54, 69, unit),
+    normal: formatGlucoseRange(70, 180, unit),
+    high: formatGlucoseRange(181, 250, unit),
+    hyper: `> ${formatGlucose(250, unit)}`
+  };
+}
+
+/**
+ * Describes the consensus levels in the output unit
+ */
+export function describeConsensusRanges(unit: GlucoseUnit): ConsensusRanges {
+  return {
+    timeInRange: formatGlucoseRange(70, 180, unit),
+    timeBelowRangeLevel1: formatGlucoseRange(54, 69, unit),
+    timeBelowRangeLevel2: `< ${formatGlucose(54, unit)}`,
+    timeAboveRangeLevel1: formatGlucoseRange(181, 250, unit),
+    timeAboveRangeLevel2: `> ${formatGlucose(250, unit)}`
+  };
+}
+
+/**
+ * Lists the consensus targets that are not met
+ */
+export function summarizeConsensusMetrics(metrics: ConsensusMetrics): string {
+  const missed = CONSENSUS_LABELS
+    .filter(([key]) => !metrics[key].meetsTarget)
+    .map(([key, label]) => {
+      const { value, target } = metrics[key];
+      return `${label} ${value}${key === 'gri' ? '' : '%'} (target ${target})`;
+    });
+
+  let summary = missed.length === 0
+    ? `All ${CONSENSUS_LABELS.length} consensus targets met.`
+    : `Consensus targets met: ${CONSENSUS_LABELS.length - missed.length} of ${CONSENSUS_LABELS.length}. Not met: ${missed.join(', ')}.`;
+
+  if (metrics.basis !== 'sensor') {
+    summary += ' No CGM readings: metrics are based on fingerstick readings and are less reliable.';
+  }
+  if (metrics.cgmActiveTime.reliable === false) {
+    summary += ' The logbook fetch was truncated: the metrics cover only the fetched days and CGM active time is understated (unreliable).';
+  }
+
+  return summary;
+}
+
+/**
+ * Computes the consensus metrics for readings covering from..to (calendar
+ * days in the timezone); the period end is capped at the current time.
+ * When the logbook fetch was truncated, CGM active time is marked unreliable
+ */
+export function consensusMetricsForDays(
+  readings: GlucoseReading[],
+  from: string,
+  to: string,
+  timeZone: string,
+  pagination?: LogbookPagination
+): ConsensusMetrics | undefined {
+  const metrics = computeConsensusMetrics(
+    readings,
+    dayBounds(from, timeZone).start,
+    Math.min(dayBounds(to, timeZone).end, Date.now())
+  );
+  if (metrics && pagination && !pagination.complete) {
+    metrics.cgmActiveTime.reliable = false;
+  }
+  return metrics;
+}
+
 /**
  * Generates a human-readable analysis of glucose statistics
  */
-function generateAnalysis(stats: GlucoseStatistics): string {
+function generateAnalysis(stats: GlucoseStatistics, unit: GlucoseUnit): string {
   const parts: string[] = [];
 
+  if (stats.readingsCount === 0) {
+    return 'No glucose readings in this period.';
+  }
+
   // HbA1c assessment
   if (stats.estimatedHbA1c < 5.7) {
     parts.push(`Estimated HbA1c of ${stats.estimatedHbA1c.toFixed(1)}% is in the normal range.`);
@@ -77,12 +229,13 @@ function generateAnalysis(stats: GlucoseStatistics): string {
   }
 
   // Time in Range assessment
+  const targetRange = formatGlucoseRange(70, 180, unit);
   if (stats.timeInRange >= 70) {
-    parts.push(`Time in range of ${stats.timeInRange.toFixed(0)}% meets the recommended target of >70%.`);
+    parts.push(`Time in range (${targetRange}) of ${stats.timeInRange.toFixed(0)}% meets the recommended target of >70%.`);
   } else if (stats.timeInRange >= 50) {
-    parts.push(`Time in range of ${stats.timeInRange.toFixed(0)}% is below the recommended 70%. Focus on reducing variability.`);
+    parts.push(`Time in range (${targetRange}) of ${stats.timeInRange.toFixed(0)}% is below the recommended 70%. Focus on reducing variability.`);
   } else {
-    parts.push(`Time in range of ${stats.timeInRange.toFixed(0)}% needs improvement. Consider reviewing insulin dosing and meal timing.`);
+    parts.push(`Time in range (${targetRange}) of ${stats.timeInRange.toFixed(0)}% needs improvement. Consider reviewing insulin dosing and meal timing.`);
   }
 
   // Variability assessment
@@ -110,17 +263,50 @@ export async function executeGetGlucoseStatistics(
   // Validate input
   const validatedInput = GetGlucoseStatisticsInputSchema.parse(args);
   const { period } = validatedInput;
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
 
-  // Make API call
-  const response = await diabetesMClient.getGlucoseStatistics(period);
+  // Logbook readings of the period (for the consensus metrics, and for the
+  // statistics themselves when a date range is given)
+  const { from, to } = period
+    ? dateRangeToParams(period, timeZone)
+    : resolveDateSelection(validatedInput, timeZone);
+  const logbookResponse = await diabetesMClient.getLogbookEntries(
+    undefined, undefined, undefined, from, to, { maxPages: validatedInput.maxPages, timeZone }
+  );
+  const readings = logbookResponse.success && logbookResponse.data
+    ? extractGlucoseReadings(logbookResponse.data)
+    : undefined;
 
-  if (!response.success || !response.data) {
-    throw new Error(
-      response.error?.message || 'Failed to retrieve glucose statistics'
-    );
+  let stats: GlucoseStatistics;
+
+  if (period) {
+    // Make API call
+    const response = await diabetesMClient.getGlucoseStatistics(period);
+
+    if (!response.success || !response.data) {
+      throw new Error(
+        response.error?.message || 'Failed to retrieve glucose statistics'
+      );
+    }
+
+    stats = response.data;
+  } else {
+    // Compute from logbook readings for any date range
+    if (!readings) {
+      throw new Error(
+        logbookResponse.error?.message || 'Failed to retrieve logbook entries'
+      );
+    }
+
+    stats = computeGlucoseStatistics(readings, describePeriod(validatedInput, timeZone));
   }
 
-  const stats = response.data;
+  const consensusMetrics = readings
+    ? consensusMetricsForDays(readings, from, to, timeZone, logbookResponse.pagination)
+    : undefined;
+
   const total = stats.distribution.hypo + stats.distribution.low +
     stats.distribution.normal + stats.distribution.high + stats.distribution.hyper;
 
@@ -137,15 +323,24 @@ export async function executeGetGlucoseStatistics(
       high: toPercentage(stats.distribution.high),
       hyper: toPercentage(stats.distribution.hyper)
     },
-    average: stats.average,
-    min: stats.min,
-    max: stats.max,
-    standardDeviation: stats.standardDeviation,
+    distributionRanges: describeDistributionRanges(unit),
+    unit,
+    average: fromMgdl(stats.average, unit),
+    min: fromMgdl(stats.min, unit),
+    max: fromMgdl(stats.max, unit),
+    standardDeviation: fromMgdl(stats.standardDeviation, unit),
     coefficientOfVariation: stats.coefficientOfVariation,
     estimatedHbA1c: stats.estimatedHbA1c,
     timeInRange: stats.timeInRange,
     readingsCount: stats.readingsCount,
     period: stats.period,
-    analysis: generateAnalysis(stats)
+    source: period ? 'statistics' : 'readings',
+    timezone: timeZone,
+    completeness: readings ? describeCompleteness(logbookResponse.pagination) : 'logbook unavailable',
+    consensusMetrics,
+    consensusRanges: describeConsensusRanges(unit),
+    analysis: consensusMetrics
+      ? `${generateAnalysis(stats, unit)} ${summarizeConsensusMetrics(consensusMetrics)}`
+      : generateAnalysis(stats, unit)
   };
 }
@@ -0,0 +1,196 @@
+/**
+ * Tool: get_glycemic_variability
+ *
+ * Computes glycemic variability indices beyond the coefficient of
+ * variation: MAGE, CONGA-n, MODD, J-index and the Kovatchev LBGI/HBGI
+ * risk indices, from the timestamped readings of a period.
+ *
+ * Irregular sampling is handled by interpolating between readings, and
+ * gaps longer than maxGapMinutes are never bridged.
+ *
+ * Security:
+ * - Input validation with Zod
+ * - Logbook data read through the encrypted cache
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { GetGlycemicVariabilityInputSchema } from '../types/tools.js';
+import { fromMgdl } from '../utils/units.js';
+import { extractGlucoseReadings, preferSensorReadings, type GlucoseReading } from '../analysis/glucose-statistics.js';
+import {
+  classifyHbgi,
+  classifyJIndex,
+  classifyLbgi,
+  computeVariability
+} from '../analysis/variability.js';
+import { LOGBOOK_DATE_PROPERTIES, describeCompleteness, describePeriod } from './get-logbook-entries.js';
+import type { GlucoseUnit } from '../types/api.js';
+
+export const getGlycemicVariabilityToolDefinition = {
+  name: 'get_glycemic_variability',
+  description: 'Compute glycemic variability indices for a period: MAGE (mean amplitude of glycemic excursions), CONGA-n, MODD (day-to-day variation), J-index and the Kovatchev LBGI/HBGI hypo/hyperglycemia risk indices. Handles irregular sampling and sensor gaps. Works best with CGM data; with fingerstick data only some indices can be computed.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      ...LOGBOOK_DATE_PROPERTIES,
+      congaHours: {
+        type: 'integer',
+        description: 'Lag of CONGA-n in hours (default: 1)',
+        minimum: 1,
+        maximum: 24,
+        default: 1
+      },
+      maxGapMinutes: {
+        type: 'integer',
+        description: 'Largest gap between readings treated as continuous data (default: 30). Longer gaps are never interpolated.',
+        minimum: 5,
+        maximum: 180,
+        default: 30
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for the output (default: the unit configured in your Diabetes:M profile)'
+      }
+    }
+  },
+  annotations: {
+    title: 'Get Glycemic Variability',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  }
+};
+
+/**
+ * Variability indices in the output unit, with interpretations
+ */
+export interface GlycemicVariabilityReport {
+  /** Unit of mean, SD, MAGE, CONGA and MODD */
+  unit: GlucoseUnit;
+  /** 'sensor' when CGM readings exist, otherwise all readings */
+  basis: 'sensor' | 'all readings';
+  readingsUsed: number;
+  segments: number;
+  mean: number;
+  standardDeviation: number;
+  mage: {
+    value: number;
+    rising: number | null;
+    falling: number | null;
+    excursions: number;
+  } | null;
+  conga: { hours: number; value: number; pairs: number } | null;
+  modd: { value: number; pairs: number } | null;
+  jIndex: { value: number; category: string };
+  lbgi: { value: number; risk: string };
+  hbgi: { value: number; risk: string };
+  /** Why some indices could not be computed */
+  notes: string[];
+}
+
+export interface GetGlycemicVariabilityResult extends GlycemicVariabilityReport {
+  period: string;
+  timezone: string;
+  completeness: string;
+  summary: string;
+}
+
+/**
+ * Computes the variability indices and renders them in the output unit
+ * Returns undefined when there are no readings
+ */
+export function buildVariabilityReport(
+  allReadings: GlucoseReading[],
+  unit: GlucoseUnit,
+  options: { congaHours?: number; maxGapMinutes?: number } = {}
+): GlycemicVariabilityReport | undefined {
+  const { basis, readings } = preferSensorReadings(allReadings);
+  const indices = computeVariability(readings, options);
+
+  if (!indices) {
+    return undefined;
+  }
+
+  const notes: string[] = [];
+  if (!indices.mage) {
+    notes.push(`MAGE needs continuous readings (gaps under ${indices.maxGapMinutes} min) with excursions larger than 1 SD.`);
+  }
+  if (!indices.conga) {
+    notes.push(`CONGA needs readings ${options.congaHours ?? 1}h apart within continuous data.`);
+  }
+  if (!indices.modd) {
+    notes.push('MODD needs continuous data on consecutive days at the same time of day.');
+  }
+  if (basis !== 'sensor') {
+    notes.push('No CGM readings: indices are based on fingerstick readings and are less reliable.');
+  }
+
+  return {
+    unit,
+    basis,
+    readingsUsed: indices.readingsUsed,
+    segments: indices.segments,
+    mean: fromMgdl(indices.mean, unit),
+    standardDeviation: fromMgdl(indices.standardDeviation, unit),
+    mage: indices.mage && {
+      value: fromMgdl(indices.mage.value, unit),
+      rising: indices.mage.magePlus !== null ? fromMgdl(indices.mage.magePlus, unit) : null,
+      falling: indices.mage.mageMinus !== null ? fromMgdl(indices.mage.mageMinus, unit) : null,
+      excursions: indices.mage.excursions
+    },
+    conga: indices.conga && { ...indices.conga, value: fromMgdl(indices.conga.value, unit) },
+    modd: indices.modd && { ...indices.modd, value: fromMgdl(indices.modd.value, unit) },
+    jIndex: { value: indices.jIndex, category: classifyJIndex(indices.jIndex) },
+    lbgi: { value: indices.lbgi, risk: classifyLbgi(indices.lbgi) },
+    hbgi: { value: indices.hbgi, risk: classifyHbgi(indices.hbgi) },
+    notes
+  };
+}
+
+/**
+ * Executes the get_glycemic_variability tool
+ */
+export async function executeGetGlycemicVariability(
+  args: unknown
+): Promise<GetGlycemicVariabilityResult> {
+  // Validate input
+  const validatedInput = GetGlycemicVariabilityInputSchema.parse(args);
+  const { dateRange, date, startDate, endDate, maxPages, congaHours, maxGapMinutes } = validatedInput;
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+
+  const response = await diabetesMClient.getLogbookEntries(
+    dateRange, undefined, date, startDate, endDate, { maxPages, timeZone }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to retrieve logbook entries'
+    );
+  }
+
+  const report = buildVariabilityReport(
+    extractGlucoseReadings(response.data), unit, { congaHours, maxGapMinutes }
+  );
+
+  if (!report) {
+    throw new Error('No glucose readings in the selected period');
+  }
+
+  const summaryParts = [
+    `J-index ${report.jIndex.value} (${report.jIndex.category})`,
+    `LBGI ${report.lbgi.value} (${report.lbgi.risk} hypoglycemia risk)`,
+    `HBGI ${report.hbgi.value} (${report.hbgi.risk} hyperglycemia risk)`
+  ];
+  if (report.mage) summaryParts.unshift(`MAGE ${report.mage.value} ${unit}`);
+
+  return {
+    period: describePeriod(validatedInput, timeZone),
+    timezone: timeZone,
+    completeness: describeCompleteness(response.pagination),
+    ...report,
+    summary: `${summaryParts.join(', ')}.`
+  };
+}
@@ -15,10 +15,12 @@
  */
 
 import { diabetesMClient } from '../api/client.js';
-import { API_BASE_URL, ENDPOINTS } from '../api/endpoints.js';
-import { authManager } from '../api/auth.js';
 import { auditLogger } from '../security/audit.js';
 import { encryptedCache } from '../cache/encrypted-cache.js';
+import { GetICRatiosInputSchema } from '../types/tools.js';
+import { fromMgdl, formatGlucose } from '../utils/units.js';
+import { MEAL_INDICES } from '../analysis/therapy-schedule.js';
+import type { GlucoseUnit } from '../types/api.js';
 
 /**
  * IC Ratios result structure
@@ -37,7 +39,7 @@ export interface ICRatiosResult {
     /** Default value if no time-specific values */
     default: number | null;
   };
-  /** ISF (Insulin Sensitivity Factor) by time period, in mg/dL */
+  /** ISF (Insulin Sensitivity Factor) by time period, in isfUnit */
   isf: {
     breakfast: number | null;
     lunch: number | null;
@@ -45,6 +47,8 @@ export interface ICRatiosResult {
     night: number | null;
     default: number | null;
   };
+  /** Unit of the ISF values (glucose drop per unit of insulin) */
+  isfUnit: GlucoseUnit;
   /** Full 48-value arrays (every 30 min) if available */
   rawData?: {
     icRatioPerHour: number[];
@@ -58,7 +62,7 @@ export interface ICRatiosResult {
 
 export const getICRatiosToolDefinition = {
   name: 'get_ic_ratios',
-  description: 'Get the configured Insulin-to-Carb (IC) ratios and Insulin Sensitivity Factors (ISF) from your Diabetes:M profile. Returns values organized by meal time (breakfast, lunch, dinner, night). IC ratio indicates how many grams of carbs are covered by 1 unit of insulin. ISF indicates how much 1 unit of insulin lowers blood glucose (in mg/dL).',
+  description: 'Get the configured Insulin-to-Carb (IC) ratios and Insulin Sensitivity Factors (ISF) from your Diabetes:M profile. Returns values organized by meal time (breakfast, lunch, dinner, night). IC ratio indicates how many grams of carbs are covered by 1 unit of insulin. ISF indicates how much 1 unit of insulin lowers blood glucose (in mg/dL or mmol/L, following your profile unit).',
   inputSchema: {
     type: 'object' as const,
     properties: {
@@ -66,6 +70,11 @@ export const getICRatiosToolDefinition = {
         type: 'boolean',
         description: 'Include the full 48-value arrays (every 30 minutes) in the response. Default is false.',
         default: false
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for ISF values (default: the unit configured in your Diabetes:M profile)'
       }
     }
   },
@@ -77,24 +86,6 @@ export const getICRatiosToolDefinition = {
   }
 };
 
-/**
- * Meal-specific indices in the 48-element array
- *
- * Diabetes:M stores IC/ISF values at specific indices for each meal type,
- * NOT as time-based ranges. The actual storage pattern is:
- * - Index 0 = Breakfast settings
- * - Index 22 = Lunch settings
- * - Index 36 = Dinner settings
- *
- * These indices correspond to typical meal times when interpreted as
- * 30-minute intervals, but they represent meal-type configurations.
- */
-const MEAL_INDICES = {
-  breakfast: 0,   // Stored at 00:00 index (represents breakfast config)
-  lunch: 22,      // Stored at 11:00 index (represents lunch config)
-  dinner: 36,     // Stored at 18:00 index (represents dinner config)
-};
-
 /**
  * Gets the value at a specific index from the array
  * Returns null if not available or zero
@@ -118,12 +109,84 @@ function getFirstNonZero(array: number[] | undefined, defaultValue: number | und
   return defaultValue !== undefined && defaultValue > 0 ? defaultValue : null;
 }
 
+/**
+ * Builds the human-readable summary (ISF in the given unit)
+ */
+function buildSummary(
+  icRatios: ICRatiosResult['icRatios'],
+  isf: ICRatiosResult['isf'],
+  unit: GlucoseUnit
+): string {
+  const icParts: string[] = [];
+  if (icRatios.breakfast) icParts.push(`Breakfast: 1u/${icRatios.breakfast}g`);
+  if (icRatios.lunch) icParts.push(`Lunch: 1u/${icRatios.lunch}g`);
+  if (icRatios.dinner) icParts.push(`Dinner: 1u/${icRatios.dinner}g`);
+  if (icRatios.night) icParts.push(`Night: 1u/${icRatios.night}g`);
+
+  const isfParts: string[] = [];
+  if (isf.breakfast) isfParts.push(`Breakfast: ${formatGlucose(isf.breakfast, unit)}`);
+  if (isf.lunch) isfParts.push(`Lunch: ${formatGlucose(isf.lunch, unit)}`);
+  if (isf.dinner) isfParts.push(`Dinner: ${formatGlucose(isf.dinner, unit)}`);
+  if (isf.night) isfParts.push(`Night: ${formatGlucose(isf.night, unit)}`);
+
+  let summary = '';
+  if (icParts.length > 0) {
+    summary += `IC Ratios: ${icParts.join(', ')}. `;
+  } else if (icRatios.default) {
+    summary += `IC Ratio (default): 1u/${icRatios.default}g. `;
+  } else {
+    summary += 'No IC ratios configured. ';
+  }
+
+  if (isfParts.length > 0) {
+    summary += `ISF: ${isfParts.join(', ')}.`;
+  } else if (isf.default) {
+    summary += `ISF (default): ${formatGlucose(isf.default, unit)}.`;
+  } else {
+    summary += 'No ISF configured.';
+  }
+
+  return summary.trim();
+}
+
+/**
+ * Converts a result with ISF in mg/dL (as cached) to the requested unit
+ */
+function renderInUnit(result: ICRatiosResult, unit: GlucoseUnit, includeRawData: boolean): ICRatiosResult {
+  const convert = (value: number | null) => value !== null ? fromMgdl(value, unit) : null;
+
+  const rendered: ICRatiosResult = {
+    icRatios: result.icRatios,
+    isf: {
+      breakfast: convert(result.isf.breakfast),
+      lunch: convert(result.isf.lunch),
+      dinner: convert(result.isf.dinner),
+      night: convert(result.isf.night),
+      default: convert(result.isf.default)
+    },
+    isfUnit: unit,
+    retrievedAt: result.retrievedAt,
+    summary: buildSummary(result.icRatios, result.isf, unit)
+  };
+
+  if (includeRawData && result.rawData) {
+    rendered.rawData = {
+      icRatioPerHour: result.rawData.icRatioPerHour,
+      isfPerHour: result.rawData.isfPerHour.map(v => v > 0 ? fromMgdl(v, unit) : 0)
+    };
+  }
+
+  return rendered;
+}
+
 /**
  * Executes the get_ic_ratios tool
  */
 export async function executeGetICRatios(args: unknown): Promise<ICRatiosResult> {
   const timer = auditLogger.startTimer();
-  const includeRawData = (args as { includeRawData?: boolean })?.includeRawData ?? false;
+  const validatedInput = GetICRatiosInputSchema.parse(args ?? {});
+  const includeRawData = validatedInput.includeRawData ?? false;
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
 
   const cacheKey = 'ic_ratios';
 
@@ -131,54 +194,24 @@ export async function executeGetICRatios(args: unknown): Promise<ICRatiosResult>
   const cached = await encryptedCache.get<ICRatiosResult>(cacheKey);
   if (cached) {
     auditLogger.logOperation('get_ic_ratios', 'get_ic_ratios', true, timer(), cacheKey);
-    // Adjust raw data based on request
-    if (!includeRawData && cached.rawData) {
-      const { ...result } = cached;
-      delete result.rawData;
-      return result;
-    }
-    return cached;
-  }
-
-  // Raw API response format
-  interface RawProfileResponse {
-    settings?: {
-      insulin_sensitivity_default?: number;
-      insulin_sensitivity_per_hour?: number[];
-      carbohydrates_ratio_default?: number;
-      carbohydrates_ratio_per_hour?: number[];
-    };
+    // Convert ISF and adjust raw data based on request
+    return renderInUnit(cached, unit, includeRawData);
   }
 
-  // Ensure authenticated
-  await authManager.ensureAuthenticated();
+  // Fetch the schedules (ISF already converted to mg/dL)
+  const response = await diabetesMClient.getTherapySettings();
 
-  // Fetch profile
-  const response = await fetch(`${API_BASE_URL}${ENDPOINTS.PERSONAL_METRICS}`, {
-    method: 'GET',
-    headers: authManager.getAuthHeaders()
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch profile: ${response.status}`);
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to fetch profile'
+    );
   }
 
-  const data = await response.json() as RawProfileResponse;
-  const settings = data.settings || {};
-
-  // Extract IC ratios
-  const icPerHour = settings.carbohydrates_ratio_per_hour;
-  const icDefault = settings.carbohydrates_ratio_default;
-
-  // Extract ISF (convert from mmol/L to mg/dL)
-  const isfPerHourRaw = settings.insulin_sensitivity_per_hour;
-  const isfDefaultRaw = settings.insulin_sensitivity_default;
-
-  // Convert ISF array from mmol/L to mg/dL
-  const isfPerHour = isfPerHourRaw?.map(v => v > 0 ? Math.round(v * 18.0182) : 0);
-  const isfDefault = isfDefaultRaw !== undefined && isfDefaultRaw > 0
-    ? Math.round(isfDefaultRaw * 18.0182)
-    : undefined;
+  const settings = response.data;
+  const icPerHour = settings.icRatioPerSlot.length > 0 ? settings.icRatioPerSlot : undefined;
+  const icDefault = settings.icRatioDefault;
+  const isfPerHour = settings.isfPerSlot.length > 0 ? settings.isfPerSlot : undefined;
+  const isfDefault = settings.isfDefault;
 
   // Get values for each meal type using specific indices
   const icRatios = {
@@ -197,55 +230,23 @@ export async function executeGetICRatios(args: unknown): Promise<ICRatiosResult>
     default: getFirstNonZero(isfPerHour, isfDefault)
   };
 
-  // Build summary
-  const icParts: string[] = [];
-  if (icRatios.breakfast) icParts.push(`Breakfast: 1u/${icRatios.breakfast}g`);
-  if (icRatios.lunch) icParts.push(`Lunch: 1u/${icRatios.lunch}g`);
-  if (icRatios.dinner) icParts.push(`Dinner: 1u/${icRatios.dinner}g`);
-  if (icRatios.night) icParts.push(`Night: 1u/${icRatios.night}g`);
-
-  const isfParts: string[] = [];
-  if (isf.breakfast) isfParts.push(`Breakfast: ${isf.breakfast} mg/dL`);
-  if (isf.lunch) isfParts.push(`Lunch: ${isf.lunch} mg/dL`);
-  if (isf.dinner) isfParts.push(`Dinner: ${isf.dinner} mg/dL`);
-  if (isf.night) isfParts.push(`Night: ${isf.night} mg/dL`);
-
-  let summary = '';
-  if (icParts.length > 0) {
-    summary += `IC Ratios: ${icParts.join(', ')}. `;
-  } else if (icRatios.default) {
-    summary += `IC Ratio (default): 1u/${icRatios.default}g. `;
-  } else {
-    summary += 'No IC ratios configured. ';
-  }
-
-  if (isfParts.length > 0) {
-    summary += `ISF: ${isfParts.join(', ')}.`;
-  } else if (isf.default) {
-    summary += `ISF (default): ${isf.default} mg/dL.`;
-  } else {
-    summary += 'No ISF configured.';
-  }
-
+  // Cached values keep ISF in mg/dL and always include the raw arrays
   const result: ICRatiosResult = {
     icRatios,
     isf,
-    retrievedAt: new Date().toISOString(),
-    summary: summary.trim()
-  };
-
-  // Add raw data if requested
-  if (includeRawData && (icPerHour || isfPerHour)) {
-    result.rawData = {
+    isfUnit: 'mg/dL',
+    rawData: {
       icRatioPerHour: icPerHour || [],
       isfPerHour: isfPerHour || []
-    };
-  }
+    },
+    retrievedAt: new Date().toISOString(),
+    summary: buildSummary(icRatios, isf, 'mg/dL')
+  };
 
   // Cache for 5 minutes
-  await encryptedCache.set(cacheKey, { ...result, rawData: { icRatioPerHour: icPerHour || [], isfPerHour: isfPerHour || [] } }, 5 * 60 * 1000, true);
+  await encryptedCache.set(cacheKey, result, 5 * 60 * 1000, true);
 
   auditLogger.logOperation('get_ic_ratios', 'get_ic_ratios', true, timer(), cacheKey);
 
-  return result;
+  return renderInUnit(result, unit, includeRawData && (icPerHour !== undefined || isfPerHour !== undefined));
 }
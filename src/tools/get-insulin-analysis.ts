@@ -14,7 +14,8 @@
 import { z } from 'zod';
 import { diabetesMClient } from '../api/client.js';
 import { GetInsulinAnalysisInputSchema } from '../types/tools.js';
-import type { InsulinAnalysis, InsulinTotals } from '../types/api.js';
+import { fromMgdl, formatGlucose } from '../utils/units.js';
+import type { GlucoseUnit, InsulinAnalysis, InsulinTotals } from '../types/api.js';
 
 export const getInsulinAnalysisToolDefinition = {
   name: 'get_insulin_analysis',
@@ -26,6 +27,11 @@ export const getInsulinAnalysisToolDefinition = {
         type: 'string',
         enum: ['today', '7', '14', '30', '90'],
         description: 'Period in days for insulin analysis'
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for the output (default: the unit configured in your Diabetes:M profile)'
       }
     },
     required: ['period']
@@ -43,7 +49,9 @@ export interface GetInsulinAnalysisResult {
   carbTotals: number;
   averageDailyCarbs: number;
   insulinToCarbRatio: number;
+  /** Glucose drop per unit of insulin, in correctionFactorUnit */
   correctionFactor: number;
+  correctionFactorUnit: string;
   averageDailyDose: number;
   bolusPercentage: number;
   basalPercentage: number;
@@ -55,7 +63,7 @@ export interface GetInsulinAnalysisResult {
 /**
  * Generates analysis and recommendations based on insulin data
  */
-function generateAnalysisAndRecommendations(data: InsulinAnalysis): {
+function generateAnalysisAndRecommendations(data: InsulinAnalysis, unit: GlucoseUnit): {
   analysis: string;
   recommendations: string[];
 } {
@@ -94,7 +102,7 @@ function generateAnalysisAndRecommendations(data: InsulinAnalysis): {
 
   // Correction factor
   if (data.correctionFactor > 0) {
-    analysis.push(`Correction factor: 1 unit lowers glucose by approximately ${data.correctionFactor.toFixed(0)} mg/dL.`);
+    analysis.push(`Correction factor: 1 unit lowers glucose by approximately ${formatGlucose(data.correctionFactor, unit)}.`);
   }
 
   // Carb intake
@@ -123,6 +131,7 @@ export async function executeGetInsulinAnalysis(
   // Validate input
   const validatedInput = GetInsulinAnalysisInputSchema.parse(args);
   const { period } = validatedInput;
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
 
   // Make API call
   const response = await diabetesMClient.getInsulinAnalysis(period);
@@ -140,14 +149,15 @@ export async function executeGetInsulinAnalysis(
   const averageDailyCarbs = data.carbTotals / days;
 
   // Generate analysis
-  const { analysis, recommendations } = generateAnalysisAndRecommendations(data);
+  const { analysis, recommendations } = generateAnalysisAndRecommendations(data, unit);
 
   return {
     dailyTotals: data.dailyTotals,
     carbTotals: data.carbTotals,
     averageDailyCarbs,
     insulinToCarbRatio: data.insulinToCarbRatio,
-    correctionFactor: data.correctionFactor,
+    correctionFactor: fromMgdl(data.correctionFactor, unit),
+    correctionFactorUnit: `${unit} per unit`,
     averageDailyDose: data.averageDailyDose,
     bolusPercentage: data.bolusPercentage,
     basalPercentage: data.basalPercentage,
@@ -2,13 +2,17 @@
  * Tool: get_iob (Insulin on Board)
  *
  * Calculates the active insulin remaining in the body based on recent
- * insulin doses and their decay over time.
+ * insulin doses and their decay over time, now or at a given time, or as
+ * a timeline of insulin on board and insulin activity over a range.
  *
- * Uses an exponential decay model similar to OpenAPS/Loop algorithms.
  * The calculation considers:
  * - All insulin doses (bolus, correction, basal) from the logbook
  * - Time elapsed since each dose
- * - Duration of Insulin Action (DIA) - configurable, default 4 hours
+ * - The insulin action curve: Walsh, bilinear, oref0 exponential or a
+ *   product preset for bolus insulin, a flat profile for basal insulin
+ * - Duration of Insulin Action (DIA) and insulin products - from the
+ *   arguments, else the insulin type preset, else the defaults (4 hours, Walsh)
+ *   (the profile values are not read: their keys are not confirmed yet)
  *
  * Security:
  * - Input validation with Zod
@@ -18,26 +22,54 @@
 
 import { diabetesMClient } from '../api/client.js';
 import { GetIOBInputSchema } from '../types/tools.js';
-import type { LogbookEntry } from '../types/api.js';
+import { formatDateKey, formatTime, parseDateTimeInput, todayKey } from '../utils/timezone.js';
+import {
+  DEFAULT_BASAL_CURVE,
+  describeInsulinCurve,
+  insulinOnBoardAt,
+  insulinRemaining,
+  resolveInsulinCurveWithSources,
+  type InsulinCurve,
+  type InsulinSettingSource
+} from '../analysis/insulin-activity.js';
 
 /**
  * IOB calculation result
  */
 export interface IOBResult {
-  /** Current IOB value in units */
+  /** IOB value in units at the calculation time */
   iob: number;
   /** Formatted IOB string (e.g., "9.36u") */
   iobFormatted: string;
   /** Duration of Insulin Action used for calculation (hours) */
   dia: number;
-  /** Timestamp of calculation */
+  /** Curve used for bolus and correction insulin */
+  curve: InsulinCurve;
+  /** Curve used for basal insulin (when included) */
+  basalCurve: InsulinCurve | null;
+  /** Where the DIA and insulin types came from ('preset': the insulin type's preset DIA) */
+  sources: {
+    dia: InsulinSettingSource;
+    insulinType: InsulinSettingSource;
+    basalInsulinType: InsulinSettingSource | null;
+  };
+  /** Time IOB was calculated for: at, the end of the timeline, or now */
   calculatedAt: string;
+  /** IANA timezone used for dose times */
+  timezone: string;
   /** Breakdown of IOB by dose type */
   breakdown: {
     fromBolus: number;
     fromCorrection: number;
     fromBasal: number;
   };
+  /** Insulin acting at the calculation time, in units per hour */
+  activity: {
+    total: number;
+    fromBolus: number;
+    fromCorrection: number;
+    fromBasal: number;
+  };
   /** Recent doses that contributed to IOB */
   activeDoses: Array<{
     time: string;
@@ -46,27 +78,106 @@ export interface IOBResult {
     remaining: number;
     percentRemaining: number;
   }>;
+  /** IOB and activity over the requested range (only with from/to) */
+  timeline?: {
+    stepMinutes: number;
+    points: IOBTimelinePoint[];
+    /** Highest IOB in the range and when it occurred */
+    peak: { time: string; iob: number };
+  };
   /** Summary message */
   summary: string;
 }
 
+/**
+ * One point of an IOB timeline
+ */
+export interface IOBTimelinePoint {
+  /** Local time, "YYYY-MM-DD HH:MM" */
+  time: string;
+  iob: number;
+  bolus: number;
+  correction: number;
+  basal: number;
+  /** Insulin acting, in units per hour */
+  activity: number;
+  activityBolus: number;
+  activityCorrection: number;
+  activityBasal: number;
+}
+
+/** Most points a timeline may have */
+const MAX_TIMELINE_POINTS = 500;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Insulin curve properties shared by the tools that model insulin on board
+ */
+export const INSULIN_CURVE_PROPERTIES = {
+  model: {
+    type: 'string',
+    enum: ['walsh', 'bilinear', 'exponential', 'flat'],
+    description: 'Insulin action curve: walsh (default), bilinear (straight decay), exponential (oref0, shaped by peak time and DIA) or flat (long-acting basal)'
+  },
+  insulinType: {
+    type: 'string',
+    enum: ['fiasp', 'lyumjev', 'novorapid', 'humalog', 'glargine', 'degludec'],
+    description: 'Insulin product: uses its preset curve, DIA and peak (Fiasp/Lyumjev and Novorapid/Humalog use the exponential model). Explicit model, dia and peakMinutes override the preset.'
+  },
+  peakMinutes: {
+    type: 'number',
+    description: 'Peak action time in minutes for the exponential model (default: insulinType preset, else 75)',
+    minimum: 30,
+    maximum: 180
+  }
+};
+
 export const getIOBToolDefinition = {
   name: 'get_iob',
-  description: 'Calculate the current Insulin on Board (IOB) - the amount of active insulin still working in the body. Uses recent insulin doses from the logbook and calculates decay based on Duration of Insulin Action (DIA). Useful for dosing decisions and understanding current insulin activity.',
+  description: 'Calculate Insulin on Board (IOB) - the amount of active insulin still working in the body - now, at a past time (at), or as a timeline with insulin activity split into bolus/correction/basal (from, to, stepMinutes). Uses insulin doses from the logbook and calculates decay with a selectable insulin action curve (Walsh, bilinear, oref0 exponential or a preset per insulin product) and Duration of Insulin Action (DIA). Useful for dosing decisions and for understanding how much insulin was acting, e.g. at the time of a low.',
   inputSchema: {
     type: 'object' as const,
     properties: {
       dia: {
         type: 'number',
-        description: 'Duration of Insulin Action in hours (how long insulin remains active). Default is 4 hours. Typical range: 3-5 hours depending on insulin type.',
+        description: 'Duration of Insulin Action in hours (how long insulin remains active). Default is the insulinType preset, else 4 hours. Typical range: 3-5 hours depending on insulin type.',
         minimum: 2,
-        maximum: 8,
-        default: 4
+        maximum: 8
       },
+      ...INSULIN_CURVE_PROPERTIES,
       includeBasal: {
         type: 'boolean',
         description: 'Whether to include basal insulin in IOB calculation. Default is false (only bolus/correction insulin).',
         default: false
+      },
+      basalInsulinType: {
+        type: 'string',
+        enum: ['glargine', 'degludec'],
+        description: 'Long-acting basal insulin, modelled with a flat profile over 24h (glargine) or 42h (degludec). Default: a 24h flat profile.'
+      },
+      at: {
+        type: 'string',
+        description: 'Compute IOB at this date-time instead of now, e.g. "2025-12-25T15:40" (local time unless an offset is given)'
+      },
+      from: {
+        type: 'string',
+        description: 'Start of an IOB timeline, e.g. "2025-12-25T12:00" (use with to)'
+      },
+      to: {
+        type: 'string',
+        description: 'End of an IOB timeline, e.g. "2025-12-25T18:00" (use with from)'
+      },
+      stepMinutes: {
+        type: 'number',
+        description: 'Step between timeline points in minutes (default: 15)',
+        minimum: 5,
+        maximum: 240,
+        default: 15
+      },
+      timezone: {
+        type: 'string',
+        description: 'IANA timezone for dose times and day lookups, e.g. "Europe/Rome" (default: account setting, else system timezone)'
       }
     }
   },
@@ -78,230 +189,174 @@ export const getIOBToolDefinition = {
   }
 };
 
-/**
- * Calculates the insulin activity curve using the Walsh model.
- * This model is widely used in insulin pump software and closely matches
- * the pharmacokinetic profile of rapid-acting insulin analogs.
- *
- * Reference: Walsh et al. "Guidelines for Optimal Bolus Calculator Settings in Adults"
- *
- * @param minutesAgo - Minutes since insulin was administered
- * @param dia - Duration of Insulin Action in hours
- * @returns Fraction of insulin still active (0-1)
- */
-function calculateInsulinActivity(minutesAgo: number, dia: number): number {
-  const diaMinutes = dia * 60;
-
-  // No insulin remains after DIA
-  if (minutesAgo >= diaMinutes) {
-    return 0;
-  }
-
-  // Insulin hasn't started working yet
-  if (minutesAgo < 0) {
-    return 1;
-  }
-
-  // Walsh model - polynomial approximation of insulin activity
-  // This provides a smoother, more realistic curve than simple exponential
-  const t = minutesAgo / diaMinutes; // Normalized time (0-1)
-
-  // Walsh curve: IOB = 1 - (t^2 * (3 - 2*t)) adjusted for better fit
-  // This creates a sigmoid-like decay that matches clinical data
-  if (t <= 0.5) {
-    // First half: slow initial decay
-    return 1 - (2 * t * t);
-  } else {
-    // Second half: faster decay
-    const t2 = 1 - t;
-    return 2 * t2 * t2;
-  }
-}
-
-/**
- * Alternative: Bilinear model (simpler, used by some pumps)
- * More conservative estimate
- */
-function calculateInsulinActivityBilinear(minutesAgo: number, dia: number): number {
-  const diaMinutes = dia * 60;
-
-  if (minutesAgo >= diaMinutes || minutesAgo < 0) {
-    return minutesAgo < 0 ? 1 : 0;
-  }
-
-  // Simple linear decay
-  return 1 - (minutesAgo / diaMinutes);
-}
-
-/**
- * Formats time as "HH:MM"
- */
-function formatTime(date: Date): string {
-  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
-}
-
 /**
  * Executes the get_iob tool
  */
 export async function executeGetIOB(args: unknown): Promise<IOBResult> {
   // Validate input
-  const validatedInput = GetIOBInputSchema.parse(args);
-  const dia = validatedInput.dia ?? 4;
-  const includeBasal = validatedInput.includeBasal ?? false;
-
-  const diaMs = dia * 60 * 60 * 1000; // DIA in milliseconds
-  const now = Date.now();
+  const validatedInput = GetIOBInputSchema.parse(args ?? {});
 
-  // Get logbook entries for the last DIA + 1 hour (to be safe)
-  const lookbackMs = diaMs + (60 * 60 * 1000);
-  const fromDate = new Date(now - lookbackMs);
-  const toDate = new Date(now);
-
-  // Format dates for API call
-  const fromDateStr = fromDate.toISOString().split('T')[0];
-  const toDateStr = toDate.toISOString().split('T')[0];
-
-  // Use a Map to deduplicate entries by ID
-  const entriesMap = new Map<string, LogbookEntry>();
-
-  // Fetch entries for the from date
-  const response = await diabetesMClient.getLogbookEntries(undefined, undefined, fromDateStr);
-  if (response.success && response.data) {
-    for (const entry of response.data) {
-      entriesMap.set(entry.id, entry);
+  const bolus = resolveInsulinCurveWithSources(validatedInput);
+  const { curve } = bolus;
+  const dia = curve.dia;
+  const includeBasal = validatedInput.includeBasal ?? false;
+  const basal = includeBasal
+    ? resolveInsulinCurveWithSources({ insulinType: validatedInput.basalInsulinType }, DEFAULT_BASAL_CURVE)
+    : null;
+  const basalCurve = basal?.curve ?? null;
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+  const stepMinutes = validatedInput.stepMinutes ?? 15;
+
+  // Timeline range, and the time of the single IOB value
+  const range = validatedInput.from && validatedInput.to
+    ? { start: parseDateTimeInput(validatedInput.from, timeZone), end: parseDateTimeInput(validatedInput.to, timeZone) }
+    : null;
+  if (range) {
+    if (range.end <= range.start) {
+      throw new Error('to must be after from');
     }
-  }
-
-  // If we need data from today too (when fromDate is yesterday)
-  if (fromDateStr !== toDateStr) {
-    const todayResponse = await diabetesMClient.getLogbookEntries(undefined, undefined, toDateStr);
-    if (todayResponse.success && todayResponse.data) {
-      for (const entry of todayResponse.data) {
-        entriesMap.set(entry.id, entry);
-      }
+    const points = Math.floor((range.end - range.start) / (stepMinutes * 60 * 1000)) + 1;
+    if (points > MAX_TIMELINE_POINTS) {
+      throw new Error(
+        `Timeline would have ${points} points (max ${MAX_TIMELINE_POINTS}): shorten the range or increase stepMinutes`
+      );
     }
   }
+  const time = validatedInput.at ? parseDateTimeInput(validatedInput.at, timeZone) : range?.end ?? Date.now();
+
+  // Get logbook entries from the longest DIA in use + 1 hour (to be safe)
+  // before the earliest time until the latest one
+  const lookbackMs = (Math.max(dia, basalCurve?.dia ?? 0) + 1) * 60 * 60 * 1000;
+  const today = todayKey(timeZone);
+  const fromDateStr = formatDateKey(new Date((range?.start ?? time) - lookbackMs), timeZone);
+  const lastDateStr = formatDateKey(new Date(time), timeZone);
+  const toDateStr = lastDateStr > today ? today : lastDateStr;
+
+  const response = await diabetesMClient.getLogbookEntries(
+    undefined, undefined, undefined, fromDateStr, toDateStr < fromDateStr ? fromDateStr : toDateStr, { timeZone }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to retrieve logbook entries'
+    );
+  }
 
-  // Convert map to array
-  const entries = Array.from(entriesMap.values());
+  // Most recent first so active doses come out in that order
+  // (sorting the HH:MM strings would misplace doses from before midnight)
+  const entries = [...response.data]
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
-  // Calculate IOB from each dose
-  let totalIOB = 0;
-  let bolusIOB = 0;
-  let correctionIOB = 0;
-  let basalIOB = 0;
+  // IOB and activity at the calculation time
+  const onBoard = insulinOnBoardAt(entries, time, curve, basalCurve);
+  const totalIOB = round2(onBoard.bolus + onBoard.correction + onBoard.basal);
 
+  // Doses still contributing at the calculation time
   const activeDoses: IOBResult['activeDoses'] = [];
-
-  for (const entry of entries) {
-    const entryTime = new Date(entry.timestamp).getTime();
-    const minutesAgo = (now - entryTime) / (1000 * 60);
-
-    // Skip if too old (beyond DIA)
-    if (minutesAgo > dia * 60) {
-      continue;
+  const addDose = (entry: (typeof entries)[number], type: 'bolus' | 'correction' | 'basal', dose: number, fraction: number) => {
+    const remaining = dose * fraction;
+    if (remaining > 0.01) {
+      activeDoses.push({
+        time: formatTime(new Date(entry.timestamp), timeZone),
+        type,
+        dose,
+        remaining: round2(remaining),
+        percentRemaining: Math.round(fraction * 100)
+      });
     }
+  };
+  for (const entry of entries) {
+    const minutesAgo = (time - new Date(entry.timestamp).getTime()) / (1000 * 60);
 
-    // Skip future entries
+    // Skip entries after the calculation time
     if (minutesAgo < 0) {
       continue;
     }
 
-    // Calculate remaining insulin for each type
-    // Use exponential model for bolus (more accurate) and bilinear for others
-    const activityExp = calculateInsulinActivity(minutesAgo, dia);
-    const activityLinear = calculateInsulinActivityBilinear(minutesAgo, dia);
-
-    // Process bolus insulin (use exponential model for better accuracy)
     if (entry.insulinBolus && entry.insulinBolus > 0) {
-      const remaining = entry.insulinBolus * activityExp;
-      bolusIOB += remaining;
-      totalIOB += remaining;
-
-      if (remaining > 0.01) {
-        activeDoses.push({
-          time: formatTime(new Date(entry.timestamp)),
-          type: 'bolus',
-          dose: entry.insulinBolus,
-          remaining: Math.round(remaining * 100) / 100,
-          percentRemaining: Math.round(activityExp * 100)
-        });
-      }
+      addDose(entry, 'bolus', entry.insulinBolus, insulinRemaining(curve, minutesAgo));
     }
-
-    // Process correction insulin (use exponential model)
     if (entry.insulinCorrection && entry.insulinCorrection > 0) {
-      const remaining = entry.insulinCorrection * activityExp;
-      correctionIOB += remaining;
-      totalIOB += remaining;
-
-      if (remaining > 0.01) {
-        activeDoses.push({
-          time: formatTime(new Date(entry.timestamp)),
-          type: 'correction',
-          dose: entry.insulinCorrection,
-          remaining: Math.round(remaining * 100) / 100,
-          percentRemaining: Math.round(activityExp * 100)
-        });
-      }
+      addDose(entry, 'correction', entry.insulinCorrection, insulinRemaining(curve, minutesAgo));
     }
-
-    // Process basal insulin (only if requested, use linear model for long-acting)
-    if (includeBasal && entry.insulinBasal && entry.insulinBasal > 0) {
-      const remaining = entry.insulinBasal * activityLinear;
-      basalIOB += remaining;
-      totalIOB += remaining;
-
-      if (remaining > 0.01) {
-        activeDoses.push({
-          time: formatTime(new Date(entry.timestamp)),
-          type: 'basal',
-          dose: entry.insulinBasal,
-          remaining: Math.round(remaining * 100) / 100,
-          percentRemaining: Math.round(activityLinear * 100)
-        });
-      }
+    // Basal insulin only if requested, flat profile for long-acting
+    if (basalCurve && entry.insulinBasal && entry.insulinBasal > 0) {
+      addDose(entry, 'basal', entry.insulinBasal, insulinRemaining(basalCurve, minutesAgo));
     }
   }
 
-  // Sort active doses by time (most recent first)
-  activeDoses.sort((a, b) => {
-    // Parse times and compare
-    const [aH, aM] = a.time.split(':').map(Number);
-    const [bH, bM] = b.time.split(':').map(Number);
-    return (bH! * 60 + bM!) - (aH! * 60 + aM!);
-  });
-
-  // Round values
-  totalIOB = Math.round(totalIOB * 100) / 100;
-  bolusIOB = Math.round(bolusIOB * 100) / 100;
-  correctionIOB = Math.round(correctionIOB * 100) / 100;
-  basalIOB = Math.round(basalIOB * 100) / 100;
+  // Timeline over the requested range
+  let timeline: IOBResult['timeline'];
+  if (range) {
+    const points: IOBTimelinePoint[] = [];
+    for (let at = range.start; at <= range.end; at += stepMinutes * 60 * 1000) {
+      const point = insulinOnBoardAt(entries, at, curve, basalCurve);
+      const date = new Date(at);
+      points.push({
+        time: `${formatDateKey(date, timeZone)} ${formatTime(date, timeZone)}`,
+        iob: round2(point.bolus + point.correction + point.basal),
+        bolus: round2(point.bolus),
+        correction: round2(point.correction),
+        basal: round2(point.basal),
+        activity: round2(point.activity.bolus + point.activity.correction + point.activity.basal),
+        activityBolus: round2(point.activity.bolus),
+        activityCorrection: round2(point.activity.correction),
+        activityBasal: round2(point.activity.basal)
+      });
+    }
+    const peak = points.reduce((best, point) => point.iob > best.iob ? point : best, points[0]!);
+    timeline = { stepMinutes, points, peak: { time: peak.time, iob: peak.iob } };
+  }
 
   // Generate summary
-  let summary = `Current IOB: ${totalIOB}u`;
+  const isNow = !validatedInput.at && !range;
+  const timeDate = new Date(time);
+  let summary = isNow
+    ? `Current IOB: ${totalIOB}u`
+    : `IOB at ${formatDateKey(timeDate, timeZone)} ${formatTime(timeDate, timeZone)}: ${totalIOB}u`;
   if (activeDoses.length > 0) {
     summary += ` from ${activeDoses.length} active dose(s)`;
   } else {
     summary += ' (no recent insulin doses)';
   }
-  summary += `. DIA: ${dia}h.`;
+  summary += `. Curve: ${describeInsulinCurve(curve)} (DIA from ${bolus.sources.dia === 'preset' ? 'insulin type preset' : bolus.sources.dia}).`;
 
-  if (!includeBasal && basalIOB === 0) {
+  if (basalCurve) {
+    summary += ` Basal curve: ${describeInsulinCurve(basalCurve)}.`;
+  } else {
     summary += ' Basal insulin not included.';
   }
+  if (timeline) {
+    summary += ` Timeline: ${timeline.points.length} points every ${stepMinutes} min, peak ${timeline.peak.iob}u at ${timeline.peak.time}.`;
+  }
+  if (time > Date.now()) {
+    summary += ' Times in the future assume no further doses.';
+  }
 
   return {
     iob: totalIOB,
     iobFormatted: `${totalIOB}u`,
     dia,
-    calculatedAt: new Date().toISOString(),
+    curve,
+    basalCurve,
+    sources: {
+      ...bolus.sources,
+      basalInsulinType: basal?.sources.insulinType ?? null
+    },
+    calculatedAt: timeDate.toISOString(),
+    timezone: timeZone,
     breakdown: {
-      fromBolus: bolusIOB,
-      fromCorrection: correctionIOB,
-      fromBasal: basalIOB
+      fromBolus: round2(onBoard.bolus),
+      fromCorrection: round2(onBoard.correction),
+      fromBasal: round2(onBoard.basal)
+    },
+    activity: {
+      total: round2(onBoard.activity.bolus + onBoard.activity.correction + onBoard.activity.basal),
+      fromBolus: round2(onBoard.activity.bolus),
+      fromCorrection: round2(onBoard.activity.correction),
+      fromBasal: round2(onBoard.activity.basal)
     },
     activeDoses,
+    ...(timeline ? { timeline } : {}),
     summary
   };
 }
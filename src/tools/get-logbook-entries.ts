@@ -2,7 +2,7 @@
  * Tool: get_logbook_entries
  *
  * Retrieves logbook entries from Diabetes:M including glucose readings,
- * insulin doses, carbs, and notes for a specified date range.
+ * insulin doses, carbs, foods eaten and notes for a specified date range.
  *
  * Output is simplified and optimized for LLM analysis:
  * - Entries grouped by day with daily summaries
@@ -17,35 +17,68 @@
  */
 
 import { diabetesMClient } from '../api/client.js';
-import { GetLogbookEntriesInputSchema } from '../types/tools.js';
-import type { LogbookEntry, SimplifiedLogbookEntry, DailySummary, SimplifiedLogbookResult } from '../types/api.js';
+import { GetLogbookEntriesInputSchema, type LogbookDateSelection } from '../types/tools.js';
+import { dateRangeToParams } from '../api/endpoints.js';
+import { formatGlucose, formatGlucoseRange } from '../utils/units.js';
+import { formatDateKey, formatTime, weekdayOf } from '../utils/timezone.js';
+import type {
+  GlucoseUnit,
+  LogbookEntry,
+  LoggedFood,
+  LogbookPagination,
+  SimplifiedLogbookEntry,
+  DailySummary,
+  SimplifiedLogbookResult
+} from '../types/api.js';
+
+/**
+ * JSON schema of the date options shared by tools that read logbook data
+ */
+export const LOGBOOK_DATE_PROPERTIES = {
+  dateRange: {
+    type: 'string',
+    enum: ['today', '7days', '30days', '90days'],
+    description: 'Predefined time range (use this OR date OR startDate+endDate)'
+  },
+  date: {
+    type: 'string',
+    description: 'Specific date in YYYY-MM-DD format (e.g., 2025-12-25). Use this OR dateRange OR startDate+endDate.'
+  },
+  startDate: {
+    type: 'string',
+    description: 'Start date in YYYY-MM-DD format for custom date range (must be used together with endDate)'
+  },
+  endDate: {
+    type: 'string',
+    description: 'End date in YYYY-MM-DD format for custom date range (must be used together with startDate)'
+  },
+  maxPages: {
+    type: 'integer',
+    description: 'Maximum number of API pages to follow for long ranges (default: 20). Raise it if the result is reported as truncated.',
+    minimum: 1,
+    maximum: 100
+  },
+  timezone: {
+    type: 'string',
+    description: 'IANA timezone for day boundaries and times, e.g. "Europe/Rome" (default: account setting, else system timezone)'
+  }
+};
 
 export const getLogbookEntriesToolDefinition = {
   name: 'get_logbook_entries',
-  description: 'Retrieve logbook entries from Diabetes:M including glucose readings, insulin doses, carbs, and notes. You can specify either a predefined date range OR a specific date OR a custom date range with startDate and endDate. Returns data grouped by day with summaries optimized for analysis.',
+  description: 'Retrieve logbook entries from Diabetes:M including glucose readings, insulin doses, carbs, foods eaten, and notes. You can specify either a predefined date range OR a specific date OR a custom date range with startDate and endDate. Returns data grouped by day with summaries optimized for analysis.',
   inputSchema: {
     type: 'object' as const,
     properties: {
-      dateRange: {
-        type: 'string',
-        enum: ['today', '7days', '30days', '90days'],
-        description: 'Predefined time range for logbook entries (use this OR date OR startDate+endDate)'
-      },
-      date: {
-        type: 'string',
-        description: 'Specific date in YYYY-MM-DD format (e.g., 2025-12-25). Use this OR dateRange OR startDate+endDate.'
-      },
-      startDate: {
-        type: 'string',
-        description: 'Start date in YYYY-MM-DD format for custom date range (must be used together with endDate)'
-      },
-      endDate: {
-        type: 'string',
-        description: 'End date in YYYY-MM-DD format for custom date range (must be used together with startDate)'
-      },
+      ...LOGBOOK_DATE_PROPERTIES,
       category: {
         type: 'string',
         description: 'Optional category filter (e.g., breakfast, lunch, dinner)'
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for the output (default: the unit configured in your Diabetes:M profile)'
       }
     }
   },
@@ -69,44 +102,54 @@ const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 
 /**
- * Formats a date as "Jan 15" or "Jan 15, 2024"
+ * Formats a YYYY-MM-DD date key as "Jan 15" or "Jan 15, 2024"
  */
-function formatDate(date: Date, includeYear = false): string {
-  const month = MONTHS[date.getMonth()];
-  const day = date.getDate();
-  return includeYear ? `${month} ${day}, ${date.getFullYear()}` : `${month} ${day}`;
+function formatDate(dateKey: string, includeYear = false): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const label = `${MONTHS[month! - 1]} ${day}`;
+  return includeYear ? `${label}, ${year}` : label;
 }
 
 /**
- * Formats a date as "2024-01-15 (Mon)"
+ * Formats a YYYY-MM-DD date key as "2024-01-15 (Mon)"
  */
-function formatDateWithDay(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  const dayName = DAYS[date.getDay()];
-  return `${year}-${month}-${day} (${dayName})`;
+function formatDateWithDay(dateKey: string): string {
+  return `${dateKey} (${DAYS[weekdayOf(dateKey)]})`;
 }
 
+/** Serving names written directly after the quantity ("120g" rather than "1 medium") */
+const UNIT_SERVINGS = new Set(['g', 'gr', 'kg', 'ml', 'l', 'oz', 'lb']);
+
 /**
- * Formats time as "14:30"
+ * Formats logged foods as "pasta 120g, apple 1 medium"
  */
-function formatTime(date: Date): string {
-  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+export function formatFoods(foods: LoggedFood[]): string {
+  return foods.map(food => {
+    if (food.quantity === undefined) {
+      return food.name;
+    }
+    const quantity = Math.round(food.quantity * 100) / 100;
+    if (!food.serving) {
+      return `${food.name} ${quantity}`;
+    }
+    return UNIT_SERVINGS.has(food.serving.toLowerCase())
+      ? `${food.name} ${quantity}${food.serving}`
+      : `${food.name} ${quantity} ${food.serving}`;
+  }).join(', ');
 }
 
 /**
  * Simplifies a single logbook entry for LLM consumption
  */
-function simplifyEntry(entry: LogbookEntry): SimplifiedLogbookEntry {
+export function simplifyEntry(entry: LogbookEntry, unit: GlucoseUnit, timeZone: string): SimplifiedLogbookEntry {
   const date = new Date(entry.timestamp);
   const simplified: SimplifiedLogbookEntry = {
-    time: formatTime(date)
+    time: formatTime(date, timeZone)
   };
 
-  // Format glucose (always in mg/dL)
+  // Format glucose in the requested unit
   if (entry.glucose !== undefined) {
-    simplified.glucose = `${entry.glucose} mg/dL`;
+    simplified.glucose = formatGlucose(entry.glucose, unit);
   }
 
   // Format insulin (compact)
@@ -126,6 +169,23 @@ function simplifyEntry(entry: LogbookEntry): SimplifiedLogbookEntry {
     simplified.meal = mealParts.join(', ');
   }
 
+  // Format foods (compact)
+  if (entry.foods && entry.foods.length > 0) {
+    simplified.foods = formatFoods(entry.foods);
+  }
+
+  // Format body measurements (compact)
+  const measurementParts: string[] = [];
+  if (entry.weight) measurementParts.push(`${entry.weight} kg`);
+  if (entry.bloodPressureSystolic && entry.bloodPressureDiastolic) {
+    measurementParts.push(`BP ${entry.bloodPressureSystolic}/${entry.bloodPressureDiastolic}`);
+  }
+  if (entry.pulse) measurementParts.push(`pulse ${entry.pulse}`);
+  if (entry.hba1c) measurementParts.push(`HbA1c ${entry.hba1c}%`);
+  if (measurementParts.length > 0) {
+    simplified.measurements = measurementParts.join(', ');
+  }
+
   // Include notes and category only if present
   if (entry.notes) simplified.notes = entry.notes;
   if (entry.category) simplified.category = entry.category;
@@ -136,13 +196,12 @@ function simplifyEntry(entry: LogbookEntry): SimplifiedLogbookEntry {
 /**
  * Groups entries by date and creates daily summaries
  */
-function groupByDay(entries: LogbookEntry[]): DailySummary[] {
+function groupByDay(entries: LogbookEntry[], unit: GlucoseUnit, timeZone: string): DailySummary[] {
   const groups = new Map<string, LogbookEntry[]>();
 
-  // Group entries by date
+  // Group entries by calendar date in the requested timezone
   for (const entry of entries) {
-    const date = new Date(entry.timestamp);
-    const dateKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    const dateKey = formatDateKey(new Date(entry.timestamp), timeZone);
 
     if (!groups.has(dateKey)) {
       groups.set(dateKey, []);
@@ -155,7 +214,6 @@ function groupByDay(entries: LogbookEntry[]): DailySummary[] {
 
   return sortedDates.map(dateKey => {
     const dayEntries = groups.get(dateKey)!;
-    const date = new Date(dateKey + 'T12:00:00');
 
     // Calculate glucose stats for the day
     const glucoseValues = dayEntries
@@ -175,21 +233,21 @@ function groupByDay(entries: LogbookEntry[]): DailySummary[] {
     }
 
     const summary: DailySummary = {
-      date: formatDateWithDay(date),
+      date: formatDateWithDay(dateKey),
       glucoseReadings: glucoseValues.length,
       entries: dayEntries
         .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
-        .map(simplifyEntry)
+        .map(entry => simplifyEntry(entry, unit, timeZone))
     };
 
-    // Add glucose stats if available (always in mg/dL)
+    // Add glucose stats if available (in the requested unit)
     if (glucoseValues.length > 0) {
-      const avg = Math.round(glucoseValues.reduce((a, b) => a + b, 0) / glucoseValues.length);
+      const avg = glucoseValues.reduce((a, b) => a + b, 0) / glucoseValues.length;
       const min = Math.min(...glucoseValues);
       const max = Math.max(...glucoseValues);
-      summary.glucoseAvg = `${avg} mg/dL`;
+      summary.glucoseAvg = formatGlucose(avg, unit);
       if (min !== max) {
-        summary.glucoseRange = `${min}-${max} mg/dL`;
+        summary.glucoseRange = formatGlucoseRange(min, max, unit);
       }
     }
 
@@ -211,6 +269,68 @@ function groupByDay(entries: LogbookEntry[]): DailySummary[] {
   });
 }
 
+/**
+ * Describes whether all pages of the requested range were fetched
+ */
+export function describeCompleteness(pagination: LogbookPagination | undefined): string {
+  if (!pagination) {
+    return 'unknown';
+  }
+
+  if (pagination.complete) {
+    return `complete (${pagination.fetchedRows} of ${pagination.totalRows} entries)`;
+  }
+
+  return `truncated: ${pagination.fetchedRows} of ${pagination.totalRows} entries fetched ` +
+    `(${pagination.pages} page(s), cap ${pagination.maxPages}). ` +
+    'Oldest days in the range are missing - narrow the range or raise maxPages.';
+}
+
+/**
+ * First and last day (YYYY-MM-DD) of the selected period
+ */
+export function resolveDateSelection(selection: LogbookDateSelection, timeZone: string): { from: string; to: string } {
+  const { dateRange, date, startDate, endDate } = selection;
+
+  if (startDate && endDate) {
+    return { from: startDate, to: endDate };
+  }
+  if (date) {
+    return { from: date, to: date };
+  }
+  return dateRangeToParams(dateRange ?? 'today', timeZone);
+}
+
+/**
+ * Labels the selected period, e.g. "Last 7 days (Jan 8-Jan 15, 2024)"
+ */
+export function describePeriod(selection: LogbookDateSelection, timeZone: string): string {
+  const { dateRange, date, startDate, endDate } = selection;
+
+  if (startDate && endDate) {
+    // Custom date range provided
+    return `${formatDate(startDate)}-${formatDate(endDate, true)}`;
+  }
+
+  if (date) {
+    // Specific date provided
+    return formatDateWithDay(date);
+  }
+
+  // Date range provided
+  const { from, to } = dateRangeToParams(dateRange ?? 'today', timeZone);
+  switch (dateRange) {
+    case '7days':
+      return `Last 7 days (${formatDate(from)}-${formatDate(to, true)})`;
+    case '30days':
+      return `Last 30 days (${formatDate(from)}-${formatDate(to, true)})`;
+    case '90days':
+      return `Last 90 days (${formatDate(from)}-${formatDate(to, true)})`;
+    default:
+      return `Today (${formatDate(to, true)})`;
+  }
+}
+
 /**
  * Executes the get_logbook_entries tool
  */
@@ -219,10 +339,14 @@ export async function executeGetLogbookEntries(
 ): Promise<SimplifiedLogbookResult> {
   // Validate input
   const validatedInput = GetLogbookEntriesInputSchema.parse(args);
-  const { dateRange, date, startDate, endDate, category } = validatedInput;
+  const { dateRange, date, startDate, endDate, category, maxPages } = validatedInput;
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
 
   // Make API call with either dateRange, specific date, or custom startDate+endDate
-  const response = await diabetesMClient.getLogbookEntries(dateRange, category, date, startDate, endDate);
+  const response = await diabetesMClient.getLogbookEntries(
+    dateRange, category, date, startDate, endDate, { maxPages, timeZone }
+  );
 
   if (!response.success || !response.data) {
     throw new Error(
@@ -232,47 +356,11 @@ export async function executeGetLogbookEntries(
 
   const entries = response.data;
 
-  // Calculate date range for response
-  const now = new Date();
-  let periodLabel: string;
-
-  if (startDate && endDate) {
-    // Custom date range provided
-    const from = new Date(startDate + 'T12:00:00');
-    const to = new Date(endDate + 'T12:00:00');
-    periodLabel = `${formatDate(from)}-${formatDate(to, true)}`;
-  } else if (date) {
-    // Specific date provided
-    const specificDate = new Date(date + 'T12:00:00');
-    periodLabel = formatDateWithDay(specificDate);
-  } else {
-    // Date range provided
-    switch (dateRange) {
-      case 'today':
-        periodLabel = `Today (${formatDate(now, true)})`;
-        break;
-      case '7days': {
-        const from = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        periodLabel = `Last 7 days (${formatDate(from)}-${formatDate(now, true)})`;
-        break;
-      }
-      case '30days': {
-        const from = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        periodLabel = `Last 30 days (${formatDate(from)}-${formatDate(now, true)})`;
-        break;
-      }
-      case '90days': {
-        const from = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-        periodLabel = `Last 90 days (${formatDate(from)}-${formatDate(now, true)})`;
-        break;
-      }
-      default:
-        periodLabel = `Today (${formatDate(now, true)})`;
-    }
-  }
+  // Calculate date range for response (calendar days in the timezone)
+  const periodLabel = describePeriod(validatedInput, timeZone);
 
   // Group entries by day
-  const dailyData = groupByDay(entries);
+  const dailyData = groupByDay(entries, unit, timeZone);
 
   // Calculate overall averages
   const allGlucose = entries.filter(e => e.glucose !== undefined).map(e => e.glucose!);
@@ -283,13 +371,15 @@ export async function executeGetLogbookEntries(
 
   const summary: SimplifiedLogbookResult['summary'] = {
     period: periodLabel,
+    timezone: timeZone,
     totalEntries: entries.length,
-    daysWithData
+    daysWithData,
+    completeness: describeCompleteness(response.pagination)
   };
 
   if (allGlucose.length > 0) {
-    const avgGlucose = Math.round(allGlucose.reduce((a, b) => a + b, 0) / allGlucose.length);
-    summary.avgGlucose = `${avgGlucose} mg/dL`;
+    const avgGlucose = allGlucose.reduce((a, b) => a + b, 0) / allGlucose.length;
+    summary.avgGlucose = formatGlucose(avgGlucose, unit);
   }
 
   if (totalInsulin > 0 && daysWithData > 0) {
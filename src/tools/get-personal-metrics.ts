@@ -16,6 +16,7 @@ import { z } from 'zod';
 import { diabetesMClient } from '../api/client.js';
 import { auditLogger } from '../security/audit.js';
 import { GetPersonalMetricsInputSchema } from '../types/tools.js';
+import { fromMgdl } from '../utils/units.js';
 import type { PersonalMetrics } from '../types/api.js';
 
 export const getPersonalMetricsToolDefinition = {
@@ -23,7 +24,13 @@ export const getPersonalMetricsToolDefinition = {
   description: 'Retrieve personal health metrics including weight, BMI, BMR, daily calorie needs, insulin sensitivity, blood pressure, and latest HbA1c. This tool accesses sensitive personal health data.',
   inputSchema: {
     type: 'object' as const,
-    properties: {},
+    properties: {
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for the output (default: the unit configured in your Diabetes:M profile)'
+      }
+    },
     required: []
   },
   annotations: {
@@ -49,7 +56,9 @@ export interface GetPersonalMetricsResult {
   };
   bmr?: number;
   dailyCalorieNeeds?: number;
+  /** Glucose drop per unit of insulin, in insulinSensitivityUnit */
   insulinSensitivity?: number;
+  insulinSensitivityUnit?: string;
   bloodPressure?: {
     systolic: number;
     diastolic: number;
@@ -85,12 +94,12 @@ function categorizeBmi(bmi: number): string {
  * Categorizes blood pressure
  */
 function categorizeBloodPressure(systolic: number, diastolic: number): string {
-  if (systolic < 120 && diastolic < 80) return 'Normal';
-  if (systolic < 130 && diastolic < 80) return 'Elevated';
-  if (systolic < 140 || diastolic < 90) return 'High Blood Pressure Stage 1';
-  if (systolic >= 140 || diastolic >= 90) return 'High Blood Pressure Stage 2';
+  // Most severe category first: either value alone can raise the category
   if (systolic > 180 || diastolic > 120) return 'Hypertensive Crisis';
-  return 'Unknown';
+  if (systolic >= 140 || diastolic >= 90) return 'High Blood Pressure Stage 2';
+  if (systolic >= 130 || diastolic >= 80) return 'High Blood Pressure Stage 1';
+  if (systolic >= 120) return 'Elevated';
+  return 'Normal';
 }
 
 /**
@@ -156,7 +165,7 @@ function generateSummary(metrics: PersonalMetrics, warnings: string[]): string {
   }
 
   if (metrics.hba1c !== undefined) {
-    parts.push(`Latest HbA1c: ${metrics.hba1c}%`);
+    parts.push(`Latest HbA1c: ${metrics.hba1c}%${metrics.hba1cDate ? ` (${metrics.hba1cDate})` : ''}`);
   }
 
   if (metrics.bloodPressureSystolic !== undefined && metrics.bloodPressureDiastolic !== undefined) {
@@ -176,8 +185,9 @@ function generateSummary(metrics: PersonalMetrics, warnings: string[]): string {
 export async function executeGetPersonalMetrics(
   args: unknown
 ): Promise<GetPersonalMetricsResult> {
-  // Validate input (empty object expected)
-  GetPersonalMetricsInputSchema.parse(args);
+  // Validate input
+  const validatedInput = GetPersonalMetricsInputSchema.parse(args);
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
 
   // Make API call
   const response = await diabetesMClient.getPersonalMetrics();
@@ -223,7 +233,10 @@ export async function executeGetPersonalMetrics(
   // Populate other metrics
   result.bmr = metrics.bmr;
   result.dailyCalorieNeeds = metrics.dailyCalorieNeeds;
-  result.insulinSensitivity = metrics.insulinSensitivity;
+  if (metrics.insulinSensitivity !== undefined) {
+    result.insulinSensitivity = fromMgdl(metrics.insulinSensitivity, unit);
+    result.insulinSensitivityUnit = `${unit} per unit`;
+  }
   result.pulse = metrics.pulse;
 
   // Populate blood pressure
@@ -2,7 +2,7 @@
  * MCP Tools Index
  *
  * Exports all tool definitions and executors for the Diabetes:M MCP server.
- * Total: 11 tools (8 data tools + 3 credential management tools)
+ * Total: 27 tools (21 data tools + 3 logbook write tools + 3 credential management tools)
  */
 
 import {
@@ -54,6 +54,83 @@ import {
   executeGetICRatios
 } from './get-ic-ratios.js';
 
+import {
+  createLogbookEntryToolDefinition,
+  executeCreateLogbookEntry
+} from './create-logbook-entry.js';
+
+import {
+  updateLogbookEntryToolDefinition,
+  executeUpdateLogbookEntry,
+  deleteLogbookEntryToolDefinition,
+  executeDeleteLogbookEntry
+} from './edit-logbook-entry.js';
+
+import {
+  getDiaryCalendarToolDefinition,
+  executeGetDiaryCalendar
+} from './get-diary-calendar.js';
+
+import {
+  getAgpToolDefinition,
+  executeGetAgp
+} from './get-agp.js';
+
+import {
+  getGlycemicVariabilityToolDefinition,
+  executeGetGlycemicVariability
+} from './get-glycemic-variability.js';
+
+import {
+  detectPatternsToolDefinition,
+  executeDetectPatterns
+} from './detect-patterns.js';
+
+import {
+  analyzeOvernightToolDefinition,
+  executeAnalyzeOvernight
+} from './analyze-overnight.js';
+
+import {
+  mealImpactToolDefinition,
+  executeMealImpact
+} from './meal-impact.js';
+
+import {
+  auditIcRatiosToolDefinition,
+  executeAuditIcRatios
+} from './audit-ic-ratios.js';
+
+import {
+  estimateIsfToolDefinition,
+  executeEstimateIsf
+} from './estimate-isf.js';
+
+import {
+  calculateBolusToolDefinition,
+  executeCalculateBolus
+} from './calculate-bolus.js';
+
+import {
+  getCOBToolDefinition,
+  executeGetCOB
+} from './get-cob.js';
+
+import {
+  forecastGlucoseToolDefinition,
+  executeForecastGlucose
+} from './forecast-glucose.js';
+
+import {
+  evaluateBasalTestToolDefinition,
+  executeEvaluateBasalTest
+} from './evaluate-basal-test.js';
+
+import {
+  comparePeriodsToolDefinition,
+  executeComparePeriods
+} from './compare-periods.js';
+
 // Re-export tool definitions and executors
 export {
   // Data tools
@@ -73,6 +150,39 @@ export {
   executeGetIOB,
   getICRatiosToolDefinition,
   executeGetICRatios,
+  getDiaryCalendarToolDefinition,
+  executeGetDiaryCalendar,
+  getAgpToolDefinition,
+  executeGetAgp,
+  getGlycemicVariabilityToolDefinition,
+  executeGetGlycemicVariability,
+  detectPatternsToolDefinition,
+  executeDetectPatterns,
+  analyzeOvernightToolDefinition,
+  executeAnalyzeOvernight,
+  mealImpactToolDefinition,
+  executeMealImpact,
+  auditIcRatiosToolDefinition,
+  executeAuditIcRatios,
+  estimateIsfToolDefinition,
+  executeEstimateIsf,
+  calculateBolusToolDefinition,
+  executeCalculateBolus,
+  getCOBToolDefinition,
+  executeGetCOB,
+  forecastGlucoseToolDefinition,
+  executeForecastGlucose,
+  evaluateBasalTestToolDefinition,
+  executeEvaluateBasalTest,
+  comparePeriodsToolDefinition,
+  executeComparePeriods,
+  // Logbook write tools
+  createLogbookEntryToolDefinition,
+  executeCreateLogbookEntry,
+  updateLogbookEntryToolDefinition,
+  executeUpdateLogbookEntry,
+  deleteLogbookEntryToolDefinition,
+  executeDeleteLogbookEntry,
   // Credential management tools
   setupCredentialsToolDefinition,
   executeSetupCredentials,
@@ -89,8 +199,23 @@ export type { GetInsulinAnalysisResult } from './get-insulin-analysis.js';
 export type { GetPersonalMetricsResult } from './get-personal-metrics.js';
 export type { SearchFoodsResult, FoodItemResult } from './search-foods.js';
 export type { GenerateHealthReportResult } from './generate-health-report.js';
-export type { IOBResult } from './get-iob.js';
+export type { IOBResult, IOBTimelinePoint } from './get-iob.js';
 export type { ICRatiosResult } from './get-ic-ratios.js';
+export type { GetDiaryCalendarResult } from './get-diary-calendar.js';
+export type { GetAgpResult, AgpTimeWindow } from './get-agp.js';
+export type { GetGlycemicVariabilityResult, GlycemicVariabilityReport } from './get-glycemic-variability.js';
+export type { DetectPatternsResult, GlucosePattern } from './detect-patterns.js';
+export type { AnalyzeOvernightResult, OvernightNight } from './analyze-overnight.js';
+export type { MealImpactResult, MealImpactMeal } from './meal-impact.js';
+export type { AuditIcRatiosResult, IcRatioSlotResult, CleanMealResult } from './audit-ic-ratios.js';
+export type { EstimateIsfResult, IsfBlockResult, CorrectionSampleResult } from './estimate-isf.js';
+export type { CalculateBolusResult } from './calculate-bolus.js';
+export type { COBResult } from './get-cob.js';
+export type { ForecastGlucoseResult, ForecastPrediction } from './forecast-glucose.js';
+export type { EvaluateBasalTestResult, BasalTestWindowResult } from './evaluate-basal-test.js';
+export type { ComparePeriodsResult, ComparedPeriod, MetricChange } from './compare-periods.js';
+export type { CreateLogbookEntryResult } from './create-logbook-entry.js';
+export type { UpdateLogbookEntryResult, DeleteLogbookEntryResult, FieldChange } from './edit-logbook-entry.js';
 export type { SetupCredentialsResult, CheckCredentialsResult, ClearCredentialsResult } from './setup-credentials.js';
 
 /**
@@ -109,7 +234,24 @@ export const ALL_TOOL_DEFINITIONS = [
   getICRatiosToolDefinition,
   getPersonalMetricsToolDefinition,
   searchFoodsToolDefinition,
-  generateHealthReportToolDefinition
+  generateHealthReportToolDefinition,
+  getDiaryCalendarToolDefinition,
+  getAgpToolDefinition,
+  getGlycemicVariabilityToolDefinition,
+  detectPatternsToolDefinition,
+  analyzeOvernightToolDefinition,
+  mealImpactToolDefinition,
+  auditIcRatiosToolDefinition,
+  estimateIsfToolDefinition,
+  calculateBolusToolDefinition,
+  getCOBToolDefinition,
+  forecastGlucoseToolDefinition,
+  evaluateBasalTestToolDefinition,
+  comparePeriodsToolDefinition,
+  // Logbook write tools
+  createLogbookEntryToolDefinition,
+  updateLogbookEntryToolDefinition,
+  deleteLogbookEntryToolDefinition
 ];
 
 /**
@@ -128,7 +270,24 @@ export const TOOL_EXECUTORS = {
   'get_ic_ratios': executeGetICRatios,
   'get_personal_metrics': executeGetPersonalMetrics,
   'search_foods': executeSearchFoods,
-  'generate_health_report': executeGenerateHealthReport
+  'generate_health_report': executeGenerateHealthReport,
+  'get_diary_calendar': executeGetDiaryCalendar,
+  'get_agp': executeGetAgp,
+  'get_glycemic_variability': executeGetGlycemicVariability,
+  'detect_patterns': executeDetectPatterns,
+  'analyze_overnight': executeAnalyzeOvernight,
+  'meal_impact': executeMealImpact,
+  'audit_ic_ratios': executeAuditIcRatios,
+  'estimate_isf': executeEstimateIsf,
+  'calculate_bolus': executeCalculateBolus,
+  'get_cob': executeGetCOB,
+  'forecast_glucose': executeForecastGlucose,
+  'evaluate_basal_test': executeEvaluateBasalTest,
+  'compare_periods': executeComparePeriods,
+  // Logbook write tools
+  'create_logbook_entry': executeCreateLogbookEntry,
+  'update_logbook_entry': executeUpdateLogbookEntry,
+  'delete_logbook_entry': executeDeleteLogbookEntry
 } as const;
 
 export type ToolName = keyof typeof TOOL_EXECUTORS;
@@ -0,0 +1,230 @@
+/**
+ * Tool: meal_impact
+ *
+ * Joins every logged meal (an entry with carbs) with the readings that
+ * follow it: pre-meal glucose, 1h/2h/3h values, peak and its time, and
+ * the time to get back to the pre-meal level. Meals are related to their
+ * carbs, bolus and configured IC ratio, and aggregated per category.
+ *
+ * Security:
+ * - Input validation with Zod
+ * - Logbook and profile data read through the encrypted cache
+ * - Audit logging
+ */
+
+import { diabetesMClient } from '../api/client.js';
+import { MealImpactInputSchema } from '../types/tools.js';
+import { formatGlucose, fromMgdl } from '../utils/units.js';
+import { addDays, dayBounds, formatTime, todayKey } from '../utils/timezone.js';
+import { extractGlucoseReadings, preferSensorReadings } from '../analysis/glucose-statistics.js';
+import {
+  BASELINE_TOLERANCE,
+  RETURN_WINDOW_MS,
+  aggregateMeals,
+  analyzeMeals,
+  type MealImpact,
+  type MealImpactAggregate
+} from '../analysis/meal-impact.js';
+import {
+  LOGBOOK_DATE_PROPERTIES,
+  describeCompleteness,
+  describePeriod,
+  resolveDateSelection
+} from './get-logbook-entries.js';
+import type { GlucoseUnit } from '../types/api.js';
+
+/** Days analyzed when no period is given */
+const DEFAULT_MEAL_DAYS = 14;
+
+/** Most recent meals listed individually */
+const MAX_MEALS_LISTED = 60;
+
+export const mealImpactToolDefinition = {
+  name: 'meal_impact',
+  description: 'Analyze how each logged meal affected glucose: pre-meal value, 1h/2h/3h after, peak and when it occurred, and time to return to the pre-meal level. Relates each meal to its carbs, bolus and the configured IC ratio, with aggregates per meal category (breakfast, lunch, dinner, snack). Defaults to the last 14 days.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      ...LOGBOOK_DATE_PROPERTIES,
+      category: {
+        type: 'string',
+        enum: ['breakfast', 'after_breakfast', 'lunch', 'after_lunch', 'dinner', 'after_dinner', 'snack', 'other', 'fasting', 'bedtime'],
+        description: 'Only analyze meals of this category'
+      },
+      unit: {
+        type: 'string',
+        enum: ['mg/dL', 'mmol/L'],
+        description: 'Glucose unit for the output (default: the unit configured in your Diabetes:M profile)'
+      }
+    }
+  },
+  annotations: {
+    title: 'Meal Impact',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true
+  }
+};
+
+/**
+ * One meal, glucose values in the output unit
+ */
+export interface MealImpactMeal {
+  date: string;
+  time: string;
+  category: string;
+  carbs: number;
+  bolus: number;
+  correction: number;
+  configuredRatio: number | null;
+  expectedBolus: number | null;
+  observedRatio: number | null;
+  preMeal: number | null;
+  after1h: number | null;
+  after2h: number | null;
+  after3h: number | null;
+  peak: number | null;
+  peakMinutes: number | null;
+  excursion: number | null;
+  returnMinutes: number | null;
+  overlapping: boolean;
+}
+
+export interface MealImpactResult {
+  period: string;
+  timezone: string;
+  completeness: string;
+  unit: GlucoseUnit;
+  /** 'sensor' when CGM readings exist, otherwise all readings */
+  basis: 'sensor' | 'all readings';
+  mealsAnalyzed: number;
+  byCategory: MealImpactAggregate[];
+  /** Most recent meals first */
+  meals: MealImpactMeal[];
+  notes: string[];
+  summary: string;
+}
+
+/**
+ * Renders a meal in the output unit
+ */
+function toMealResult(meal: MealImpact, unit: GlucoseUnit, timeZone: string): MealImpactMeal {
+  const toUnit = (value: number | null) => (value !== null ? fromMgdl(value, unit) : null);
+  return {
+    date: meal.date,
+    time: formatTime(new Date(meal.time), timeZone),
+    category: meal.category,
+    carbs: meal.carbs,
+    bolus: meal.bolus,
+    correction: meal.correction,
+    configuredRatio: meal.configuredRatio,
+    expectedBolus: meal.expectedBolus,
+    observedRatio: meal.observedRatio,
+    preMeal: toUnit(meal.preMeal),
+    after1h: toUnit(meal.after1h),
+    after2h: toUnit(meal.after2h),
+    after3h: toUnit(meal.after3h),
+    peak: toUnit(meal.peak),
+    peakMinutes: meal.peakMinutes,
+    excursion: toUnit(meal.excursion),
+    returnMinutes: meal.returnMinutes,
+    overlapping: meal.overlapping
+  };
+}
+
+/**
+ * Executes the meal_impact tool
+ */
+export async function executeMealImpact(args: unknown): Promise<MealImpactResult> {
+  // Validate input
+  const validatedInput = MealImpactInputSchema.parse(args ?? {});
+  const unit = validatedInput.unit ?? await diabetesMClient.getGlucoseUnit();
+  const timeZone = await diabetesMClient.resolveTimeZone(validatedInput.timezone);
+
+  // Default to the last 14 days
+  const today = todayKey(timeZone);
+  const selection = validatedInput.dateRange || validatedInput.date || validatedInput.startDate
+    ? validatedInput
+    : { ...validatedInput, startDate: addDays(today, -(DEFAULT_MEAL_DAYS - 1)), endDate: today };
+  const { from, to } = resolveDateSelection(selection, timeZone);
+
+  // Late meals need the readings of the following morning
+  const nextDay = addDays(to, 1);
+  const response = await diabetesMClient.getLogbookEntries(
+    undefined, undefined, undefined, from, nextDay > today ? today : nextDay,
+    { maxPages: selection.maxPages, timeZone }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.error?.message || 'Failed to retrieve logbook entries'
+    );
+  }
+
+  const notes: string[] = [];
+  const settingsResponse = await diabetesMClient.getTherapySettings();
+  if (!settingsResponse.success) {
+    notes.push('IC ratios could not be read from the profile: configured ratios and expected boluses are omitted.');
+  }
+
+  const { basis, readings } = preferSensorReadings(extractGlucoseReadings(response.data));
+  const analyzed = analyzeMeals(
+    response.data, readings, dayBounds(from, timeZone).start, dayBounds(to, timeZone).end, timeZone,
+    settingsResponse.data
+  ).filter(meal => !validatedInput.category || meal.category === validatedInput.category);
+
+  const byCategory = aggregateMeals(analyzed).map(aggregate => {
+    const toUnit = (value: number | null) => (value !== null ? fromMgdl(value, unit) : null);
+    return {
+      ...aggregate,
+      medianPreMeal: toUnit(aggregate.medianPreMeal),
+      median1h: toUnit(aggregate.median1h),
+      median2h: toUnit(aggregate.median2h),
+      median3h: toUnit(aggregate.median3h),
+      medianPeak: toUnit(aggregate.medianPeak),
+      medianExcursion: toUnit(aggregate.medianExcursion)
+    };
+  });
+
+  if (analyzed.some(meal => meal.overlapping)) {
+    notes.push('Meals followed by another meal within 3 hours are listed but left out of the medians.');
+  }
+  if (basis !== 'sensor' && analyzed.length > 0) {
+    notes.push('No CGM readings: post-meal values come from fingersticks and many will be missing.');
+  }
+  if (analyzed.length > MAX_MEALS_LISTED) {
+    notes.push(`Only the ${MAX_MEALS_LISTED} most recent meals are listed; aggregates include all ${analyzed.length}.`);
+  }
+
+  // Summary
+  let summary: string;
+  if (analyzed.length === 0) {
+    summary = 'No meals with carbs logged in the selected period.';
+  } else {
+    const parts = byCategory
+      .filter(aggregate => aggregate.category !== 'all meals' && aggregate.medianExcursion !== null)
+      .map(aggregate =>
+        `${aggregate.category} +${formatGlucose(aggregate.medianExcursion!, unit)} peaking at ${aggregate.medianPeakMinutes} min` +
+        (aggregate.observedRatio !== null ? `, 1u/${aggregate.observedRatio}g given` : '') +
+        (aggregate.configuredRatio !== null ? ` vs 1u/${aggregate.configuredRatio}g configured` : ''));
+    summary = `${analyzed.length} meal(s) analyzed.` +
+      (parts.length > 0 ? ` Median rise: ${parts.join('; ')}.` : ' Not enough readings after meals to measure the rise.') +
+      ` Back to baseline means within ${formatGlucose(BASELINE_TOLERANCE, unit)} of the pre-meal value within ${RETURN_WINDOW_MS / 3600000} hours.`;
+  }
+
+  return {
+    period: describePeriod(selection, timeZone),
+    timezone: timeZone,
+    completeness: describeCompleteness(response.pagination),
+    unit,
+    basis,
+    mealsAnalyzed: analyzed.length,
+    byCategory,
+    meals: analyzed
+      .slice(-MAX_MEALS_LISTED)
+      .reverse()
+      .map(meal => toMealResult(meal, unit, timeZone)),
+    notes,
+    summary
+  };
+}
@@ -10,11 +10,27 @@ export interface LoginResponse {
   error?: string;
 }
 
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+
+/**
+ * A food logged with a diary entry
+ * Quantity is in units of serving (e.g., 120 x "g" or 1 x "medium")
+ */
+export interface LoggedFood {
+  name: string;
+  quantity?: number;
+  serving?: string;
+  carbs?: number;
+  calories?: number;
+  protein?: number;
+  fat?: number;
+}
+
 export interface LogbookEntry {
   id: string;
   timestamp: string;
   glucose?: number;
-  glucoseUnit: 'mg/dL' | 'mmol/L';
+  glucoseUnit: GlucoseUnit;
   insulinBolus?: number;
   insulinBasal?: number;
   insulinCorrection?: number;
@@ -27,8 +43,24 @@ export interface LogbookEntry {
   tags?: string[];
   category?: string;
   isSensor?: boolean;
+  foods?: LoggedFood[];
+  weight?: number;                  // kg
+  bloodPressureSystolic?: number;   // mmHg
+  bloodPressureDiastolic?: number;  // mmHg
+  pulse?: number;                   // bpm
+  hba1c?: number;                   // % (lab value)
 }
 
+/**
+ * Fields that can be written to a diary entry
+ * Glucose is given in the unit stated by glucoseUnit
+ */
+export type LogbookEntryDraft = Pick<
+  LogbookEntry,
+  'timestamp' | 'glucose' | 'glucoseUnit' | 'insulinBolus' | 'insulinBasal' |
+  'insulinCorrection' | 'carbs' | 'notes' | 'category'
+>;
+
 /**
  * Simplified logbook entry for LLM consumption
  * Only includes non-null fields with human-readable formatting
@@ -38,6 +70,8 @@ export interface SimplifiedLogbookEntry {
   glucose?: string;       // "120 mg/dL" or "6.7 mmol/L"
   insulin?: string;       // "8u bolus, 2u correction" compact format
   meal?: string;          // "45g carbs (320 cal)" compact format
+  foods?: string;         // "pasta 120g, apple 1 medium" compact format
+  measurements?: string;  // "72.5 kg, BP 120/80, pulse 68, HbA1c 6.8%" compact format
   notes?: string;
   category?: string;
 }
@@ -62,15 +96,42 @@ export interface DailySummary {
 export interface SimplifiedLogbookResult {
   summary: {
     period: string;       // "Last 7 days (Jan 8-15, 2024)"
+    timezone: string;     // IANA timezone used for days and times
     totalEntries: number;
     daysWithData: number;
     avgGlucose?: string;
     avgDailyInsulin?: string;
     avgDailyCarbs?: number;
+    completeness: string; // "complete (412 of 412 entries)" or "truncated: ..."
   };
   dailyData: DailySummary[];
 }
 
+/**
+ * Per-day entry counts for the diary calendar
+ */
+export interface DiaryCalendarDay {
+  date: string;             // "2024-01-15" in the calendar's timezone
+  entries: number;
+  glucoseReadings: number;
+  insulinDoses: number;     // bolus, correction and basal doses counted separately
+  meals: number;            // entries with carbs
+}
+
+/**
+ * Days with diary data in a date range
+ */
+export interface DiaryCalendar {
+  from: string;
+  to: string;
+  timeZone: string;
+  /** 'calendar' when DIARY_CALENDAR answered, 'logbook' when derived from entries */
+  source: 'calendar' | 'logbook';
+  /** false when the logbook fallback hit its page cap */
+  complete: boolean;
+  days: DiaryCalendarDay[];
+}
+
 export interface GlucoseDistribution {
   hypo: number;      // < 54 mg/dL
   low: number;       // 54-69 mg/dL
@@ -92,6 +153,40 @@ export interface GlucoseStatistics {
   period: string;
 }
 
+/**
+ * A metric checked against its international consensus target
+ */
+export interface ConsensusMetric {
+  value: number;
+  /** Consensus target, e.g. ">70%" */
+  target: string;
+  meetsTarget: boolean;
+  /** Set to false when the data behind the value is known to be incomplete */
+  reliable?: boolean;
+}
+
+/**
+ * 2019 international consensus CGM metrics (Battelino et al.)
+ * Percentages are shares of readings; glucose levels are in mg/dL
+ */
+export interface ConsensusMetrics {
+  /** 'sensor' when CGM readings exist, otherwise all readings (less reliable) */
+  basis: 'sensor' | 'all readings';
+  readingsUsed: number;
+  timeInRange: ConsensusMetric;           // 70-180 mg/dL
+  timeBelowRangeLevel1: ConsensusMetric;  // 54-69 mg/dL
+  timeBelowRangeLevel2: ConsensusMetric;  // <54 mg/dL
+  timeAboveRangeLevel1: ConsensusMetric;  // 181-250 mg/dL
+  timeAboveRangeLevel2: ConsensusMetric;  // >250 mg/dL
+  coefficientOfVariation: ConsensusMetric;
+  /** Glucose Management Indicator (%) */
+  gmi: ConsensusMetric;
+  /** Glycemia Risk Index (0-100) with its zone A (lowest risk) to E */
+  gri: ConsensusMetric & { zone: 'A' | 'B' | 'C' | 'D' | 'E' };
+  /** Share of the period covered by CGM data */
+  cgmActiveTime: ConsensusMetric;
+}
+
 export interface InsulinTotals {
   bolus: number;
   basal: number;
@@ -127,6 +222,19 @@ export interface InsulinOnBoard {
   };
 }
 
+/**
+ * Insulin therapy settings read from the user's profile
+ * The schedules have 48 half-hour slots (index 0 = 00:00-00:30); 0 means not set
+ */
+export interface TherapySettings {
+  /** Grams of carbs covered by 1 unit, per slot */
+  icRatioPerSlot: number[];
+  icRatioDefault?: number;
+  /** Glucose drop per unit in mg/dL, per slot */
+  isfPerSlot: number[];
+  isfDefault?: number;
+}
+
 export interface PersonalMetrics {
   weight?: number;
   weightUnit: 'kg' | 'lbs';
@@ -202,3 +310,26 @@ export interface ApiResponse<T> {
   error?: ApiError;
   timestamp: string;
 }
+
+/**
+ * Pagination state of a multi-page logbook fetch
+ */
+export interface LogbookPagination {
+  /** True when every row reported by the API was fetched */
+  complete: boolean;
+  /** Rows fetched across all pages */
+  fetchedRows: number;
+  /** Total rows reported by the API (total_rows) */
+  totalRows: number;
+  /** Number of pages requested */
+  pages: number;
+  /** Page cap that applied to this fetch */
+  maxPages: number;
+}
+
+/**
+ * Logbook response including pagination state
+ */
+export interface LogbookEntriesResponse extends ApiResponse<LogbookEntry[]> {
+  pagination?: LogbookPagination;
+}
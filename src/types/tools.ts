@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod';
+import { isValidTimeZone } from '../utils/timezone.js';
 
 // Date range schemas
 export const DateRangeSchema = z.enum(['today', '7days', '30days', '90days']);
@@ -17,38 +18,240 @@ export type Language = z.infer<typeof LanguageSchema>;
 export const FoodFilterSchema = z.enum(['userCreated', 'recent', 'favorites', 'meals', 'dishes']);
 export type FoodFilter = z.infer<typeof FoodFilterSchema>;
 
+export const LogbookCategorySchema = z.enum([
+  'breakfast', 'after_breakfast', 'lunch', 'after_lunch', 'dinner',
+  'after_dinner', 'snack', 'other', 'fasting', 'bedtime'
+]);
+export type LogbookCategory = z.infer<typeof LogbookCategorySchema>;
+
+export const GlucoseUnitSchema = z.enum(['mg/dL', 'mmol/L']);
+
+const UnitOverrideSchema = GlucoseUnitSchema.optional()
+  .describe('Glucose unit for input and output (default: the unit set in the Diabetes:M profile)');
+
+export const TimeZoneSchema = z.string().refine(isValidTimeZone, { message: 'Invalid IANA timezone' });
+
+const TimeZoneOverrideSchema = TimeZoneSchema.optional()
+  .describe('IANA timezone for day boundaries and times (default: account setting, else system timezone)');
+
+const DateTimeInputSchema = z.string()
+  .refine(value => !isNaN(new Date(value).getTime()), { message: 'Invalid date-time' });
+
+const ClockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+// Calendar day; "2025-02-30" and the like are rejected rather than rolled over
+const DateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD')
+  .refine(value => {
+    const time = Date.parse(`${value}T00:00:00Z`);
+    return !isNaN(time) && new Date(time).toISOString().startsWith(value);
+  }, { message: 'Invalid date' });
+
+/**
+ * Insulin action curve options shared by every tool that models insulin on board
+ */
+const InsulinCurveOptionsSchema = z.object({
+  model: z.enum(['walsh', 'bilinear', 'exponential', 'flat']).optional()
+    .describe('Insulin action curve (default: walsh, or the insulinType preset)'),
+  insulinType: z.enum(['fiasp', 'lyumjev', 'novorapid', 'humalog', 'glargine', 'degludec']).optional()
+    .describe('Insulin product whose preset curve, DIA and peak to use'),
+  peakMinutes: z.number().min(30).max(180).optional()
+    .describe('Peak action time in minutes for the exponential model (default: preset, else 75)')
+});
+
 export const ReportFormatSchema = z.enum(['summary', 'detailed', 'trends']);
 export type ReportFormat = z.infer<typeof ReportFormatSchema>;
 
-// Tool input schemas
-export const GetLogbookEntriesInputSchema = z.object({
+/**
+ * Date options shared by every tool that reads logbook data
+ */
+const LogbookDateSelectionSchema = z.object({
   dateRange: DateRangeSchema.optional().describe('Time range for logbook entries (today, 7days, 30days, 90days)'),
-  date: z.string().optional().describe('Specific date in YYYY-MM-DD format (e.g., 2025-12-25)'),
-  startDate: z.string().optional().describe('Start date in YYYY-MM-DD format for custom date range (use with endDate)'),
-  endDate: z.string().optional().describe('End date in YYYY-MM-DD format for custom date range (use with startDate)'),
-  category: z.string().optional().describe('Optional category filter (e.g., breakfast, lunch, dinner)')
+  date: DateKeySchema.optional().describe('Specific date in YYYY-MM-DD format (e.g., 2025-12-25)'),
+  startDate: DateKeySchema.optional().describe('Start date in YYYY-MM-DD format for custom date range (use with endDate)'),
+  endDate: DateKeySchema.optional().describe('End date in YYYY-MM-DD format for custom date range (use with startDate)'),
+  maxPages: z.number().int().min(1).max(100).optional().describe('Maximum number of API pages to fetch (default: 20)'),
+  timezone: TimeZoneOverrideSchema
+});
+export type LogbookDateSelection = z.infer<typeof LogbookDateSelectionSchema>;
+
+const hasDateSelection = (data: LogbookDateSelection): boolean =>
+  Boolean(data.dateRange || data.date || (data.startDate && data.endDate));
+
+const hasPairedCustomRange = (data: LogbookDateSelection): boolean =>
+  !(data.startDate && !data.endDate) && !(!data.startDate && data.endDate);
+
+// Tool input schemas
+export const GetLogbookEntriesInputSchema = LogbookDateSelectionSchema.extend({
+  category: z.string().optional().describe('Optional category filter (e.g., breakfast, lunch, dinner)'),
+  unit: UnitOverrideSchema
 }).refine(
-  data => data.dateRange || data.date || (data.startDate && data.endDate),
+  hasDateSelection,
   { message: 'Either dateRange, date, or startDate+endDate must be provided' }
 ).refine(
-  data => !(data.startDate && !data.endDate) && !(!data.startDate && data.endDate),
+  hasPairedCustomRange,
   { message: 'Both startDate and endDate must be provided together' }
 );
 export type GetLogbookEntriesInput = z.infer<typeof GetLogbookEntriesInputSchema>;
 
-export const GetGlucoseStatisticsInputSchema = z.object({
-  period: PeriodSchema.describe('Period in days for statistics calculation')
-});
+export const GetGlucoseStatisticsInputSchema = LogbookDateSelectionSchema.extend({
+  period: PeriodSchema.optional().describe('Period in days, read from the precomputed Diabetes:M statistics'),
+  unit: UnitOverrideSchema
+}).refine(
+  data => data.period || hasDateSelection(data),
+  { message: 'Either period, dateRange, date, or startDate+endDate must be provided' }
+).refine(
+  data => !(data.period && hasDateSelection(data)),
+  { message: 'Use either period or dateRange/date/startDate+endDate, not both' }
+).refine(
+  hasPairedCustomRange,
+  { message: 'Both startDate and endDate must be provided together' }
+);
 export type GetGlucoseStatisticsInput = z.infer<typeof GetGlucoseStatisticsInputSchema>;
 
+export const GetAgpInputSchema = LogbookDateSelectionSchema.extend({
+  binMinutes: z.union([z.literal(15), z.literal(30), z.literal(60)]).optional()
+    .describe('Time-of-day bin width in minutes (default: 30)'),
+  unit: UnitOverrideSchema
+}).refine(
+  hasPairedCustomRange,
+  { message: 'Both startDate and endDate must be provided together' }
+);
+export type GetAgpInput = z.infer<typeof GetAgpInputSchema>;
+
+export const GetGlycemicVariabilityInputSchema = LogbookDateSelectionSchema.extend({
+  congaHours: z.number().int().min(1).max(24).optional().describe('Lag of CONGA-n in hours (default: 1)'),
+  maxGapMinutes: z.number().int().min(5).max(180).optional()
+    .describe('Largest gap between readings treated as continuous data (default: 30)'),
+  unit: UnitOverrideSchema
+}).refine(
+  hasDateSelection,
+  { message: 'Either dateRange, date, or startDate+endDate must be provided' }
+).refine(
+  hasPairedCustomRange,
+  { message: 'Both startDate and endDate must be provided together' }
+);
+export type GetGlycemicVariabilityInput = z.infer<typeof GetGlycemicVariabilityInputSchema>;
+
+export const DetectPatternsInputSchema = LogbookDateSelectionSchema.extend({
+  lowThreshold: z.number().positive().optional()
+    .describe('Readings below this count as lows, in the output unit (default: 70 mg/dL / 3.9 mmol/L)'),
+  highThreshold: z.number().positive().optional()
+    .describe('Readings above this count as highs, in the output unit (default: 180 mg/dL / 10.0 mmol/L)'),
+  minOccurrences: z.number().int().min(2).max(30).optional()
+    .describe('Minimum occurrences for a pattern to be reported (default: 3)'),
+  unit: UnitOverrideSchema
+}).refine(
+  hasPairedCustomRange,
+  { message: 'Both startDate and endDate must be provided together' }
+);
+export type DetectPatternsInput = z.infer<typeof DetectPatternsInputSchema>;
+
+export const AnalyzeOvernightInputSchema = LogbookDateSelectionSchema.extend({
+  sleepStart: ClockTimeSchema.optional().describe('Usual bedtime, HH:MM (default: 23:00)'),
+  sleepEnd: ClockTimeSchema.optional().describe('Usual wake-up time, HH:MM (default: 07:00)'),
+  unit: UnitOverrideSchema
+}).refine(
+  hasPairedCustomRange,
+  { message: 'Both startDate and endDate must be provided together' }
+);
+export type AnalyzeOvernightInput = z.infer<typeof AnalyzeOvernightInputSchema>;
+
+export const MealImpactInputSchema = LogbookDateSelectionSchema.extend({
+  category: LogbookCategorySchema.optional().describe('Only analyze meals of this category'),
+  unit: UnitOverrideSchema
+}).refine(
+  hasPairedCustomRange,
+  { message: 'Both startDate and endDate must be provided together' }
+);
+export type MealImpactInput = z.infer<typeof MealImpactInputSchema>;
+
+export const AuditIcRatiosInputSchema = LogbookDateSelectionSchema.extend({
+  unit: UnitOverrideSchema
+}).refine(
+  hasPairedCustomRange,
+  { message: 'Both startDate and endDate must be provided together' }
+);
+export type AuditIcRatiosInput = z.infer<typeof AuditIcRatiosInputSchema>;
+
+export const EstimateIsfInputSchema = LogbookDateSelectionSchema.extend({
+  dia: z.number().min(2).max(8).optional().describe('Duration of Insulin Action in hours (default: insulinType preset, else 4)'),
+  ...InsulinCurveOptionsSchema.shape,
+  unit: UnitOverrideSchema
+}).refine(
+  hasPairedCustomRange,
+  { message: 'Both startDate and endDate must be provided together' }
+);
+export type EstimateIsfInput = z.infer<typeof EstimateIsfInputSchema>;
+
+export const EvaluateBasalTestInputSchema = LogbookDateSelectionSchema.extend({
+  windowStart: DateTimeInputSchema.optional()
+    .describe('Start of a basal test to evaluate, e.g. "2025-12-25T08:00" (use with windowEnd; default: detect tests in the period)'),
+  windowEnd: DateTimeInputSchema.optional().describe('End of the basal test (use with windowStart)'),
+  tolerance: z.number().positive().optional()
+    .describe('Allowed glucose change over a test, in the output unit (default: 30 mg/dL / 1.7 mmol/L)'),
+  minHours: z.number().min(2).max(24).optional().describe('Shortest detected window in hours (default: 4)'),
+  dia: z.number().min(2).max(8).optional()
+    .describe('Hours kept clear after carbs or a bolus (default: 4)'),
+  unit: UnitOverrideSchema
+}).refine(
+  hasPairedCustomRange,
+  { message: 'Both startDate and endDate must be provided together' }
+).refine(
+  data => !data.windowStart === !data.windowEnd,
+  { message: 'windowStart and windowEnd must be provided together' }
+);
+export type EvaluateBasalTestInput = z.infer<typeof EvaluateBasalTestInputSchema>;
+
+export const ComparePeriodsInputSchema = z.object({
+  comparison: z.enum(['this_week_vs_last_week', 'this_month_vs_last_year', 'custom']).optional()
+    .describe('Periods to compare (default: custom when dates are given, else this week vs last week)'),
+  currentStartDate: DateKeySchema.optional().describe('Start of the current period, YYYY-MM-DD (custom)'),
+  currentEndDate: DateKeySchema.optional().describe('End of the current period, YYYY-MM-DD (custom)'),
+  previousStartDate: DateKeySchema.optional().describe('Start of the period to compare against, YYYY-MM-DD (custom)'),
+  previousEndDate: DateKeySchema.optional().describe('End of the period to compare against, YYYY-MM-DD (custom)'),
+  maxPages: z.number().int().min(1).max(100).optional().describe('Maximum number of API pages to fetch per period (default: 20)'),
+  unit: UnitOverrideSchema,
+  timezone: TimeZoneOverrideSchema
+}).refine(
+  data => {
+    const dates = [data.currentStartDate, data.currentEndDate, data.previousStartDate, data.previousEndDate];
+    return dates.every(Boolean) || (!dates.some(Boolean) && data.comparison !== 'custom');
+  },
+  { message: 'A custom comparison needs currentStartDate, currentEndDate, previousStartDate and previousEndDate' }
+).refine(
+  data => !data.currentStartDate || data.comparison === undefined || data.comparison === 'custom',
+  { message: 'Dates can only be given with a custom comparison' }
+);
+export type ComparePeriodsInput = z.infer<typeof ComparePeriodsInputSchema>;
+
 export const GetInsulinAnalysisInputSchema = z.object({
-  period: PeriodSchema.describe('Period in days for insulin analysis')
+  period: PeriodSchema.describe('Period in days for insulin analysis'),
+  unit: UnitOverrideSchema
 });
 export type GetInsulinAnalysisInput = z.infer<typeof GetInsulinAnalysisInputSchema>;
 
-export const GetPersonalMetricsInputSchema = z.object({}).describe('No input required');
+export const GetPersonalMetricsInputSchema = z.object({
+  unit: UnitOverrideSchema
+});
 export type GetPersonalMetricsInput = z.infer<typeof GetPersonalMetricsInputSchema>;
 
+export const GetDiaryCalendarInputSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, 'Expected YYYY-MM').optional()
+    .describe('Month in YYYY-MM format (default: current month)'),
+  startDate: DateKeySchema.optional()
+    .describe('Start date in YYYY-MM-DD format (use with endDate instead of month)'),
+  endDate: DateKeySchema.optional()
+    .describe('End date in YYYY-MM-DD format (use with startDate instead of month)'),
+  timezone: TimeZoneOverrideSchema
+}).refine(
+  data => !data.startDate === !data.endDate,
+  { message: 'startDate and endDate must be provided together' }
+).refine(
+  data => !(data.month && data.startDate),
+  { message: 'Use either month or startDate+endDate, not both' }
+);
+export type GetDiaryCalendarInput = z.infer<typeof GetDiaryCalendarInputSchema>;
+
 export const SearchFoodsInputSchema = z.object({
   query: z.string().min(1).max(100).describe('Search query for food items'),
   filter: FoodFilterSchema.optional().describe('Optional filter for food source'),
@@ -58,21 +261,161 @@ export type SearchFoodsInput = z.infer<typeof SearchFoodsInputSchema>;
 
 export const GenerateHealthReportInputSchema = z.object({
   period: PeriodSchema.describe('Period for the health report'),
-  format: ReportFormatSchema.describe('Report format type')
+  format: ReportFormatSchema.describe('Report format type'),
+  includeVariability: z.boolean().optional()
+    .describe('Add glycemic variability indices (MAGE, CONGA, MODD, J-index, LBGI/HBGI) to a detailed report'),
+  unit: UnitOverrideSchema,
+  timezone: TimeZoneOverrideSchema
 });
 export type GenerateHealthReportInput = z.infer<typeof GenerateHealthReportInputSchema>;
 
 export const GetIOBInputSchema = z.object({
-  dia: z.number().min(2).max(8).optional().describe('Duration of Insulin Action in hours (default: 4)'),
-  includeBasal: z.boolean().optional().describe('Whether to include basal insulin in IOB calculation (default: false)')
-});
+  dia: z.number().min(2).max(8).optional().describe('Duration of Insulin Action in hours (default: insulinType preset, else 4)'),
+  ...InsulinCurveOptionsSchema.shape,
+  includeBasal: z.boolean().optional().describe('Whether to include basal insulin in IOB calculation (default: false)'),
+  basalInsulinType: z.enum(['glargine', 'degludec']).optional()
+    .describe('Long-acting basal insulin; sets the flat basal curve duration (default: 24h flat profile)'),
+  at: DateTimeInputSchema.optional()
+    .describe('Compute IOB at this date-time instead of now, e.g. "2025-12-25T15:40" (local time unless an offset is given)'),
+  from: DateTimeInputSchema.optional().describe('Start of an IOB timeline (use with to)'),
+  to: DateTimeInputSchema.optional().describe('End of an IOB timeline (use with from)'),
+  stepMinutes: z.number().int().min(5).max(240).optional().describe('Step between timeline points in minutes (default: 15)'),
+  timezone: TimeZoneOverrideSchema
+}).refine(
+  data => !data.from === !data.to,
+  { message: 'from and to must be provided together' }
+).refine(
+  data => !(data.at && data.from),
+  { message: 'Use either at or from+to, not both' }
+);
 export type GetIOBInput = z.infer<typeof GetIOBInputSchema>;
 
+export const CalculateBolusInputSchema = z.object({
+  carbs: z.number().min(0).max(300, 'Carbs above 300g per meal are implausible; split the meal or check the amount')
+    .describe('Carbs about to be eaten, in grams'),
+  currentGlucose: z.number().positive().optional()
+    .describe('Current glucose in the output unit (omit to skip the correction)'),
+  targetGlucose: z.number().positive().optional()
+    .describe('Target glucose for the correction, in the output unit (default: 110 mg/dL / 6.1 mmol/L)'),
+  dia: z.number().min(2).max(8).optional().describe('Duration of Insulin Action in hours for IOB (default: insulinType preset, else 4)'),
+  ...InsulinCurveOptionsSchema.shape,
+  increment: z.union([z.literal(0.05), z.literal(0.1), z.literal(0.5), z.literal(1)]).optional()
+    .describe('Dose step of the pen or pump (default: 0.5)'),
+  maxBolus: z.number().min(0.5).max(50).optional().describe('Largest dose the calculator will suggest (default: 10 units)'),
+  unit: UnitOverrideSchema,
+  timezone: TimeZoneOverrideSchema
+});
+export type CalculateBolusInput = z.infer<typeof CalculateBolusInputSchema>;
+
+const AbsorptionClassSchema = z.enum(['fast', 'medium', 'slow']);
+
+const AbsorptionHoursSchema = z.number().min(0.5).max(8);
+
+/**
+ * Carb absorption options shared by get_cob and forecast_glucose
+ */
+const AbsorptionOptionsSchema = z.object({
+  classAbsorption: z.object({
+    fast: AbsorptionHoursSchema.optional(),
+    medium: AbsorptionHoursSchema.optional(),
+    slow: AbsorptionHoursSchema.optional()
+  }).optional().describe('Absorption time in hours per class (default: fast 2, medium 3, slow 4)'),
+  categoryAbsorption: z.record(LogbookCategorySchema, z.union([AbsorptionClassSchema, AbsorptionHoursSchema])).optional()
+    .describe('Absorption per meal category: a class or a time in hours (e.g. {"dinner": "slow", "snack": 1.5})'),
+  defaultClass: AbsorptionClassSchema.optional()
+    .describe('Absorption class for meals without a category setting (default: medium)')
+});
+
+export const GetCOBInputSchema = z.object({
+  ...AbsorptionOptionsSchema.shape,
+  timezone: TimeZoneOverrideSchema
+});
+export type GetCOBInput = z.infer<typeof GetCOBInputSchema>;
+
+export const ForecastGlucoseInputSchema = z.object({
+  dia: z.number().min(2).max(8).optional().describe('Duration of Insulin Action in hours (default: insulinType preset, else 4)'),
+  ...InsulinCurveOptionsSchema.shape,
+  ...AbsorptionOptionsSchema.shape,
+  lowThreshold: z.number().positive().optional()
+    .describe('Predicted values below this are flagged as lows, in the output unit (default: 70 mg/dL / 3.9 mmol/L)'),
+  unit: UnitOverrideSchema,
+  timezone: TimeZoneOverrideSchema
+});
+export type ForecastGlucoseInput = z.infer<typeof ForecastGlucoseInputSchema>;
+
 export const GetICRatiosInputSchema = z.object({
-  includeRawData: z.boolean().optional().describe('Include full 48-value arrays (every 30 min) in the response (default: false)')
+  includeRawData: z.boolean().optional().describe('Include full 48-value arrays (every 30 min) in the response (default: false)'),
+  unit: UnitOverrideSchema
 });
 export type GetICRatiosInput = z.infer<typeof GetICRatiosInputSchema>;
 
+// Writable logbook entry fields shared by create/update
+const LogbookEntryFieldsSchema = z.object({
+  timestamp: z.string().optional()
+    .refine(value => value === undefined || !isNaN(new Date(value).getTime()), { message: 'Invalid timestamp' })
+    .describe('Entry time as ISO 8601 date-time (without offset: read in the selected timezone)'),
+  glucose: z.number().positive().max(600).optional().describe('Glucose reading in the selected unit'),
+  insulinBolus: z.number().min(0).max(50).optional().describe('Meal bolus insulin in units'),
+  insulinCorrection: z.number().min(0).max(50).optional().describe('Correction bolus insulin in units'),
+  insulinBasal: z.number().min(0).max(100).optional().describe('Basal insulin in units'),
+  carbs: z.number().min(0).max(500).optional().describe('Carbohydrates in grams'),
+  notes: z.string().max(500).optional().describe('Free-text note'),
+  category: LogbookCategorySchema.optional().describe('Entry category (e.g., breakfast, lunch, dinner)'),
+  unit: UnitOverrideSchema,
+  timezone: TimeZoneOverrideSchema
+});
+
+const ConfirmSchema = z.boolean().optional().default(false)
+  .describe('Set to true to perform the write; otherwise a dry-run preview is returned');
+
+const PreviewTokenSchema = z.string().regex(/^[0-9a-f]{16}$/, 'Invalid preview token').optional()
+  .describe('Token returned by the dry-run preview; required with confirm: true');
+
+const CONFIRM_REQUIRES_TOKEN = {
+  message: 'confirm: true requires the previewToken returned by the dry-run preview'
+};
+
+export const CreateLogbookEntryInputSchema = LogbookEntryFieldsSchema.extend({
+  confirm: ConfirmSchema,
+  previewToken: PreviewTokenSchema
+}).refine(
+  data => data.previewToken !== undefined ||
+    data.glucose !== undefined || data.insulinBolus !== undefined ||
+    data.insulinCorrection !== undefined || data.insulinBasal !== undefined ||
+    data.carbs !== undefined || data.notes !== undefined,
+  { message: 'At least one of glucose, insulinBolus, insulinCorrection, insulinBasal, carbs or notes must be provided' }
+).refine(
+  data => !data.confirm || data.previewToken !== undefined,
+  CONFIRM_REQUIRES_TOKEN
+);
+export type CreateLogbookEntryInput = z.infer<typeof CreateLogbookEntryInputSchema>;
+
+export const UpdateLogbookEntryInputSchema = LogbookEntryFieldsSchema.extend({
+  id: z.string().min(1).describe('ID of the logbook entry to update'),
+  confirm: ConfirmSchema,
+  previewToken: PreviewTokenSchema
+}).refine(
+  data => Object.keys(data).some(key => !['id', 'confirm', 'previewToken', 'unit', 'timezone'].includes(key) &&
+    data[key as keyof typeof data] !== undefined),
+  { message: 'At least one field to change must be provided' }
+).refine(
+  data => !data.confirm || data.previewToken !== undefined,
+  CONFIRM_REQUIRES_TOKEN
+);
+export type UpdateLogbookEntryInput = z.infer<typeof UpdateLogbookEntryInputSchema>;
+
+export const DeleteLogbookEntryInputSchema = z.object({
+  id: z.string().min(1).describe('ID of the logbook entry to delete'),
+  confirm: ConfirmSchema,
+  previewToken: PreviewTokenSchema,
+  unit: UnitOverrideSchema,
+  timezone: TimeZoneOverrideSchema
+}).refine(
+  data => !data.confirm || data.previewToken !== undefined,
+  CONFIRM_REQUIRES_TOKEN
+);
+export type DeleteLogbookEntryInput = z.infer<typeof DeleteLogbookEntryInputSchema>;
+
 // Tool definitions for MCP
 export interface ToolDefinition {
   name: string;
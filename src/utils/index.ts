@@ -0,0 +1,7 @@
+/**
+ * Utility module exports
+ */
+
+export * from './units.js';
+export * from './timezone.js';
+export * from './preview-tokens.js';
@@ -0,0 +1,60 @@
+/**
+ * Preview Tokens
+ *
+ * Single-use tokens tying a confirmed write to the dry-run preview the
+ * user approved. A token is the hash of what the preview covered (the
+ * draft, or the entry id and changes), so a confirmation with different
+ * values cannot reuse it. Tokens expire and are removed once consumed.
+ */
+
+import { createHash } from 'node:crypto';
+
+/** How long a preview can be confirmed */
+export const PREVIEW_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Token identifying a flat object: hash of its defined fields in a fixed order
+ */
+export function previewTokenOf(subject: object): string {
+  const canonical = JSON.stringify(
+    Object.entries(subject).filter(([, value]) => value !== undefined).sort(([a], [b]) => a.localeCompare(b))
+  );
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 16);
+}
+
+/**
+ * Previews awaiting confirmation for one tool, by token
+ */
+export class PreviewTokenStore<T> {
+  private pending = new Map<string, { value: T; expiresAt: number }>();
+
+  /**
+   * Registers a preview and returns its token
+   *
+   * @param subject - What the confirmation must match
+   * @param value - Data kept until the confirmation
+   */
+  issue(subject: object, value: T): string {
+    const token = previewTokenOf(subject);
+    this.pending.set(token, { value, expiresAt: Date.now() + PREVIEW_TTL_MS });
+    return token;
+  }
+
+  /**
+   * Data of a pending preview, undefined if the token is unknown or expired
+   */
+  get(token: string | undefined): T | undefined {
+    const now = Date.now();
+    for (const [key, pending] of this.pending) {
+      if (pending.expiresAt <= now) this.pending.delete(key);
+    }
+    return token !== undefined ? this.pending.get(token)?.value : undefined;
+  }
+
+  /**
+   * Removes a preview: each token confirms one write
+   */
+  consume(token: string): void {
+    this.pending.delete(token);
+  }
+}
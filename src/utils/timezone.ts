@@ -0,0 +1,178 @@
+/**
+ * Timezone-aware Date Helpers
+ *
+ * Day boundaries, date keys and clock times are computed in an explicit
+ * IANA timezone instead of the process zone or UTC, so entries near
+ * midnight land on the correct day.
+ */
+
+/**
+ * Calendar fields of an instant in a given timezone
+ */
+export interface ZonedParts {
+  year: number;
+  month: number;    // 1-12
+  day: number;      // 1-31
+  hour: number;     // 0-23
+  minute: number;
+  second: number;
+  weekday: number;  // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Gets a cached formatter that exposes all calendar fields for a timezone
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Returns the timezone of the host system (e.g., "Europe/Rome")
+ */
+export function getSystemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Checks whether a string is a valid IANA timezone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Splits an instant into calendar fields in the given timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday ?? 'Sun')
+  };
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant, in milliseconds
+ */
+function getOffsetMs(utcMs: number, timeZone: string): number {
+  const p = getZonedParts(new Date(utcMs), timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(utcMs / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock date/time in a timezone to a UTC timestamp (ms)
+ *
+ * @param dateKey - Date in YYYY-MM-DD format
+ * @param time - Time in HH:MM[:SS[.mmm]] format (default: midnight)
+ */
+export function zonedTimeToUtc(dateKey: string, timeZone: string, time: string = '00:00'): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hms = '', msPart = '0'] = time.split('.');
+  const [hour = 0, minute = 0, second = 0] = hms.split(':').map(Number);
+  const ms = Number(msPart.padEnd(3, '0').slice(0, 3));
+
+  const guess = Date.UTC(year!, month! - 1, day!, hour, minute, second, ms);
+
+  // Re-check the offset at the result to handle DST transitions
+  const firstPass = guess - getOffsetMs(guess, timeZone);
+  return guess - getOffsetMs(firstPass, timeZone);
+}
+
+/**
+ * Formats an instant as "YYYY-MM-DD" in the given timezone
+ */
+export function formatDateKey(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Formats an instant as "HH:MM" in the given timezone
+ */
+export function formatTime(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}
+
+/**
+ * Returns today's date key in the given timezone
+ */
+export function todayKey(timeZone: string): string {
+  return formatDateKey(new Date(), timeZone);
+}
+
+/**
+ * Adds (or subtracts) whole calendar days to a YYYY-MM-DD date key
+ */
+export function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const date = new Date(Date.UTC(year!, month! - 1, day! + days));
+  return date.toISOString().split('T')[0] as string;
+}
+
+/**
+ * Weekday (0 = Sunday) of a YYYY-MM-DD date key
+ */
+export function weekdayOf(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year!, month! - 1, day!)).getUTCDay();
+}
+
+/**
+ * First and last millisecond of a calendar day in the given timezone
+ */
+export function dayBounds(dateKey: string, timeZone: string): { start: number; end: number } {
+  return {
+    start: zonedTimeToUtc(dateKey, timeZone),
+    end: zonedTimeToUtc(addDays(dateKey, 1), timeZone) - 1
+  };
+}
+
+/**
+ * Parses a user-supplied date-time. Values with an explicit offset or "Z"
+ * are taken as-is; values without one are read as wall-clock time in the
+ * given timezone.
+ *
+ * @returns UTC timestamp in ms, or NaN if the value cannot be parsed
+ */
+export function parseDateTimeInput(value: string, timeZone: string): number {
+  const match = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?))?$/.exec(value.trim());
+  if (match) {
+    return zonedTimeToUtc(match[1]!, timeZone, match[2] ?? '00:00');
+  }
+  return new Date(value).getTime();
+}
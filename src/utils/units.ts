@@ -0,0 +1,93 @@
+/**
+ * Glucose Unit Conversion
+ *
+ * Single place for converting between mg/dL and mmol/L.
+ *
+ * Internally every glucose value (readings, thresholds, ISF) is kept in
+ * mg/dL. Values are converted to the user's unit only when rendered.
+ */
+
+import type { GlucoseUnit } from '../types/api.js';
+
+/**
+ * mg/dL per mmol/L (molar mass of glucose / 10)
+ */
+export const MGDL_PER_MMOL = 18.0182;
+
+/**
+ * Converts mmol/L to mg/dL (rounded to whole mg/dL)
+ */
+export function mmolToMgdl(mmol: number): number {
+  return Math.round(mmol * MGDL_PER_MMOL);
+}
+
+/**
+ * Converts mg/dL to mmol/L (rounded to 0.1 mmol/L)
+ */
+export function mgdlToMmol(mgdl: number): number {
+  return Math.round((mgdl / MGDL_PER_MMOL) * 10) / 10;
+}
+
+/**
+ * Converts a value in mg/dL to the target unit, rounded for display
+ */
+export function fromMgdl(mgdl: number, unit: GlucoseUnit): number {
+  return unit === 'mmol/L' ? mgdlToMmol(mgdl) : Math.round(mgdl);
+}
+
+/**
+ * Converts a value in the given unit to mg/dL (unrounded)
+ */
+export function toMgdl(value: number, unit: GlucoseUnit): number {
+  return unit === 'mmol/L' ? value * MGDL_PER_MMOL : value;
+}
+
+/**
+ * Formats a mg/dL value in the target unit (e.g., "120 mg/dL" or "6.7 mmol/L")
+ */
+export function formatGlucose(mgdl: number, unit: GlucoseUnit): string {
+  const value = fromMgdl(mgdl, unit);
+  return unit === 'mmol/L' ? `${value.toFixed(1)} mmol/L` : `${value} mg/dL`;
+}
+
+/**
+ * Formats a mg/dL range in the target unit (e.g., "95-180 mg/dL")
+ */
+export function formatGlucoseRange(minMgdl: number, maxMgdl: number, unit: GlucoseUnit): string {
+  if (unit === 'mmol/L') {
+    return `${mgdlToMmol(minMgdl).toFixed(1)}-${mgdlToMmol(maxMgdl).toFixed(1)} mmol/L`;
+  }
+  return `${Math.round(minMgdl)}-${Math.round(maxMgdl)} mg/dL`;
+}
+
+/**
+ * Plausible glucose input range in mg/dL
+ */
+const GLUCOSE_INPUT_RANGE = { min: 20, max: 600 };
+
+/**
+ * Converts a glucose input in the user's unit to mg/dL, rejecting implausible values
+ */
+export function glucoseInputToMgdl(glucose: number | undefined, unit: GlucoseUnit): number | undefined {
+  if (glucose === undefined) {
+    return undefined;
+  }
+
+  const mgdl = Math.round(toMgdl(glucose, unit));
+  if (mgdl < GLUCOSE_INPUT_RANGE.min || mgdl > GLUCOSE_INPUT_RANGE.max) {
+    throw new Error(
+      `Glucose ${glucose} ${unit} is outside the plausible range ` +
+      `(${formatGlucose(GLUCOSE_INPUT_RANGE.min, unit)} - ${formatGlucose(GLUCOSE_INPUT_RANGE.max, unit)})`
+    );
+  }
+
+  return mgdl;
+}
+
+/**
+ * Maps the Diabetes:M profile setting (settings.glucose_unit) to a unit
+ * 'mmol_l' -> mmol/L, anything else -> mg/dL
+ */
+export function parseProfileGlucoseUnit(setting: string | undefined): GlucoseUnit {
+  return setting?.toLowerCase() === 'mmol_l' ? 'mmol/L' : 'mg/dL';
+}